@@ -1,15 +1,42 @@
-export const MODEL_CONFIG = {
-    model: "o3-mini",
-    temperature: 0.7,
-    topP: 0.9,
-    topK: 50,
-    maxTokens: 40096,
-    reasoningEffort: "high",
-    store: true
+import { ModelPrice, ModelRole, ModelRoute } from '../interfaces/types';
+
+export const MODEL_ROLES: ModelRole[] = ['planner', 'stepExecutor', 'summarizer', 'errorAnalyst', 'visionReviewer', 'codeReviewer', 'chat'];
+
+export const DEFAULT_PROFILE_NAME = 'default';
+
+export const DEFAULT_MODEL_ROUTES: Record<ModelRole, ModelRoute> = {
+    planner: { model: 'gpt-4o-mini', temperature: 0.3, maxTokens: 1000 },
+    stepExecutor: { model: 'o3-mini', reasoningEffort: 'medium' },
+    summarizer: { model: 'o3-mini', reasoningEffort: 'high', maxTokens: 100000 },
+    errorAnalyst: { model: 'o3-mini', reasoningEffort: 'medium', maxTokens: 100000 },
+    visionReviewer: { model: 'gpt-4o' },
+    codeReviewer: { model: 'o3-mini', reasoningEffort: 'high' },
+    chat: { model: 'o3-mini', reasoningEffort: 'medium' }
 };
 
-export const MODEL_PRICES = {
-    inputTokens: 0.0011,     // $1.10 per million input tokens
-    outputTokens: 0.0044,    // $4.40 per million output tokens
-    cachedInputTokens: 0.00055 // $0.55 per million cached input tokens
-}; 
\ No newline at end of file
+/**
+ * USD per million tokens. Dated model versions (e.g. o3-mini-2025-01-31) use the price of
+ * their longest matching prefix; falalo.modelPrices adds to and overrides this table.
+ */
+export const MODEL_PRICES: Record<string, ModelPrice> = {
+    'o1': { input: 15, cachedInput: 7.5, output: 60 },
+    'o1-mini': { input: 1.1, cachedInput: 0.55, output: 4.4 },
+    'o3': { input: 2, cachedInput: 0.5, output: 8 },
+    'o3-mini': { input: 1.1, cachedInput: 0.55, output: 4.4 },
+    'o4-mini': { input: 1.1, cachedInput: 0.275, output: 4.4 },
+    'gpt-4o': { input: 2.5, cachedInput: 1.25, output: 10 },
+    'gpt-4o-mini': { input: 0.15, cachedInput: 0.075, output: 0.6 },
+    'gpt-4.1': { input: 2, cachedInput: 0.5, output: 8 },
+    'gpt-4.1-mini': { input: 0.4, cachedInput: 0.1, output: 1.6 },
+    'gpt-4.1-nano': { input: 0.1, cachedInput: 0.025, output: 0.4 },
+    'claude-3-5-haiku': { input: 0.8, cachedInput: 0.08, output: 4 },
+    'claude-3-5-sonnet': { input: 3, cachedInput: 0.3, output: 15 },
+    'claude-3-7-sonnet': { input: 3, cachedInput: 0.3, output: 15 },
+    'claude-sonnet-4': { input: 3, cachedInput: 0.3, output: 15 },
+    'claude-3-opus': { input: 15, cachedInput: 1.5, output: 75 },
+    'claude-opus-4': { input: 15, cachedInput: 1.5, output: 75 },
+    // Embeddings are billed for input only
+    'text-embedding-3-small': { input: 0.02, output: 0 },
+    'text-embedding-3-large': { input: 0.13, output: 0 },
+    'text-embedding-ada-002': { input: 0.1, output: 0 }
+};
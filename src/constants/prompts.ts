@@ -20,6 +20,7 @@ Guidelines:
 - Include all necessary setup steps
 - Consider error handling and edge cases
 - Order steps logically
+- Dependencies are 0-based indices of earlier steps; steps without a shared dependency may run in parallel
 - Ensure descriptions are clear and specific
 - Reference file paths relative to the workspace root
 - Include necessary imports and dependencies
@@ -78,6 +79,24 @@ export function helper() {
 }
 \`\`\`
 
+When editing an existing file, prefer SEARCH/REPLACE blocks over rewriting the whole file:
+\`\`\`
+Patch: path/to/file.ext
+<<<<<<< SEARCH
+[exact lines from the current file]
+=======
+[lines to put in their place]
+>>>>>>> REPLACE
+\`\`\`
+
+Rules for SEARCH/REPLACE blocks:
+- Copy the SEARCH lines exactly from the current file, including indentation
+- Include just enough surrounding lines for the SEARCH text to be unique in the file
+- Put several SEARCH/REPLACE blocks under one Patch header to make several edits to one file
+- Leave REPLACE empty to delete the lines
+- Unified diffs (\`--- a/path\`, \`+++ b/path\`, \`@@\` hunks) in a \`\`\`diff block are also accepted
+- Use a File: block for new files and complete rewrites
+
 When creating folders:
 Use this syntax to create a new folder:
 $$$ FOLDER_CREATE path/to/folder %%%
@@ -88,6 +107,10 @@ $$$ COMMAND
 [command to execute]
 $$$ END %%%
 
+- Commands run in order from the workspace root; their exit code and output are shown to you in later steps
+- When a command fails or the user doesn't approve it, the commands after it are skipped and the failure is sent back to you to fix, so don't run commands that are expected to fail
+- Start long-running processes such as dev servers and watchers with \`$$$ COMMAND background\` instead; they keep running and don't block the step
+
 Guidelines:
 1. Always use relative paths from the workspace root
 2. Verify file/folder existence before operations
@@ -108,6 +131,13 @@ Remember to:
 - Handle resources properly
 - Maintain consistent state`;
 
+export const CHAT_PROMPT = `You are an AI coding assistant answering questions about the user's project. Use the workspace context and the earlier conversation when they are relevant.
+
+- Answer in Markdown, with code in fenced blocks tagged with their language
+- Refer to files by their path relative to the workspace root
+- Nothing you write is applied to the workspace, so don't use File:, Patch:, FOLDER_CREATE or COMMAND blocks. Show changes as ordinary code blocks and say which file they belong in
+- If the question can't be answered from what you have been given, say what is missing instead of guessing`;
+
 export const DEFAULT_EXCLUSIONS = [
     // Node.js related
     'node_modules/**',
@@ -1,13 +1,28 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
 import * as fs from 'fs';
-import { OpenAI } from 'openai';
 import { ChatViewProvider } from './providers/ChatViewProvider';
 import { ContextFilesViewProvider } from './providers/ContextFilesViewProvider';
 import { ContextManager } from './services/ContextManager';
 import { LogManager } from './logManager';
 import { initializeTaskPlanner } from './services/taskPlanner';
-import { initializeOpenAI } from './services/openai';
+import { initializeLLM } from './services/llm/llmService';
+import { reportModelProfileErrors, selectModelProfile } from './services/modelRouter';
+import { TaskPlanStore } from './services/TaskPlanStore';
+import { ChatSessionStore } from './services/ChatSessionStore';
+import { MentionResolver } from './services/MentionResolver';
+import { WorkspaceIndex } from './services/WorkspaceIndex';
+import { StagedChangeManager } from './services/StagedChangeManager';
+import { CheckpointManager } from './services/CheckpointManager';
+import { Checkpoint } from './interfaces/types';
+import { resetCommandApprovals } from './services/commandPolicy';
+import { TerminalRunner } from './services/TerminalRunner';
+import { formatRepairSession, RepairEngine } from './services/RepairEngine';
+import { CodeReviewer, ReviewScope } from './services/CodeReviewer';
+import { UsageLedger } from './services/UsageLedger';
+import { UsageStore } from './services/UsageStore';
+import { UsageDashboardPanel } from './providers/UsageDashboardPanel';
+import { CodeReviewPanel } from './providers/CodeReviewPanel';
 
 export async function activate(context: vscode.ExtensionContext) {
     const logger = LogManager.getInstance();
@@ -28,16 +43,26 @@ export async function activate(context: vscode.ExtensionContext) {
             }
         }
 
-        // Initialize OpenAI client
-        logger.log('Initializing OpenAI client...', { type: 'info' });
-        const openai = await initializeOpenAI(context);
-        if (!openai) {
-            throw new Error('Failed to initialize OpenAI client');
+        // Validate model routing before any request is made
+        logger.log('Validating model profiles...', { type: 'info' });
+        reportModelProfileErrors();
+
+        // Initialize LLM provider. Every call goes through the usage ledger, except the
+        // connection test, which must not be blocked by a budget
+        logger.log('Initializing LLM provider...', { type: 'info' });
+        const usageStore = new UsageStore(path.join(context.globalStorageUri.fsPath, 'usage'));
+        await usageStore.load();
+        const usageLedger = new UsageLedger(context.globalState, context.workspaceState, usageStore);
+        context.subscriptions.push(usageLedger);
+        const provider = await initializeLLM(context);
+        if (!provider) {
+            throw new Error('Failed to initialize LLM provider');
         }
+        const llm = usageLedger.meter(provider);
 
         // Initialize task planner
         logger.log('Initializing task planner...', { type: 'info' });
-        initializeTaskPlanner(openai);
+        initializeTaskPlanner(llm);
 
         // Initialize context manager
         const workspaceRoot = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
@@ -45,16 +70,68 @@ export async function activate(context: vscode.ExtensionContext) {
             throw new Error('No workspace folder found. Please open a workspace to use Falalo.');
         }
         logger.log('Initializing context manager...', { type: 'info' });
-        const contextManager = new ContextManager(openai, workspaceRoot);
+        const contextManager = new ContextManager(llm, workspaceRoot);
+
+        // Index the workspace for automatic context suggestions
+        logger.log('Initializing workspace index...', { type: 'info' });
+        const workspaceIndex = new WorkspaceIndex(
+            context.storageUri?.fsPath || path.join(context.globalStorageUri.fsPath, 'workspace-index'),
+            workspaceRoot,
+            llm
+        );
+        context.subscriptions.push(workspaceIndex);
+        await workspaceIndex.initialize();
+
+        // Task plans are kept per workspace so they can be resumed after a reload
+        const taskPlanStore = new TaskPlanStore(context.workspaceState);
+        const chatSessionStore = new ChatSessionStore(context.workspaceState);
+
+        // Every applied batch of file changes is checkpointed so it can be undone
+        const checkpoints = new CheckpointManager(
+            path.join(context.storageUri?.fsPath || context.globalStorageUri.fsPath, 'checkpoints'),
+            workspaceRoot
+        );
+        await checkpoints.initialize();
+
+        // AI file edits wait here for review before they are written
+        const stagedChanges = new StagedChangeManager(workspaceRoot, checkpoints);
+        context.subscriptions.push(
+            checkpoints,
+            stagedChanges,
+            vscode.workspace.registerTextDocumentContentProvider(StagedChangeManager.SCHEME, stagedChanges)
+        );
+
+        // AI commands run here, and failed steps are retried through the repair engine
+        const terminalRunner = new TerminalRunner();
+        const repairEngine = new RepairEngine(llm, terminalRunner, checkpoints);
+        context.subscriptions.push(terminalRunner, repairEngine);
+
+        // Code review results are published as diagnostics with quick fixes
+        const codeReviewer = new CodeReviewer(llm, workspaceRoot);
+        context.subscriptions.push(
+            codeReviewer,
+            vscode.languages.registerCodeActionsProvider({ scheme: 'file' }, codeReviewer, {
+                providedCodeActionKinds: CodeReviewer.providedCodeActionKinds
+            })
+        );
 
         // Register Chat View Provider
         logger.log('Registering chat view provider...', { type: 'info' });
         const chatViewProvider = new ChatViewProvider(
             context.extensionUri,
-            openai,
-            contextManager
+            llm,
+            contextManager,
+            taskPlanStore,
+            workspaceIndex,
+            stagedChanges,
+            terminalRunner,
+            repairEngine,
+            usageLedger,
+            chatSessionStore,
+            new MentionResolver(workspaceRoot)
         );
         context.subscriptions.push(
+            chatViewProvider,
             vscode.window.registerWebviewViewProvider('falalo.chatView', chatViewProvider, {
                 webviewOptions: {
                     retainContextWhenHidden: true
@@ -80,6 +157,10 @@ export async function activate(context: vscode.ExtensionContext) {
                 vscode.commands.executeCommand('falalo.chatView.focus');
             }),
 
+            // The editor context menu passes the document's uri; /review in the chat passes a scope
+            vscode.commands.registerCommand('falalo.reviewCode', (scope?: unknown) =>
+                reviewCode(codeReviewer, context.extensionUri, typeof scope === 'string' ? scope as ReviewScope : undefined)),
+
             vscode.commands.registerCommand('falalo.includeInContext', async () => {
                 const activeEditor = vscode.window.activeTextEditor;
                 if (activeEditor) {
@@ -121,6 +202,183 @@ export async function activate(context: vscode.ExtensionContext) {
 
             vscode.commands.registerCommand('falalo.showLogs', () => {
                 LogManager.getInstance().show();
+            }),
+
+            vscode.commands.registerCommand('falalo.selectModelProfile', selectModelProfile),
+
+            vscode.commands.registerCommand('falalo.rebuildIndex', async () => {
+                await vscode.window.withProgress({
+                    location: vscode.ProgressLocation.Notification,
+                    title: 'Rebuilding Falalo workspace index...'
+                }, () => workspaceIndex.build(true));
+                vscode.window.showInformationMessage('Workspace index rebuilt');
+            }),
+
+            vscode.commands.registerCommand('falalo.acceptStagedChange', (uri?: vscode.Uri) =>
+                decideStagedChange(stagedChanges, uri, id => stagedChanges.accept(id))),
+
+            vscode.commands.registerCommand('falalo.rejectStagedChange', (uri?: vscode.Uri) =>
+                decideStagedChange(stagedChanges, uri, id => stagedChanges.reject(id))),
+
+            vscode.commands.registerCommand('falalo.acceptAllChanges', async () => {
+                try {
+                    await stagedChanges.acceptAll();
+                } catch (error) {
+                    vscode.window.showErrorMessage(`Failed to accept changes: ${error instanceof Error ? error.message : String(error)}`);
+                }
+            }),
+
+            vscode.commands.registerCommand('falalo.rejectAllChanges', async () => {
+                try {
+                    await stagedChanges.rejectAll();
+                } catch (error) {
+                    vscode.window.showErrorMessage(`Failed to reject changes: ${error instanceof Error ? error.message : String(error)}`);
+                }
+            }),
+
+            vscode.commands.registerCommand('falalo.undoLastStep', async () => {
+                const checkpoint = checkpoints.getLastStep();
+                if (!checkpoint) {
+                    vscode.window.showInformationMessage('Nothing to undo');
+                    return;
+                }
+                await restoreCheckpoint(checkpoints, taskPlanStore, checkpoint);
+            }),
+
+            vscode.commands.registerCommand('falalo.restoreCheckpoint', async () => {
+                const all = checkpoints.list();
+                if (all.length === 0) {
+                    vscode.window.showInformationMessage('No checkpoints recorded');
+                    return;
+                }
+
+                // Timeline grouped by task plan, newest first within each plan
+                const items: (vscode.QuickPickItem & { checkpoint?: Checkpoint })[] = [];
+                const planIds = Array.from(new Set(all.map(checkpoint => checkpoint.planId)));
+                for (const planId of planIds) {
+                    items.push({
+                        label: planId ? taskPlanStore.get(planId)?.request || 'Task plan' : 'Other changes',
+                        kind: vscode.QuickPickItemKind.Separator
+                    });
+                    all.filter(checkpoint => checkpoint.planId === planId).forEach(checkpoint => items.push({
+                        label: `$(history) ${checkpoint.label}`,
+                        description: `${checkpoint.files.length} file(s)`,
+                        detail: `${new Date(checkpoint.createdAt).toLocaleString()}: ${checkpoint.files.map(file => file.path).join(', ')}`,
+                        checkpoint
+                    }));
+                }
+
+                const selected = await vscode.window.showQuickPick(items, {
+                    placeHolder: 'Select a checkpoint to restore the workspace to the state before it'
+                });
+                if (selected?.checkpoint) {
+                    await restoreCheckpoint(checkpoints, taskPlanStore, selected.checkpoint);
+                }
+            }),
+
+            vscode.commands.registerCommand('falalo.resetCommandApprovals', () => {
+                resetCommandApprovals();
+                vscode.window.showInformationMessage('Command approvals for this session were cleared');
+            }),
+
+            vscode.commands.registerCommand('falalo.killRunningCommands', () => {
+                const count = terminalRunner.runningCount;
+                terminalRunner.killAll();
+                vscode.window.showInformationMessage(count > 0 ? `Killed ${count} running command(s)` : 'No commands are running');
+            }),
+
+            vscode.commands.registerCommand('falalo.showRepairHistory', async () => {
+                const sessions = repairEngine.getHistory();
+                if (sessions.length === 0) {
+                    vscode.window.showInformationMessage('Nothing has needed repairing yet');
+                    return;
+                }
+
+                const selected = await vscode.window.showQuickPick(sessions.map(session => ({
+                    label: session.context,
+                    description: `${session.status}, ${session.attempts.length} failed attempt(s)`,
+                    detail: new Date(session.startedAt).toLocaleString(),
+                    session
+                })), { placeHolder: 'Select a repair session to see its attempts' });
+                if (selected) {
+                    const document = await vscode.workspace.openTextDocument({
+                        content: formatRepairSession(selected.session),
+                        language: 'markdown'
+                    });
+                    await vscode.window.showTextDocument(document, { preview: true });
+                }
+            }),
+
+            vscode.commands.registerCommand('falalo.showUsageDashboard', () =>
+                UsageDashboardPanel.show(context.extensionUri, usageStore, taskPlanStore, usageLedger)),
+
+            vscode.commands.registerCommand('falalo.newChatSession', () =>
+                runChatSessionCommand(() => chatViewProvider.newChatSession())),
+
+            vscode.commands.registerCommand('falalo.switchChatSession', () =>
+                runChatSessionCommand(() => chatViewProvider.selectChatSession())),
+
+            vscode.commands.registerCommand('falalo.searchChatSessions', () =>
+                runChatSessionCommand(() => chatViewProvider.searchChatSessions())),
+
+            vscode.commands.registerCommand('falalo.exportChatSession', () =>
+                runChatSessionCommand(() => chatViewProvider.exportChatSession())),
+
+            vscode.commands.registerCommand('falalo.resumeTaskPlan', async () => {
+                const plans = taskPlanStore.listUnfinished();
+                if (plans.length === 0) {
+                    vscode.window.showInformationMessage('No unfinished task plans');
+                    return;
+                }
+
+                const selectedPlan = await vscode.window.showQuickPick(plans.map(plan => ({
+                    label: plan.request,
+                    description: `${plan.steps.filter(step => step.status === 'completed').length}/${plan.totalSteps} steps`,
+                    detail: `Updated ${new Date(plan.updatedAt).toLocaleString()}`,
+                    plan
+                })), {
+                    placeHolder: 'Select a task plan to resume'
+                });
+                if (!selectedPlan) {
+                    return;
+                }
+
+                const plan = selectedPlan.plan;
+                const firstOpenStep = Math.max(plan.steps.findIndex(step => step.status !== 'completed'), 0);
+                const actions = [
+                    { label: `Resume from step ${firstOpenStep + 1}`, action: () => chatViewProvider.resumeTaskPlan(plan) },
+                    ...plan.steps
+                        .map((step, index) => ({ step, index }))
+                        .filter(({ step }) => step.status === 'failed')
+                        .map(({ step, index }) => ({
+                            label: `Retry step ${index + 1}`,
+                            description: step.description,
+                            action: () => chatViewProvider.retryTaskStep(plan, index)
+                        })),
+                    { label: 'Delete plan', action: () => taskPlanStore.delete(plan.id) }
+                ];
+
+                const selectedAction = await vscode.window.showQuickPick(actions, {
+                    placeHolder: plan.request
+                });
+                if (!selectedAction) {
+                    return;
+                }
+
+                try {
+                    if (selectedAction.label !== 'Delete plan') {
+                        await vscode.commands.executeCommand('falalo.chatView.focus');
+                    }
+                    await selectedAction.action();
+                } catch (error) {
+                    vscode.window.showErrorMessage(`Failed to resume task plan: ${error instanceof Error ? error.message : String(error)}`);
+                }
+            }),
+
+            vscode.workspace.onDidChangeConfiguration(event => {
+                if (event.affectsConfiguration('falalo.modelProfiles') || event.affectsConfiguration('falalo.activeModelProfile')) {
+                    reportModelProfileErrors();
+                }
             })
         );
 
@@ -135,6 +393,131 @@ export async function activate(context: vscode.ExtensionContext) {
 	}
 }
 
+/**
+ * Chat session commands act on what the chat view shows, so it's opened first.
+ */
+async function runChatSessionCommand(action: () => Promise<void>) {
+    try {
+        await vscode.commands.executeCommand('falalo.chatView.focus');
+        await action();
+    } catch (error) {
+        vscode.window.showErrorMessage(`Chat session command failed: ${error instanceof Error ? error.message : String(error)}`);
+    }
+}
+
+/**
+ * Editor title actions pass the uri of the diff's right side; fall back to the active editor.
+ */
+async function decideStagedChange(stagedChanges: StagedChangeManager, uri: vscode.Uri | undefined, decide: (id: string) => Promise<void>) {
+    const target = uri || vscode.window.activeTextEditor?.document.uri;
+    const change = target && stagedChanges.fromUri(target);
+    if (!change) {
+        vscode.window.showInformationMessage('No pending change for this file');
+        return;
+    }
+
+    try {
+        await decide(change.id);
+    } catch (error) {
+        vscode.window.showErrorMessage(`Failed to apply change to ${change.path}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+}
+
+/**
+ * Reviews the selection, the active file or the uncommitted changes, asking which when
+ * there is more than one choice and no scope was given.
+ */
+async function reviewCode(codeReviewer: CodeReviewer, extensionUri: vscode.Uri, scope?: ReviewScope) {
+    const editor = vscode.window.activeTextEditor;
+    const scopes: (vscode.QuickPickItem & { scope: ReviewScope })[] = [
+        ...(editor && !editor.selection.isEmpty ? [{ label: '$(selection) Selection', scope: 'selection' as const }] : []),
+        ...(editor ? [{ label: '$(file-code) Current file', description: vscode.workspace.asRelativePath(editor.document.uri), scope: 'file' as const }] : []),
+        { label: '$(git-compare) Uncommitted changes', description: 'git diff HEAD', scope: 'diff' }
+    ];
+    if (scope && !scopes.some(item => item.scope === scope)) {
+        vscode.window.showInformationMessage(scope === 'selection' ? 'Select code to review first' : 'Open a file to review first');
+        return;
+    }
+    const selected = scope
+        ? scopes.find(item => item.scope === scope)
+        : scopes.length === 1
+            ? scopes[0]
+            : await vscode.window.showQuickPick(scopes, { placeHolder: 'What should be reviewed?' });
+    if (!selected) {
+        return;
+    }
+
+    const controller = new AbortController();
+    try {
+        const target = await codeReviewer.createTarget(selected.scope, editor);
+        const result = await vscode.window.withProgress({
+            location: vscode.ProgressLocation.Notification,
+            title: `Reviewing ${target.label}...`,
+            cancellable: true
+        }, (_progress, token) => {
+            token.onCancellationRequested(() => controller.abort());
+            return codeReviewer.review(target, controller.signal);
+        });
+
+        codeReviewer.publish(result, target);
+        CodeReviewPanel.show(extensionUri, result, target, file => codeReviewer.toUri(file));
+        vscode.window.showInformationMessage(
+            `Review found ${result.issues.length} issue(s) and ${result.suggestions.length} suggestion(s)`);
+    } catch (error) {
+        if (controller.signal.aborted) {
+            return;
+        }
+        vscode.window.showErrorMessage(`Code review failed: ${error instanceof Error ? error.message : String(error)}`);
+    }
+}
+
+/**
+ * Restores a checkpoint after confirmation. Steps whose changes were reverted are marked
+ * pending again so resuming the plan re-runs them.
+ */
+async function restoreCheckpoint(checkpoints: CheckpointManager, taskPlanStore: TaskPlanStore, checkpoint: Checkpoint) {
+    try {
+        const reverted = checkpoints.getRevertedBy(checkpoint.id);
+        const modified = await checkpoints.findModifiedFiles(checkpoint.id);
+        const later = reverted.length > 1 ? ` and ${reverted.length - 1} later checkpoint(s)` : '';
+        const warning = modified.length > 0
+            ? ` These files were edited since and will be overwritten: ${modified.join(', ')}.`
+            : '';
+
+        const confirmed = await vscode.window.showWarningMessage(
+            `Revert ${checkpoint.label}${later}?${warning}`,
+            { modal: true },
+            'Restore'
+        );
+        if (confirmed !== 'Restore') {
+            return;
+        }
+
+        const restored = await checkpoints.restore(checkpoint.id);
+
+        for (const planId of new Set(reverted.map(candidate => candidate.planId))) {
+            const plan = planId && taskPlanStore.get(planId);
+            if (!plan) {
+                continue;
+            }
+            reverted
+                .filter(candidate => candidate.planId === planId && candidate.stepIndex !== undefined)
+                .forEach(candidate => {
+                    const step = plan.steps[candidate.stepIndex!];
+                    if (step) {
+                        step.status = 'pending';
+                        step.response = undefined;
+                    }
+                });
+            await taskPlanStore.save(plan);
+        }
+
+        vscode.window.showInformationMessage(`Restored ${restored.length} file(s) to before ${checkpoint.label}`);
+    } catch (error) {
+        vscode.window.showErrorMessage(`Failed to restore checkpoint: ${error instanceof Error ? error.message : String(error)}`);
+    }
+}
+
 export function deactivate() {
     LogManager.getInstance().log('Deactivating Falalo extension...', { type: 'info' });
     LogManager.getInstance().dispose();
@@ -1,6 +1,7 @@
 import * as fs from 'fs';
 import * as path from 'path';
 import * as vscode from 'vscode';
+import { assertWritable } from './utils/pathPolicy';
 
 export interface FileInfo {
     path: string;
@@ -213,8 +214,8 @@ export class FileOrganizer {
             await fs.promises.mkdir(categoryPath, { recursive: true });
 
             for (const file of categoryFiles) {
-                const newPath = path.join(categoryPath, path.basename(file.path));
-                await fs.promises.rename(file.path, newPath);
+                const newPath = assertWritable(path.join(categoryPath, path.basename(file.path)), this.workspaceRoot);
+                await fs.promises.rename(assertWritable(file.path, this.workspaceRoot), newPath);
             }
         }
     }
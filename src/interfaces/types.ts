@@ -1,16 +1,24 @@
 import * as vscode from 'vscode';
 
+export type TaskStepStatus = 'pending' | 'in-progress' | 'completed' | 'failed' | 'cancelled' | 'skipped';
+
 export interface TaskStep {
     id: number;
     description: string;
-    status: 'pending' | 'in-progress' | 'completed' | 'failed';
+    status: TaskStepStatus;
     files: string[];
     dependencies: number[];
     code?: string;
     command?: string;
+    response?: string;
+    commandResults?: CommandRunResult[];
+    verification?: VerificationResult;
 }
 
 export interface TaskPlan {
+    id: string;
+    createdAt: string;
+    updatedAt: string;
     steps: TaskStep[];
     currentStep: number;
     totalSteps: number;
@@ -18,6 +26,8 @@ export interface TaskPlan {
     originalRequest: string;
     description: string;
     estimatedTime: string;
+    // Content @-mentioned in the request, given to every step
+    attachments?: ContextAttachment[];
 }
 
 export interface FilePathInfo {
@@ -34,6 +44,39 @@ export interface CommandExecution {
     cwd?: string;
     isBackground: boolean;
     description: string;
+    signal?: AbortSignal;
+}
+
+export interface CommandRunResult {
+    command: string;
+    cwd: string;
+    // null when the process was ended by a signal or failed to start
+    exitCode: number | null;
+    timedOut: boolean;
+    killed: boolean;
+    // Combined stdout and stderr, without ANSI escapes, keeping the end if it was long
+    output: string;
+    durationMs: number;
+    // Refused by the command policy or the user, so it never ran
+    denied?: boolean;
+}
+
+export interface DiagnosticProblem {
+    path: string;
+    // 1-based, as shown in the editor
+    line: number;
+    column: number;
+    message: string;
+    source?: string;
+}
+
+export interface VerificationResult {
+    passed: boolean;
+    // Verification commands that ran, in order; the first failure ends the run
+    commandResults: CommandRunResult[];
+    diagnostics: DiagnosticProblem[];
+    // Repair rounds it took to get here
+    repairs: number;
 }
 
 export interface ContextConfig {
@@ -43,6 +86,27 @@ export interface ContextConfig {
     includePatterns: string[];
 }
 
+export interface ContextFileContent {
+    path: string;
+    content: string;
+}
+
+export type PackMode = 'full' | 'chunks' | 'outline' | 'omitted';
+
+export interface PackedFile {
+    path: string;
+    mode: PackMode;
+    content: string;
+    tokens: number;
+    packedTokens: number;
+}
+
+export interface PackedContext {
+    files: PackedFile[];
+    totalTokens: number;
+    tokenBudget: number;
+}
+
 export interface CodeReviewResult {
     issues: CodeIssue[];
     suggestions: CodeSuggestion[];
@@ -89,10 +153,94 @@ export interface TokenUsage {
     cost: number;
 }
 
+export interface ModelPrice {
+    input: number;
+    // Defaults to the input price for providers without prompt caching
+    cachedInput?: number;
+    output: number;
+}
+
+export interface UsageTotals {
+    calls: number;
+    // Includes cached input tokens
+    inputTokens: number;
+    cachedInputTokens: number;
+    // Includes reasoning tokens, which are billed as output
+    outputTokens: number;
+    reasoningTokens: number;
+    cost: number;
+}
+
+export interface UsagePeriod extends UsageTotals {
+    byModel: Record<string, UsageTotals>;
+}
+
+export type BudgetScope = 'daily' | 'workspace';
+
+export type UsageFeature = 'plan' | 'step' | 'review' | 'retry' | 'screenshot' | 'summary' | 'context' | 'chat' | 'index' | 'other';
+
+export interface UsageTag {
+    feature: UsageFeature;
+    planId?: string;
+}
+
+/**
+ * One model call as kept by the usage store.
+ */
+export interface UsageRecord extends UsageTag {
+    timestamp: string;
+    workspace: string;
+    model: string;
+    inputTokens: number;
+    cachedInputTokens: number;
+    outputTokens: number;
+    reasoningTokens: number;
+    cost: number;
+}
+
 export interface AutoContextResult {
     relevantFiles: string[];
     summary: string;
     confidence: number;
+    suggestions: RelevantFile[];
+}
+
+export interface RelevantFile {
+    path: string;
+    confidence: number;
+    // Where in the file the best match was found
+    startLine: number;
+    endLine: number;
+}
+
+/**
+ * A message as shown in the chat view. Commands are kept as markdown with their output.
+ */
+export interface ChatTranscriptMessage {
+    role: 'user' | 'assistant' | 'command' | 'error';
+    text: string;
+    markdown?: boolean;
+    timestamp: string;
+}
+
+export interface ChatSession {
+    id: string;
+    name: string;
+    createdAt: string;
+    updatedAt: string;
+    messages: ChatTranscriptMessage[];
+    // The conversation as the model sees it: user requests and summaries of what plans did
+    history: ChatMessage[];
+    forkedFrom?: { sessionId: string; messageIndex: number };
+}
+
+/**
+ * Content sent with a single request, such as a file @-mentioned in the chat, without
+ * adding it to the context files.
+ */
+export interface ContextAttachment {
+    title: string;
+    content: string;
 }
 
 export interface CodeSummary {
@@ -106,11 +254,126 @@ export interface CodeSummary {
 }
 
 export interface FileOperation {
-    type: 'create' | 'update' | 'delete';
+    type: 'create' | 'update' | 'delete' | 'patch';
     path: string;
     content?: string;
+    // Only for patch operations, applied in order against the file's current content
+    edits?: PatchEdit[];
+    // Only for create operations: make a folder at path rather than a file, which may be empty
+    directory?: boolean;
+}
+
+export interface PatchEdit {
+    search: string;
+    replace: string;
 }
 
+export interface PatchConflict {
+    path: string;
+    search: string;
+    reason: 'not-found' | 'ambiguous' | 'missing-file';
+    // Closest region of the file, so the model can correct its SEARCH text
+    closest?: {
+        startLine: number;
+        text: string;
+        similarity: number;
+    };
+}
+
+export type HunkStatus = 'pending' | 'accepted' | 'rejected';
+
+export interface StagedHunk {
+    index: number;
+    // 1-based line numbers of the hunk in the current and the proposed file
+    oldStart: number;
+    newStart: number;
+    removed: string;
+    added: string;
+    status: HunkStatus;
+}
+
+export interface StagedChange {
+    id: string;
+    path: string;
+    type: 'create' | 'update' | 'delete';
+    // Content of the file when the change was proposed; empty for new files
+    original: string;
+    proposed: string;
+    hunks: StagedHunk[];
+    origin: ChangeOrigin;
+    createdAt: string;
+}
+
+// Where a file change came from, so checkpoints can be grouped by task plan and step
+export interface ChangeOrigin {
+    label: string;
+    planId?: string;
+    stepIndex?: number;
+}
+
+export interface FileSnapshot {
+    path: string;
+    existed: boolean;
+    content: string;
+}
+
+export interface CheckpointFile extends FileSnapshot {
+    // Hash of the content written by the checkpointed change, null if it deleted the file
+    afterHash: string | null;
+}
+
+export interface Checkpoint extends ChangeOrigin {
+    id: string;
+    createdAt: string;
+    files: CheckpointFile[];
+}
+
+// indirect: the command runs other commands hidden from the checks, e.g. through $(...) or sh -c
+export type CommandRisk = 'destructive' | 'network' | 'install' | 'indirect';
+
+// The actions an AI error analysis may ask for; anything else is refused
+export type AISolutionAction =
+    | { action: 'runCommand'; command: string }
+    | { action: 'installDependency'; packages: string[]; ecosystem?: Ecosystem }
+    | { action: 'createDirectory'; path: string }
+    | { action: 'writeFile'; path: string; content: string }
+    | { action: 'openFile'; path: string };
+
+export interface ErrorAnalysis {
+    analysis: string;
+    explanation: string;
+    shouldStop: boolean;
+    solution: AISolutionAction | null;
+}
+
+export type RepairOutcome = 'pending' | 'fixed' | 'fix-failed' | 'no-fix' | 'declined' | 'stopped' | 'gave-up';
+
+export interface RepairAttempt {
+    attempt: number;
+    failedAt: string;
+    error: string;
+    // Set when the error was recognized as a missing dependency
+    dependency?: string;
+    analysis?: ErrorAnalysis;
+    outcome: RepairOutcome;
+    detail?: string;
+}
+
+export interface RepairSession {
+    id: string;
+    context: string;
+    planId?: string;
+    startedAt: string;
+    finishedAt?: string;
+    status: 'running' | 'succeeded' | 'failed';
+    maxAttempts: number;
+    attempts: RepairAttempt[];
+}
+
+export type Ecosystem = 'node' | 'python' | 'rust' | 'go' | 'java';
+
+export type PackageManager = 'npm' | 'yarn' | 'pnpm' | 'pip' | 'poetry' | 'uv' | 'pipenv' | 'cargo' | 'go' | 'maven' | 'gradle';
+
 export interface CommandOptions {
     commands: string[];
     description?: string;
@@ -121,4 +384,93 @@ export interface CommandOptions {
 export interface LogOptions {
     type?: 'info' | 'error' | 'ai';
     context?: string;
-} 
\ No newline at end of file
+} 
+export type LLMProviderType = 'openai' | 'azure' | 'anthropic' | 'openai-compatible';
+
+export type ReasoningEffort = 'low' | 'medium' | 'high';
+
+export interface ProviderCapabilities {
+    reasoningEffort: boolean;
+    jsonMode: boolean;
+    vision: boolean;
+    streaming: boolean;
+}
+
+export interface ProviderConfig {
+    type: LLMProviderType;
+    apiKey?: string;
+    baseUrl?: string;
+    apiVersion?: string;
+    timeout: number;
+    maxRetries: number;
+    capabilities: ProviderCapabilities;
+}
+
+export interface ChatMessage {
+    role: 'system' | 'user' | 'assistant';
+    content: string;
+    images?: string[];
+}
+
+export interface ChatRequest {
+    model: string;
+    messages: ChatMessage[];
+    reasoningEffort?: ReasoningEffort;
+    temperature?: number;
+    maxTokens?: number;
+    jsonMode?: boolean;
+    store?: boolean;
+    signal?: AbortSignal;
+    // Attributes the call in the usage records; providers ignore it
+    usageTag?: UsageTag;
+}
+
+export interface ChatUsage {
+    promptTokens: number;
+    completionTokens: number;
+    cachedTokens: number;
+    reasoningTokens: number;
+    totalTokens: number;
+}
+
+export interface ChatResponse {
+    content: string;
+    model: string;
+    usage?: ChatUsage;
+}
+
+export type StreamCallback = (delta: string) => void;
+
+export interface EmbeddingRequest {
+    model: string;
+    input: string[];
+    signal?: AbortSignal;
+    usageTag?: UsageTag;
+}
+
+export interface EmbeddingResponse {
+    // In the order of the input
+    embeddings: number[][];
+    model: string;
+    usage?: ChatUsage;
+}
+
+export interface LLMProvider {
+    readonly type: LLMProviderType;
+    readonly capabilities: ProviderCapabilities;
+    complete(request: ChatRequest): Promise<ChatResponse>;
+    stream(request: ChatRequest, onDelta: StreamCallback): Promise<ChatResponse>;
+    // Not every backend offers embeddings; callers fall back to keyword search without them
+    embed?(request: EmbeddingRequest): Promise<EmbeddingResponse>;
+}
+
+export type ModelRole = 'planner' | 'stepExecutor' | 'summarizer' | 'errorAnalyst' | 'visionReviewer' | 'codeReviewer' | 'chat';
+
+export interface ModelRoute {
+    model: string;
+    reasoningEffort?: ReasoningEffort;
+    temperature?: number;
+    maxTokens?: number;
+}
+
+export type ModelProfile = Partial<Record<ModelRole, Partial<ModelRoute>>>;
@@ -1,43 +1,87 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
 import * as fs from 'fs';
-import { OpenAI } from 'openai';
 import { ContextManager } from '../services/ContextManager';
 import { ScreenshotManager } from '../services/ScreenshotManager';
 import { LogManager } from '../logManager';
-import { TokenUsage, CodeSummary, TaskPlan } from '../interfaces/types';
-import { SYSTEM_PROMPT } from '../constants/prompts';
-import { processResponseWithCodeBlocks, handleFileOperations } from '../utils/fileOperations';
-import { evaluateRequest, initializeTaskPlanner } from '../services/taskPlanner';
-import { getWorkspaceContext } from '../utils/contextHelper';
-import { executeCommand } from '../utils/commandExecutor';
+import { UsageTag, ChatSession, ChatTranscriptMessage, ContextAttachment, TaskPlan, TaskStep, ChatMessage, ChatRequest, ChatResponse, FileOperation, ChangeOrigin, LLMProvider, CommandRunResult, RepairAttempt } from '../interfaces/types';
+import { processResponseWithCodeBlocks } from '../utils/fileOperations';
+import { formatPatchConflicts, parsePatchOperations } from '../utils/patchParser';
+import { applyPlanEdits, evaluateRequest, getNextStep, isTaskComplete, updateTaskProgress } from '../services/taskPlanner';
+import { TaskPlanStore } from '../services/TaskPlanStore';
+import { StepContextBuilder } from '../services/StepContextBuilder';
+import { WorkspaceIndex } from '../services/WorkspaceIndex';
+import { StagedChangeManager } from '../services/StagedChangeManager';
+import { getReadySteps, normalizeStepIds, skipBlockedSteps } from '../services/taskScheduler';
+import { getModelRoute } from '../services/modelRouter';
+import { approveCommand, CommandDeniedError } from '../services/commandPolicy';
+import { formatCommandResult, TerminalRunner } from '../services/TerminalRunner';
+import { formatVerificationResult, isVerificationEnabled, verifyStep } from '../services/stepVerifier';
+import { RepairEngine, StepVerificationError } from '../services/RepairEngine';
+import { BudgetExceededError, UsageLedger } from '../services/UsageLedger';
+import { ChatSessionStore, DEFAULT_SESSION_NAME, formatSessionMarkdown } from '../services/ChatSessionStore';
+import { ParsedSlashCommand, SlashCommand, SlashCommandRegistry } from '../services/SlashCommandRegistry';
+import { ReviewScope } from '../services/CodeReviewer';
+import { MentionCompletion, MentionKind, MentionResolver, ResolvedMentions } from '../services/MentionResolver';
+import { InterruptReason, TaskExecutionController, TaskInterruptedError } from '../services/TaskExecutionController';
 
 export class ChatViewProvider implements vscode.WebviewViewProvider {
     private _view?: vscode.WebviewView;
-    private chatHistory: { role: string; parts: { text: string }[] }[] = [];
-    private tokenUsage: TokenUsage = {
-        prompt_tokens: 0,
-        completion_tokens: 0,
-        total_tokens: 0,
-        inputTokens: 0,
-        outputTokens: 0,
-        cachedInputTokens: 0,
-        cost: 0
-    };
+    // The open conversation; its history is what the model sees of earlier requests
+    private session: ChatSession;
+    private static readonly MAX_HISTORY_MESSAGES = 40;
+    // Rounds in which the model may correct edits that didn't match the file
+    private static readonly MAX_PATCH_RETRIES = 2;
+    // Command output is sent to the webview in batches rather than per chunk
+    private static readonly COMMAND_OUTPUT_FLUSH_MS = 100;
+    // Code sent with /explain beyond this many characters is cut
+    private static readonly MAX_ATTACHED_CODE = 60000;
+    // /context add refuses globs matching more files than this
+    private static readonly MAX_CONTEXT_GLOB_FILES = 200;
     private screenshotManager: ScreenshotManager;
-    private summaryHistory: CodeSummary[] = [];
-    private readonly O3_MINI_PRICES = {
-        input: 0.0001,
-        output: 0.0002
-    };
+    private stepContextBuilder: StepContextBuilder;
+    private stagedChangesSubscription: vscode.Disposable;
+    private usageSubscription: vscode.Disposable;
+    private readonly slashCommands = new SlashCommandRegistry();
+    private slashCommandsSubscription: vscode.Disposable;
     private logger: LogManager;
+    private execution?: TaskExecutionController;
+    private pausedPlan?: TaskPlan;
+    private reviewPlan?: TaskPlan;
 
     constructor(
         private readonly extensionUri: vscode.Uri,
-        private readonly model: OpenAI,
-        private readonly contextManager: ContextManager
+        private readonly model: LLMProvider,
+        private readonly contextManager: ContextManager,
+        private readonly taskPlanStore: TaskPlanStore,
+        private readonly workspaceIndex: WorkspaceIndex,
+        private readonly stagedChanges: StagedChangeManager,
+        private readonly terminalRunner: TerminalRunner,
+        private readonly repairEngine: RepairEngine,
+        private readonly usageLedger: UsageLedger,
+        private readonly chatSessionStore: ChatSessionStore,
+        private readonly mentionResolver: MentionResolver
     ) {
+        this.session = chatSessionStore.getActive() || chatSessionStore.newSession();
         this.screenshotManager = new ScreenshotManager(extensionUri.fsPath);
+        this.stepContextBuilder = new StepContextBuilder(contextManager);
+        this.stagedChangesSubscription = stagedChanges.onDidChangeChanges(() => {
+            if (this._view) {
+                this.postStagedChanges(this._view.webview);
+            }
+        });
+        this.usageSubscription = usageLedger.onDidChange(() => {
+            this._view?.webview.postMessage({
+                type: 'updateTokenUsage',
+                usage: usageLedger.getSessionUsage()
+            });
+        });
+        this.registerSlashCommands();
+        this.slashCommandsSubscription = this.slashCommands.onDidChange(() => {
+            if (this._view) {
+                this.postSlashCommands(this._view.webview);
+            }
+        });
         this.logger = LogManager.getInstance();
         this.logger.log('ChatViewProvider initialized', { type: 'info' });
     }
@@ -45,9 +89,13 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
     public resolveWebviewView(
         webviewView: vscode.WebviewView,
         context: vscode.WebviewViewResolveContext,
-        _token: vscode.CancellationToken,
+        token: vscode.CancellationToken,
     ) {
         this.logger.log('Resolving webview view...', { type: 'info' });
+
+        // Running work is tied to the view; don't leave requests and processes behind when it goes away
+        token.onCancellationRequested(() => this.execution?.stop());
+        webviewView.onDidDispose(() => this.execution?.stop());
         
         try {
             this._view = webviewView;
@@ -74,6 +122,9 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
             
             webviewView.webview.html = this.getWebviewContent(webviewView.webview);
             this.setWebviewMessageListener(webviewView.webview);
+            this.postStagedChanges(webviewView.webview);
+            this.postSession(webviewView.webview);
+            this.postSlashCommands(webviewView.webview);
             
             this.logger.log('Webview view resolved successfully', { type: 'info' });
         } catch (error) {
@@ -82,26 +133,6 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
         }
     }
 
-    private updateTokenUsageFromCompletion(completion: any) {
-        if (completion.usage) {
-            this.tokenUsage.inputTokens += completion.usage.prompt_tokens || 0;
-            this.tokenUsage.outputTokens += completion.usage.completion_tokens || 0;
-            this.tokenUsage.cachedInputTokens += completion.usage.cached_tokens || 0;
-            
-            this.tokenUsage.cost = (
-                (this.tokenUsage.inputTokens * this.O3_MINI_PRICES.input) +
-                (this.tokenUsage.outputTokens * this.O3_MINI_PRICES.output)
-            );
-
-            if (this._view) {
-                this._view.webview.postMessage({
-                    type: 'updateTokenUsage',
-                    usage: this.tokenUsage
-                });
-            }
-        }
-    }
-
     private setWebviewMessageListener(webview: vscode.Webview) {
         this.logger.log('Setting up webview message listener...', { type: 'info' });
         
@@ -110,14 +141,94 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
             
             try {
                 switch (message.type) {
-                    case 'userMessage':
-                        await this.handleUserMessage(message.text, webview);
+                    case 'userMessage': {
+                        const mentions = await this.mentionResolver.resolve(message.text);
+                        const slashCommand = this.slashCommands.parse(message.text);
+                        if (slashCommand) {
+                            await this.runSlashCommand(slashCommand, message.text, mentions, webview);
+                        } else {
+                            await this.handleUserMessage(message.text, mentions, webview);
+                        }
+                        break;
+                    }
+                    case 'mentionQuery':
+                        await this.postMentionCompletions(message, webview);
+                        break;
+                    case 'stopExecution':
+                        this.execution?.stop();
+                        if (!this.execution && this.pausedPlan) {
+                            await this.discardPausedPlan(webview);
+                        }
+                        break;
+                    case 'pauseExecution':
+                        this.execution?.pause();
+                        break;
+                    case 'resumeExecution':
+                        await this.handleResume(webview);
+                        break;
+                    case 'executePlan':
+                        await this.executeReviewedPlan(message.steps, webview);
+                        break;
+                    case 'cancelPlan':
+                        await this.cancelReviewedPlan(webview);
+                        break;
+                    case 'acceptContextFiles':
+                        await this.handleAcceptContextFiles(message.paths || [], webview);
+                        break;
+                    case 'openStagedDiff':
+                        await this.stagedChanges.openDiff(message.id);
+                        break;
+                    case 'acceptStagedChange':
+                        await this.stagedChanges.accept(message.id);
+                        break;
+                    case 'rejectStagedChange':
+                        await this.stagedChanges.reject(message.id);
+                        break;
+                    case 'setHunkStatus':
+                        await this.stagedChanges.setHunkStatus(message.id, message.index, message.status);
+                        break;
+                    case 'acceptAllStagedChanges':
+                        await this.stagedChanges.acceptAll();
+                        break;
+                    case 'rejectAllStagedChanges':
+                        await this.stagedChanges.rejectAll();
+                        break;
+                    case 'killCommand':
+                        this.terminalRunner.kill(message.id);
                         break;
                     case 'excludeFile':
                         if (message.path) {
                             await this.handleExcludeFile(message.path, webview);
                         }
                         break;
+                    case 'recordMessage':
+                        this.recordTranscriptMessage(message.message);
+                        break;
+                    case 'newSession':
+                        await this.newChatSession();
+                        break;
+                    case 'switchSession': {
+                        const session = this.chatSessionStore.get(message.id);
+                        if (session) {
+                            await this.openSession(session);
+                        }
+                        break;
+                    }
+                    case 'renameSession':
+                        await this.renameChatSession();
+                        break;
+                    case 'deleteSession':
+                        await this.deleteChatSession();
+                        break;
+                    case 'exportSession':
+                        await this.exportChatSession();
+                        break;
+                    case 'searchSessions':
+                        await this.searchChatSessions();
+                        break;
+                    case 'forkSession':
+                        await this.forkChatSession(message.index);
+                        break;
                     default:
                         this.logger.log(`Unknown message type: ${message.type}`, { type: 'error' });
                 }
@@ -128,22 +239,35 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
         });
     }
 
-    private async handleUserMessage(message: string, webview: vscode.Webview) {
+    private async handleUserMessage(message: string, mentions: ResolvedMentions, webview: vscode.Webview) {
         this.logger.log(`Processing user message: ${message}`, { type: 'info' });
-        
-        try {
-            // Disable input while processing
-            webview.postMessage({
-                type: 'enableInput',
-                enabled: false
-            });
 
-            webview.postMessage({
-                type: 'message',
-                text: message,
-                role: 'user'
-            });
+        webview.postMessage({
+            type: 'message',
+            text: message,
+            role: 'user'
+        });
+        this.postMentions(mentions, webview);
+        await this.planRequest(message, webview, false, mentions.attachments);
+    }
 
+    /**
+     * Plans a request and runs the plan, or with planOnly leaves it open for review whatever
+     * falalo.reviewPlans says. Attachments go to the planner and every step of this plan only.
+     */
+    private async planRequest(message: string, webview: vscode.Webview, planOnly = false, attachments: ContextAttachment[] = []) {
+        this.recordChatTurn('user', message);
+        // Runs alongside planning; accepted files are picked up by the steps that follow
+        this.suggestContextFiles(message, webview);
+
+        // A new request replaces any plan that was left paused or waiting for review
+        this.pausedPlan = undefined;
+        if (this.reviewPlan) {
+            this.reviewPlan = undefined;
+            webview.postMessage({ type: 'planReviewClosed' });
+        }
+
+        await this.runWithExecution(webview, async execution => {
             webview.postMessage({
                 type: 'status',
                 text: 'Planning tasks...',
@@ -151,122 +275,431 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
             });
 
             // Generate task plan
-            const taskPlan = await evaluateRequest(message);
-            
-            webview.postMessage({
-                type: 'updateProgress',
-                data: {
-                    steps: taskPlan.steps,
-                    currentStep: taskPlan.currentStep,
-                    totalSteps: taskPlan.totalSteps
-                }
-            });
+            const taskPlan = await evaluateRequest(message, execution.signal, attachments);
+            if (attachments.length > 0) {
+                taskPlan.attachments = attachments;
+            }
+            await this.postProgress(webview, taskPlan);
 
             webview.postMessage({
                 type: 'message',
-                text: `I'll help you with that. Here's the plan:\n\n${taskPlan.steps.map((step, index) => `${index + 1}. ${step.description}`).join('\n')}`,
+                text: `I'll help you with that. Here's the plan:\n\n${taskPlan.steps.map(step => this.describeStep(step)).join('\n')}`,
                 role: 'assistant'
             });
 
-            // Execute each step
-            for (let i = 0; i < taskPlan.steps.length; i++) {
-                const step = taskPlan.steps[i];
-                step.status = 'in-progress';
-                
+            if (planOnly || vscode.workspace.getConfiguration('falalo').get<boolean>('reviewPlans', true)) {
+                this.reviewPlan = taskPlan;
                 webview.postMessage({
-                    type: 'updateProgress',
-                    data: {
-                        steps: taskPlan.steps,
-                        currentStep: i,
-                        totalSteps: taskPlan.totalSteps
-                    }
+                    type: 'planReview',
+                    steps: taskPlan.steps
                 });
-
                 webview.postMessage({
                     type: 'status',
-                    text: `Executing step ${i + 1}: ${step.description}`,
+                    text: 'Review the plan, then press Execute',
                     status: 'info'
                 });
+                return;
+            }
 
-                try {
-                    // Get AI response for the current step
-                    const completion = await this.model.chat.completions.create({
-                        model: 'o3-mini',
-                        messages: [
-                            {
-                                role: 'system',
-                                content: `You are an AI assistant helping with coding tasks. Current step (${i + 1}/${taskPlan.totalSteps}): ${step.description}`
-                            },
-                            {
-                                role: 'user',
-                                content: `Please help me complete this step: ${step.description}\n\nProvide the necessary code, file operations, or commands to complete this specific step.`
-                            }
-                        ],
-                        reasoning_effort: 'medium',
-                        store: true
-                    });
+            await this.runTaskPlan(taskPlan, webview, execution);
+        });
+    }
 
-                    const stepResponse = completion.choices[0]?.message?.content;
-                    if (!stepResponse) {
-                        throw new Error('No response from AI for step');
-                    }
+    /**
+     * The built-in slash commands. Extensions of the chat add theirs with registerSlashCommand.
+     */
+    private registerSlashCommands() {
+        const commands: SlashCommand[] = [
+            {
+                name: 'ask',
+                args: '<question>',
+                description: 'Answer a question without planning or changing files',
+                run: (args, attachments) => this.askQuestion(requireArgs(args, 'Type a question after /ask'), attachments, this.requireWebview())
+            },
+            {
+                name: 'plan',
+                args: '<request>',
+                description: 'Plan a request and wait for review before running it',
+                run: (args, attachments) => this.planRequest(requireArgs(args, 'Type a request after /plan'), this.requireWebview(), true, attachments)
+            },
+            {
+                name: 'explain',
+                args: '[question]',
+                description: 'Explain the selected code or the active file',
+                run: (args, attachments) => this.explainCode(args, attachments, this.requireWebview())
+            },
+            {
+                name: 'test',
+                args: '[focus]',
+                description: 'Write and run tests for the selected code or the active file',
+                run: (args, attachments) => this.writeTests(args, attachments, this.requireWebview())
+            },
+            {
+                name: 'review',
+                args: '[selection|file|diff]',
+                description: 'Review code and show the findings as diagnostics',
+                run: args => this.reviewFromChat(args)
+            },
+            {
+                name: 'context',
+                args: 'add <glob>',
+                description: 'Add the workspace files matching a glob to the context',
+                run: args => this.runContextCommand(args, this.requireWebview())
+            },
+            {
+                name: 'clear',
+                description: 'Start a new chat session',
+                transient: true,
+                run: () => this.newChatSession()
+            }
+        ];
+        commands.forEach(command => this.slashCommands.register(command));
+    }
 
-                    // Update token usage
-                    this.updateTokenUsageFromCompletion(completion);
+    public registerSlashCommand(command: SlashCommand): vscode.Disposable {
+        return this.slashCommands.register(command);
+    }
 
-                    // Execute any commands in the response
-                    await this.detectAndExecuteCommands(stepResponse, webview);
+    private async runSlashCommand(slashCommand: ParsedSlashCommand, input: string, mentions: ResolvedMentions, webview: vscode.Webview) {
+        const command = slashCommand.command;
+        if (!command) {
+            webview.postMessage({
+                type: 'message',
+                text: `Unknown command /${slashCommand.name}. Available commands: ${this.slashCommands.list().map(known => `/${known.name}`).join(', ')}`,
+                role: 'error'
+            });
+            webview.postMessage({ type: 'enableInput', enabled: true });
+            return;
+        }
 
-                    // Handle any file operations
-                    const operations = processResponseWithCodeBlocks(stepResponse);
-                    if (operations.length > 0) {
-                        await handleFileOperations(operations);
-                        step.files = operations.map(op => op.path);
-                    }
+        if (!command.transient) {
+            webview.postMessage({ type: 'message', text: input, role: 'user' });
+            this.postMentions(mentions, webview);
+        }
+        try {
+            await command.run(slashCommand.args, mentions.attachments);
+        } finally {
+            // Commands that don't run through runWithExecution leave the input disabled otherwise
+            webview.postMessage({ type: 'enableInput', enabled: true });
+        }
+    }
 
-                    // Show the step response
-                    webview.postMessage({
-                        type: 'message',
-                        text: `Step ${i + 1}: ${stepResponse}`,
-                        role: 'assistant'
-                    });
+    private postSlashCommands(webview: vscode.Webview) {
+        webview.postMessage({ type: 'slashCommands', commands: this.slashCommands.list() });
+    }
 
-                    step.status = 'completed';
-                } catch (error) {
-                    step.status = 'failed';
-                    throw error;
-                } finally {
-                    webview.postMessage({
-                        type: 'updateProgress',
-                        data: {
-                            steps: taskPlan.steps,
-                            currentStep: i,
-                            totalSteps: taskPlan.totalSteps
-                        }
-                    });
-                }
+    /**
+     * Lists what the message's @-mentions attached, and the mentions that couldn't be resolved.
+     */
+    private postMentions(mentions: ResolvedMentions, webview: vscode.Webview) {
+        if (mentions.attachments.length > 0) {
+            webview.postMessage({
+                type: 'message',
+                text: `📎 Attached: ${mentions.attachments.map(attachment => attachment.title).join(', ')}`,
+                role: 'assistant'
+            });
+        }
+        if (mentions.errors.length > 0) {
+            webview.postMessage({
+                type: 'message',
+                text: `Not attached:\n${mentions.errors.map(error => `- ${error}`).join('\n')}`,
+                role: 'error'
+            });
+        }
+    }
+
+    private async postMentionCompletions(message: any, webview: vscode.Webview) {
+        const kinds: MentionKind[] = ['file', 'folder', 'symbol'];
+        if (!kinds.includes(message.kind)) {
+            return;
+        }
+
+        let items: MentionCompletion[] = [];
+        try {
+            items = await this.mentionResolver.search(message.kind, String(message.query || ''));
+        } catch (error) {
+            this.logger.logError(error, 'Mention completions');
+        }
+        // Answered even when the search failed, so the webview stops waiting
+        webview.postMessage({ type: 'mentionCompletions', id: message.id, items });
+    }
+
+    /**
+     * Answers in the chat without a plan. Nothing in the answer is applied to the workspace.
+     * Attachments are sent with the question but left out of the chat history.
+     */
+    private async askQuestion(question: string, attachments: ContextAttachment[], webview: vscode.Webview) {
+        await this.runWithExecution(webview, async execution => {
+            const route = getModelRoute('chat');
+            const tokenBudget = vscode.workspace.getConfiguration('falalo').get<number>('contextTokenBudget', 32000);
+            const messages = await this.stepContextBuilder.buildQuestion(question, attachments, this.session.history, tokenBudget, route.model);
+            this.recordChatTurn('user', question);
+
+            const completion = await this.streamCompletion({
+                ...route,
+                messages,
+                store: true,
+                signal: execution.signal,
+                usageTag: { feature: 'chat' }
+            }, webview);
+            this.recordChatTurn('assistant', completion.content);
+        });
+    }
+
+    private async explainCode(question: string, attachments: ContextAttachment[], webview: vscode.Webview) {
+        const code = this.getEditorCode();
+        if (!code) {
+            throw new Error('Select code or open a file to explain');
+        }
+
+        let text = code.text;
+        if (text.length > ChatViewProvider.MAX_ATTACHED_CODE) {
+            text = `${text.slice(0, ChatViewProvider.MAX_ATTACHED_CODE)}\n[... cut at ${ChatViewProvider.MAX_ATTACHED_CODE} characters]`;
+        }
+        await this.askQuestion(
+            `Explain ${code.label}${question ? `: ${question}` : ''}`,
+            [{ title: `Code: ${code.label}`, content: `\`\`\`${code.languageId}\n${text}\n\`\`\`` }, ...attachments],
+            webview
+        );
+    }
+
+    /**
+     * Plans writing tests like any other request. The file under test is added to the
+     * context so every step sees it.
+     */
+    private async writeTests(focus: string, attachments: ContextAttachment[], webview: vscode.Webview) {
+        const code = this.getEditorCode();
+        if (!code && !focus) {
+            throw new Error('Select code or open a file to test, or say what to test after /test');
+        }
+
+        if (code) {
+            try {
+                await this.contextManager.addToContext(code.uri.fsPath);
+                await this.updateContextFiles(webview);
+            } catch (error) {
+                this.logger.logError(error, `Failed to add ${code.label} to context`);
+            }
+        }
+
+        const subject = code ? `${code.label}${focus ? `, focusing on ${focus}` : ''}` : focus;
+        await this.planRequest(`Write tests for ${subject}. Follow the project's existing test framework and layout, then run the new tests.`, webview, false, attachments);
+    }
+
+    private async reviewFromChat(scope: string) {
+        const scopes: ReviewScope[] = ['selection', 'file', 'diff'];
+        if (scope && !scopes.includes(scope as ReviewScope)) {
+            throw new Error('Usage: /review [selection|file|diff]');
+        }
+        await vscode.commands.executeCommand('falalo.reviewCode', scope || undefined);
+    }
+
+    private async runContextCommand(args: string, webview: vscode.Webview) {
+        const match = /^add\s+(.+)$/.exec(args);
+        if (!match) {
+            throw new Error('Usage: /context add followed by a glob, e.g. /context add src/**/*.ts');
+        }
+
+        const glob = match[1].trim();
+        const files = await vscode.workspace.findFiles(glob, '**/node_modules/**', ChatViewProvider.MAX_CONTEXT_GLOB_FILES + 1);
+        if (files.length === 0) {
+            webview.postMessage({ type: 'message', text: `No files match ${glob}`, role: 'assistant' });
+            return;
+        }
+        if (files.length > ChatViewProvider.MAX_CONTEXT_GLOB_FILES) {
+            throw new Error(`${glob} matches more than ${ChatViewProvider.MAX_CONTEXT_GLOB_FILES} files; use a narrower pattern`);
+        }
+
+        await this.handleAcceptContextFiles(files.map(file => vscode.workspace.asRelativePath(file, false)), webview);
+    }
+
+    /**
+     * The selection in the active editor, or the whole file when nothing is selected.
+     */
+    private getEditorCode(): { label: string; text: string; languageId: string; uri: vscode.Uri } | undefined {
+        const editor = vscode.window.activeTextEditor;
+        if (!editor || editor.document.uri.scheme !== 'file') {
+            return undefined;
+        }
+
+        const document = editor.document;
+        const file = vscode.workspace.asRelativePath(document.uri, false);
+        const selection = editor.selection;
+        return selection.isEmpty
+            ? { label: file, text: document.getText(), languageId: document.languageId, uri: document.uri }
+            : {
+                label: `${file} lines ${selection.start.line + 1}-${selection.end.line + 1}`,
+                text: document.getText(selection),
+                languageId: document.languageId,
+                uri: document.uri
+            };
+    }
+
+    /**
+     * Runs the plan awaiting review with the steps as edited in the webview. Invalid edits,
+     * such as a dependency cycle, are reported back and the review stays open.
+     */
+    private async executeReviewedPlan(steps: any[], webview: vscode.Webview) {
+        const plan = this.reviewPlan;
+        if (!plan) {
+            // The review can outlive the plan when the extension host restarts
+            webview.postMessage({ type: 'planReviewClosed' });
+            return;
+        }
+        if (this.execution) {
+            return;
+        }
+
+        try {
+            applyPlanEdits(plan, steps);
+        } catch (error) {
+            webview.postMessage({
+                type: 'planReviewError',
+                text: error instanceof Error ? error.message : String(error)
+            });
+            return;
+        }
+
+        this.reviewPlan = undefined;
+        webview.postMessage({ type: 'planReviewClosed' });
+        await this.postProgress(webview, plan);
+
+        await this.runWithExecution(webview, async execution => {
+            webview.postMessage({
+                type: 'message',
+                text: `Executing the reviewed plan:\n\n${plan.steps.map(step => this.describeStep(step)).join('\n')}`,
+                role: 'assistant'
+            });
+
+            await this.runTaskPlan(plan, webview, execution);
+        });
+    }
+
+    private async cancelReviewedPlan(webview: vscode.Webview) {
+        const plan = this.reviewPlan;
+        this.reviewPlan = undefined;
+        if (plan) {
+            await this.taskPlanStore.delete(plan.id);
+        }
+
+        webview.postMessage({ type: 'planReviewClosed' });
+        webview.postMessage({ type: 'clearProgress' });
+        webview.postMessage({
+            type: 'status',
+            text: 'Plan discarded',
+            status: 'info'
+        });
+    }
 
-                // Small delay between steps
-                await new Promise(resolve => setTimeout(resolve, 1000));
+    private async handleResume(webview: vscode.Webview) {
+        if (this.pausedPlan) {
+            await this.resumeTaskPlan(this.pausedPlan);
+        }
+    }
+
+    /**
+     * Continues a paused or persisted plan. Every step that hasn't completed is scheduled
+     * again, including steps that failed or were skipped because a dependency failed.
+     */
+    public async resumeTaskPlan(plan: TaskPlan) {
+        const webview = this.requireWebview();
+        if (this.execution) {
+            throw new Error('A task plan is already running');
+        }
+        this.pausedPlan = undefined;
+
+        // Plans saved before steps carried ids are normalized on the way back in
+        plan.steps = normalizeStepIds(plan.steps);
+        plan.steps.forEach(step => {
+            if (step.status !== 'completed') {
+                step.status = 'pending';
             }
+        });
+        plan.currentStep = Math.max(plan.steps.findIndex(step => step.status !== 'completed'), 0);
 
-            // All steps completed
+        await this.runWithExecution(webview, async execution => {
             webview.postMessage({
-                type: 'status',
-                text: 'All tasks completed successfully!',
-                status: 'success'
+                type: 'message',
+                text: `Resuming "${plan.request}" from step ${plan.currentStep + 1}...`,
+                role: 'assistant'
+            });
+
+            await this.runTaskPlan(plan, webview, execution);
+        });
+    }
+
+    public async retryTaskStep(plan: TaskPlan, stepIndex: number) {
+        const webview = this.requireWebview();
+        if (this.execution) {
+            throw new Error('A task plan is already running');
+        }
+
+        plan.steps = normalizeStepIds(plan.steps);
+        const unmet = plan.steps[stepIndex].dependencies.filter(dependency => plan.steps[dependency].status !== 'completed');
+        if (unmet.length > 0) {
+            throw new Error(`Step ${stepIndex + 1} depends on unfinished steps ${unmet.map(dependency => dependency + 1).join(', ')}`);
+        }
+
+        await this.runWithExecution(webview, async execution => {
+            await updateTaskProgress(plan, stepIndex, 'pending');
+            webview.postMessage({
+                type: 'message',
+                text: `Retrying step ${stepIndex + 1}: ${plan.steps[stepIndex].description}`,
+                role: 'assistant'
+            });
+
+            await this.executeStep(plan, stepIndex, webview, execution);
+
+            // Dependents skipped after the original failure can run again now
+            plan.steps.forEach(step => {
+                if (step.status === 'skipped') {
+                    step.status = 'pending';
+                }
             });
+            skipBlockedSteps(plan);
+            await this.postProgress(webview, plan);
 
+            const nextStep = getNextStep(plan);
             webview.postMessage({
                 type: 'message',
-                text: '✨ All tasks have been completed successfully! Is there anything else you need help with?',
+                text: nextStep
+                    ? `Step ${stepIndex + 1} completed. Resume the plan to continue with step ${nextStep.id + 1}.`
+                    : `Step ${stepIndex + 1} completed.`,
                 role: 'assistant'
             });
+        });
+    }
+
+    private requireWebview(): vscode.Webview {
+        if (!this._view) {
+            throw new Error('Open the Falalo chat view first');
+        }
+        return this._view.webview;
+    }
+
+    private async runWithExecution(webview: vscode.Webview, task: (execution: TaskExecutionController) => Promise<void>) {
+        const execution = new TaskExecutionController();
+        this.execution = execution;
+
+        try {
+            // Disable input while processing
+            webview.postMessage({
+                type: 'enableInput',
+                enabled: false
+            });
+            this.postExecutionState(webview, 'running');
 
+            await task(execution);
         } catch (error) {
-            this.logger.logError(error, 'Task execution error');
-            this.handleError(error, webview);
+            if (execution.reason) {
+                this.postInterrupted(webview, execution.reason);
+            } else {
+                this.logger.logError(error, 'Task execution error');
+                this.handleError(error, webview);
+            }
         } finally {
+            this.execution = undefined;
+            this.postExecutionState(webview, this.pausedPlan ? 'paused' : 'idle');
             webview.postMessage({
                 type: 'enableInput',
                 enabled: true
@@ -274,217 +707,787 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
         }
     }
 
-    private async handleExcludeFile(filePath: string, webview: vscode.Webview) {
-        try {
-            const workspaceRoot = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
-            if (!workspaceRoot) {
-                throw new Error('No workspace folder found');
+    /**
+     * Schedules the plan's pending steps in dependency order. Up to falalo.parallelSteps
+     * independent steps run at once. A failed step doesn't stop the plan: its dependents
+     * are skipped and the remaining independent steps still run.
+     */
+    private async runTaskPlan(taskPlan: TaskPlan, webview: vscode.Webview, execution: TaskExecutionController) {
+        const maxParallel = Math.max(1, vscode.workspace.getConfiguration('falalo').get<number>('parallelSteps', 1));
+        const running = new Map<number, Promise<void>>();
+        const failed: TaskStep[] = [];
+        let interruption: unknown;
+
+        const launch = (step: TaskStep) => {
+            // A failed step is retried once its cause has been repaired, e.g. a missing dependency installed.
+            // Failed verification isn't retried: the step already had its own rounds of fixes
+            const task = this.repairEngine.run(
+                () => this.executeStep(taskPlan, step.id, webview, execution),
+                `Step ${step.id + 1}: ${step.description}`,
+                {
+                    signal: execution.signal,
+                    planId: taskPlan.id,
+                    onAttempt: (attempt, session) => {
+                        if (attempt.outcome !== 'gave-up') {
+                            webview.postMessage({
+                                type: 'message',
+                                text: `🔧 Step ${step.id + 1} failed (attempt ${attempt.attempt}/${session.maxAttempts}): ${this.describeRepair(attempt)}`,
+                                role: 'assistant'
+                            });
+                        }
+                    }
+                }
+            )
+                .catch(error => {
+                    // Going over budget pauses the plan so it can be resumed once the user decides
+                    if (error instanceof BudgetExceededError && !execution.reason) {
+                        webview.postMessage({ type: 'message', text: `💰 ${error.message}`, role: 'assistant' });
+                        execution.pause();
+                    }
+                    if (execution.reason) {
+                        interruption = interruption || error;
+                        return;
+                    }
+                    failed.push(step);
+                    this.logger.logError(error, `Step ${step.id + 1} failed`);
+                    webview.postMessage({
+                        type: 'message',
+                        text: `❌ Step ${step.id + 1} failed: ${error instanceof Error ? error.message : String(error)}`,
+                        role: 'assistant'
+                    });
+                })
+                .finally(() => running.delete(step.id));
+            running.set(step.id, task);
+        };
+
+        while (true) {
+            if (!execution.reason) {
+                const ready = getReadySteps(taskPlan).filter(step => !running.has(step.id));
+                ready.slice(0, maxParallel - running.size).forEach(launch);
             }
-            
-            const fullPath = path.join(workspaceRoot, filePath);
-            await this.contextManager.removeFromContext(fullPath);
-            await this.updateContextFiles(webview);
-            
+            if (running.size === 0) {
+                break;
+            }
+
+            await Promise.race(running.values());
+
+            const skipped = skipBlockedSteps(taskPlan);
+            if (skipped.length > 0) {
+                await this.postProgress(webview, taskPlan);
+            }
+        }
+
+        if (!execution.reason) {
+            this.recordChatTurn('assistant', this.summarizePlanOutcome(taskPlan));
+        }
+
+        if (execution.reason) {
+            if (execution.reason === 'paused') {
+                this.pausedPlan = taskPlan;
+            }
+            throw interruption || new TaskInterruptedError(execution.reason);
+        }
+
+        if (failed.length > 0) {
+            const skipped = taskPlan.steps.filter(step => step.status === 'skipped');
             webview.postMessage({
-                type: 'fileOperation',
-                success: true,
-                details: `Removed from context: ${filePath}`
+                type: 'status',
+                text: `${failed.length} step(s) failed${skipped.length > 0 ? `, ${skipped.length} skipped` : ''}`,
+                status: 'error'
             });
-        } catch (error) {
-            this.handleError(error, webview);
+            webview.postMessage({
+                type: 'message',
+                text: `Failed: ${failed.map(step => step.id + 1).join(', ')}${skipped.length > 0 ? `. Skipped because of failed dependencies: ${skipped.map(step => step.id + 1).join(', ')}` : ''}. Run "Falalo: Resume Task Plan" to retry.`,
+                role: 'assistant'
+            });
+            return;
         }
-    }
 
-    private handleError(error: any, webview: vscode.Webview) {
-        const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
-        this.logger.logError(error, 'Chat error');
-        
+        if (!isTaskComplete(taskPlan)) {
+            webview.postMessage({
+                type: 'status',
+                text: `Step ${taskPlan.currentStep + 1} is waiting on unfinished dependencies`,
+                status: 'error'
+            });
+            return;
+        }
+
+        // All steps completed
         webview.postMessage({
             type: 'status',
-            text: 'An error occurred',
-            status: 'error'
+            text: 'All tasks completed successfully!',
+            status: 'success'
         });
-        
+
         webview.postMessage({
             type: 'message',
-            text: `Error: ${errorMessage}`,
-            role: 'error'
+            text: '✨ All tasks have been completed successfully! Is there anything else you need help with?',
+            role: 'assistant'
         });
-        
+    }
+
+    private recordChatTurn(role: ChatMessage['role'], content: string) {
+        const history = this.session.history;
+        // Sessions are named after their first request unless the user named them already
+        if (role === 'user' && this.session.name === DEFAULT_SESSION_NAME && !history.some(turn => turn.role === 'user')) {
+            this.session.name = sessionTitle(content);
+        }
+
+        history.push({ role, content });
+        if (history.length > ChatViewProvider.MAX_HISTORY_MESSAGES) {
+            history.splice(0, history.length - ChatViewProvider.MAX_HISTORY_MESSAGES);
+        }
+        this.persistSession();
+    }
+
+    /**
+     * Adds a message the webview has finished rendering to the open session's transcript.
+     */
+    private recordTranscriptMessage(message: any) {
+        const roles: ChatTranscriptMessage['role'][] = ['user', 'assistant', 'command', 'error'];
+        if (typeof message?.text !== 'string' || !roles.includes(message.role)) {
+            return;
+        }
+
+        this.session.messages.push({
+            role: message.role,
+            text: message.text,
+            markdown: message.markdown === true,
+            timestamp: new Date().toISOString()
+        });
+        this.persistSession();
+    }
+
+    private persistSession() {
+        const session = this.session;
+        this.chatSessionStore.save(session)
+            .then(() => this.chatSessionStore.setActive(session.id))
+            .then(() => this.postSessions())
+            .catch(error => this.logger.logError(error, 'Failed to save chat session'));
+    }
+
+    public async newChatSession() {
+        await this.openSession(this.chatSessionStore.newSession());
+    }
+
+    public async selectChatSession() {
+        const sessions = this.chatSessionStore.list();
+        if (sessions.length === 0) {
+            vscode.window.showInformationMessage('No saved chat sessions');
+            return;
+        }
+
+        const selected = await vscode.window.showQuickPick(sessions.map(session => ({
+            label: session.name,
+            description: `${session.messages.length} message(s)${session.id === this.session.id ? ', open' : ''}`,
+            detail: `Updated ${new Date(session.updatedAt).toLocaleString()}`,
+            session
+        })), { placeHolder: 'Select a chat session to open' });
+        if (selected) {
+            await this.openSession(selected.session);
+        }
+    }
+
+    public async searchChatSessions() {
+        const query = await vscode.window.showInputBox({
+            prompt: 'Search the messages of every chat session in this workspace',
+            placeHolder: 'Text to find'
+        });
+        if (!query?.trim()) {
+            return;
+        }
+
+        const results = this.chatSessionStore.search(query);
+        if (results.length === 0) {
+            vscode.window.showInformationMessage(`No chat messages contain "${query.trim()}"`);
+            return;
+        }
+
+        const selected = await vscode.window.showQuickPick(results.map(result => ({
+            label: result.session.name,
+            description: new Date(result.session.messages[result.messageIndex].timestamp).toLocaleString(),
+            detail: result.snippet,
+            result
+        })), { placeHolder: `${results.length} matching message(s)`, matchOnDetail: true });
+        if (selected) {
+            await this.openSession(selected.result.session, selected.result.messageIndex);
+        }
+    }
+
+    public async exportChatSession() {
+        const session = this.session;
+        if (session.messages.length === 0) {
+            vscode.window.showInformationMessage('This chat session has no messages to export');
+            return;
+        }
+
+        const fileName = `${session.name.replace(/[^\w\- ]+/g, '').trim().replace(/\s+/g, '-') || 'chat'}.md`;
+        const target = await vscode.window.showSaveDialog({
+            defaultUri: vscode.Uri.joinPath(vscode.workspace.workspaceFolders?.[0]?.uri || this.extensionUri, fileName),
+            filters: { 'Markdown': ['md'] }
+        });
+        if (!target) {
+            return;
+        }
+
+        await fs.promises.writeFile(target.fsPath, formatSessionMarkdown(session));
+        vscode.window.showInformationMessage(`Exported "${session.name}" to ${vscode.workspace.asRelativePath(target)}`);
+    }
+
+    private async renameChatSession() {
+        const name = await vscode.window.showInputBox({
+            prompt: 'Rename the chat session',
+            value: this.session.name,
+            validateInput: value => value.trim() ? undefined : 'Enter a name'
+        });
+        if (!name?.trim()) {
+            return;
+        }
+
+        this.session.name = name.trim();
+        this.persistSession();
+    }
+
+    private async deleteChatSession() {
+        if (!this.canSwitchSession()) {
+            return;
+        }
+        const choice = await vscode.window.showWarningMessage(
+            `Delete the chat session "${this.session.name}"?`,
+            { modal: true },
+            'Delete'
+        );
+        if (choice !== 'Delete') {
+            return;
+        }
+
+        await this.chatSessionStore.delete(this.session.id);
+        await this.openSession(this.chatSessionStore.list()[0] || this.chatSessionStore.newSession());
+    }
+
+    /**
+     * Continues the conversation from a message in a new session, leaving the original as it was.
+     */
+    private async forkChatSession(messageIndex: number) {
+        if (!this.canSwitchSession()) {
+            return;
+        }
+        const fork = await this.chatSessionStore.fork(this.session, messageIndex);
+        await this.openSession(fork, messageIndex);
+    }
+
+    /**
+     * Shows a session in the chat view. Plans waiting for review or paused belong to the
+     * session that was open; paused plans can still be continued with Falalo: Resume Task Plan.
+     */
+    private async openSession(session: ChatSession, scrollTo?: number) {
+        if (!this.canSwitchSession()) {
+            return;
+        }
+
+        this.session = session;
+        this.pausedPlan = undefined;
+        this.reviewPlan = undefined;
+        await this.chatSessionStore.setActive(session.id);
+
+        const webview = this._view?.webview;
+        if (webview) {
+            webview.postMessage({ type: 'planReviewClosed' });
+            webview.postMessage({ type: 'clearProgress' });
+            this.postExecutionState(webview, 'idle');
+            this.postSession(webview, scrollTo);
+        }
+    }
+
+    private canSwitchSession(): boolean {
+        if (this.execution) {
+            vscode.window.showWarningMessage('Stop the running task plan before changing chat sessions');
+            // Puts the session picker back on the open session
+            this.postSessions();
+            return false;
+        }
+        return true;
+    }
+
+    private postSession(webview: vscode.Webview, scrollTo?: number) {
         webview.postMessage({
-            type: 'enableInput',
-            enabled: true
+            type: 'loadSession',
+            messages: this.session.messages,
+            scrollTo
         });
-        
-        vscode.window.showErrorMessage(`Chat error: ${errorMessage}`);
+        this.postSessions();
     }
 
-    private async executeTaskPlan(taskPlan: any, webview: vscode.Webview) {
-        while (taskPlan.currentStep < taskPlan.totalSteps) {
-            const currentStep = taskPlan.steps[taskPlan.currentStep];
-            currentStep.status = 'in-progress';
-            
-            webview.postMessage({
-                type: 'updateProgress',
-                data: {
-                    currentStep: taskPlan.currentStep,
-                    totalSteps: taskPlan.totalSteps,
-                    steps: taskPlan.steps
+    private postSessions() {
+        const sessions = this.chatSessionStore.list();
+        // A new session isn't stored until its first message
+        if (!sessions.some(session => session.id === this.session.id)) {
+            sessions.unshift(this.session);
+        }
+
+        this._view?.webview.postMessage({
+            type: 'sessions',
+            activeId: this.session.id,
+            sessions: sessions.map(session => ({ id: session.id, name: session.name }))
+        });
+    }
+
+    /**
+     * A short account of what a plan did, kept as the assistant's turn in the chat history.
+     * Full step output stays on the plan itself.
+     */
+    private summarizePlanOutcome(taskPlan: TaskPlan): string {
+        const lines = taskPlan.steps.map(step => {
+            const files = step.files.length > 0 ? ` (files: ${step.files.join(', ')})` : '';
+            return `${step.id + 1}. [${step.status}] ${step.description}${files}`;
+        });
+        return `Worked on "${taskPlan.request}":\n${lines.join('\n')}`;
+    }
+
+    private describeRepair(attempt: RepairAttempt): string {
+        switch (attempt.outcome) {
+            case 'fixed':
+                return `${attempt.detail}. Retrying the step.`;
+            case 'no-fix':
+                return `no fix found${attempt.detail ? ` (${attempt.detail})` : ''}. Retrying the step.`;
+            case 'fix-failed':
+                return `the fix didn't work (${attempt.detail}). Retrying the step.`;
+            case 'declined':
+                return 'the fix was declined.';
+            case 'stopped':
+                return `it can't be fixed automatically: ${attempt.detail}`;
+            default:
+                return attempt.outcome;
+        }
+    }
+
+    private describeStep(step: TaskStep): string {
+        const dependencies = step.dependencies.length > 0
+            ? ` (after ${step.dependencies.map(dependency => dependency + 1).join(', ')})`
+            : '';
+        return `${step.id + 1}. ${step.description}${dependencies}`;
+    }
+
+    private async executeStep(taskPlan: TaskPlan, index: number, webview: vscode.Webview, execution: TaskExecutionController) {
+        const step = taskPlan.steps[index];
+        await updateTaskProgress(taskPlan, index, 'in-progress');
+        await this.postProgress(webview, taskPlan, index);
+
+        webview.postMessage({
+            type: 'status',
+            text: `Executing step ${index + 1}: ${step.description}`,
+            status: 'info'
+        });
+
+        try {
+            const route = getModelRoute('stepExecutor');
+            const tokenBudget = vscode.workspace.getConfiguration('falalo').get<number>('contextTokenBudget', 32000);
+            const messages = await this.stepContextBuilder.build(taskPlan, step, this.session.history, tokenBudget, route.model);
+
+            // Stream the AI response for the current step into the chat
+            const usageTag: UsageTag = { feature: 'step', planId: taskPlan.id };
+            const completion = await this.streamCompletion({
+                ...route,
+                messages,
+                store: true,
+                signal: execution.signal,
+                usageTag
+            }, webview, `Step ${index + 1}: `);
+
+            let stepResponse = completion.content;
+            if (!stepResponse) {
+                throw new Error('No response from AI for step');
+            }
+            step.response = stepResponse;
+
+            const request: ChatRequest = { ...route, messages, store: true, signal: execution.signal, usageTag };
+            const origin: ChangeOrigin = { label: `Step ${index + 1}`, planId: taskPlan.id, stepIndex: index };
+            const maxRepairs = vscode.workspace.getConfiguration('falalo').get<number>('verifyMaxRepairs', 2);
+            const files = new Set<string>();
+            step.commandResults = undefined;
+            step.verification = undefined;
+
+            // Each round applies a response, checks the result and, on failure, asks for a fix
+            for (let repair = 0; ; repair++) {
+                // Commands and file blocks are only extracted once the full response has arrived
+                const commandResults = await this.detectAndExecuteCommands(stepResponse, webview, execution.signal);
+                if (commandResults.length > 0) {
+                    step.commandResults = [...(step.commandResults || []), ...commandResults];
                 }
-            });
+                execution.throwIfInterrupted();
 
-            webview.postMessage({
-                type: 'status',
-                text: `Executing step ${taskPlan.currentStep + 1}: ${currentStep.description}`,
-                status: 'info'
-            });
+                (await this.applyResponseEdits(stepResponse, request, origin, webview)).forEach(file => files.add(file));
+                if (files.size > 0) {
+                    step.files = Array.from(files);
+                }
 
-            const context = await getWorkspaceContext(this.contextManager);
-            
-            const completion = await this.model.chat.completions.create({
-                model: "o3-mini",
-                messages: [
-                    {
-                        role: "system",
-                        content: `${SYSTEM_PROMPT}\n\nWorkspace Context:\n${context}\n\nCurrent Task Plan:\n${JSON.stringify(taskPlan, null, 2)}\n\nCurrent Step (${taskPlan.currentStep + 1}/${taskPlan.totalSteps}): ${currentStep.description}`
-                    },
+                const problems = await this.checkStep(taskPlan, index, commandResults, Array.from(files), repair, webview, execution);
+                execution.throwIfInterrupted();
+                if (!problems) {
+                    break;
+                }
+                if (repair >= maxRepairs) {
+                    throw new StepVerificationError(`Step ${index + 1} failed verification\n${problems}`);
+                }
+
+                webview.postMessage({
+                    type: 'status',
+                    text: `Step ${index + 1} failed verification, asking for a fix (${repair + 1}/${maxRepairs})`,
+                    status: 'error'
+                });
+                request.messages = [
+                    ...request.messages,
+                    { role: 'assistant', content: stepResponse },
                     {
-                        role: "user",
-                        content: `Execute this step: ${currentStep.description}\n\nProvide the necessary code, file operations, or commands to complete this specific step.`
+                        role: 'user',
+                        content: `Checking the workspace after your changes found these problems:\n\n${problems}\n\n` +
+                            'Fix them with file edits or commands. Only send what changes; what you already sent has been applied.'
                     }
-                ],
-                reasoning_effort: "medium",
-                store: true
-            });
+                ];
+                const repairCompletion = await this.streamCompletion(request, webview, `Step ${index + 1} (fix ${repair + 1}): `);
+                stepResponse = repairCompletion.content;
+                step.response = `${step.response}\n\n${stepResponse}`;
+            }
+
+            await updateTaskProgress(taskPlan, index, 'completed');
+        } catch (error) {
+            if (execution.reason === 'paused') {
+                step.status = 'pending';
+            } else if (execution.reason === 'stopped') {
+                step.status = 'cancelled';
+            } else {
+                await updateTaskProgress(taskPlan, index, 'failed');
+            }
+            throw error;
+        } finally {
+            await this.postProgress(webview, taskPlan, index);
+        }
+    }
+
+    /**
+     * Looks for problems after a step's response was applied: failed commands first, then
+     * the configured verification. Returns them as text for the model, or undefined when the
+     * step checks out. Changes still waiting for review can't be verified and are let through.
+     */
+    private async checkStep(
+        taskPlan: TaskPlan,
+        index: number,
+        commandResults: CommandRunResult[],
+        files: string[],
+        repairs: number,
+        webview: vscode.Webview,
+        execution: TaskExecutionController
+    ): Promise<string | undefined> {
+        const failedCommands = commandResults.filter(result => result.exitCode !== 0);
+        if (failedCommands.length > 0) {
+            return failedCommands.map(result => formatCommandResult(result)).join('\n\n');
+        }
+        if (!isVerificationEnabled()) {
+            return undefined;
+        }
+
+        const step = taskPlan.steps[index];
+        const pendingReview = this.stagedChanges.list()
+            .some(change => change.origin.planId === taskPlan.id && change.origin.stepIndex === index);
+        if (pendingReview) {
+            this.logger.log(`Step ${index + 1} has changes awaiting review, skipping verification`, { type: 'info' });
+            return undefined;
+        }
+
+        webview.postMessage({
+            type: 'status',
+            text: `Verifying step ${index + 1}...`,
+            status: 'info'
+        });
+        const cwd = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath || process.cwd();
+        step.verification = await verifyStep({
+            files,
+            runCommand: async command => (await this.runCommand(command, cwd, false, webview, execution.signal))!,
+            signal: execution.signal,
+            repairs
+        });
+
+        return step.verification.passed ? undefined : formatVerificationResult(step.verification);
+    }
 
-            if (!completion.choices || completion.choices.length === 0) {
-                throw new Error('Empty response from AI');
+    /**
+     * Sends the plan's progress to the webview and persists it so it survives a reload.
+     */
+    private async postProgress(webview: vscode.Webview, taskPlan: TaskPlan, currentStep: number = taskPlan.currentStep) {
+        webview.postMessage({
+            type: 'updateProgress',
+            data: {
+                steps: taskPlan.steps,
+                currentStep,
+                totalSteps: taskPlan.totalSteps
             }
+        });
+
+        try {
+            await this.taskPlanStore.save(taskPlan);
+        } catch (error) {
+            this.logger.logError(error, 'Failed to persist task plan');
+        }
+    }
+
+    private async discardPausedPlan(webview: vscode.Webview) {
+        const plan = this.pausedPlan!;
+        plan.steps[plan.currentStep].status = 'cancelled';
+        this.pausedPlan = undefined;
+
+        await this.postProgress(webview, plan);
+        this.postExecutionState(webview, 'idle');
+        this.postInterrupted(webview, 'stopped');
+    }
+
+    private postExecutionState(webview: vscode.Webview, state: 'running' | 'paused' | 'idle') {
+        webview.postMessage({
+            type: 'executionState',
+            state
+        });
+    }
 
-            this.updateTokenUsageFromCompletion(completion);
+    private postInterrupted(webview: vscode.Webview, reason: InterruptReason) {
+        const paused = reason === 'paused' && this.pausedPlan;
+        webview.postMessage({
+            type: 'status',
+            text: paused ? `Paused before step ${this.pausedPlan!.currentStep + 1}` : 'Task execution stopped',
+            status: 'info'
+        });
+        webview.postMessage({
+            type: 'message',
+            text: paused
+                ? `⏸ Paused. Press Resume to continue from step ${this.pausedPlan!.currentStep + 1}.`
+                : '⏹ Task execution stopped.',
+            role: 'assistant'
+        });
+    }
+
+    private async streamCompletion(request: ChatRequest, webview: vscode.Webview, prefix: string = ''): Promise<ChatResponse> {
+        const streamId = this.getNonce();
+        let text = prefix;
+        let pending = '';
+        let flushTimer: NodeJS.Timeout | undefined;
+
+        // Deltas are batched so long responses don't flood the webview with messages
+        const flush = () => {
+            flushTimer = undefined;
+            if (pending) {
+                webview.postMessage({ type: 'streamDelta', id: streamId, text: pending });
+                pending = '';
+            }
+        };
 
-            const response = completion.choices[0]?.message?.content || '';
-            await this.detectAndExecuteCommands(response, webview);
+        webview.postMessage({ type: 'streamStart', id: streamId, role: 'assistant', text: prefix });
 
-            const operations = processResponseWithCodeBlocks(response);
-            await handleFileOperations(operations);
+        try {
+            return await this.model.stream(request, delta => {
+                text += delta;
+                pending += delta;
+                if (!flushTimer) {
+                    flushTimer = setTimeout(flush, 50);
+                }
+            });
+        } finally {
+            if (flushTimer) {
+                clearTimeout(flushTimer);
+            }
+            flush();
+            webview.postMessage({ type: 'streamEnd', id: streamId, text });
+        }
+    }
+
+    private extractFileOperations(response: string): FileOperation[] {
+        return [...processResponseWithCodeBlocks(response), ...parsePatchOperations(response)];
+    }
+
+    /**
+     * Stages the file changes in a response. Patch edits that don't match the file are
+     * reported back to the model, which gets a few rounds to correct them; edits that did
+     * apply are kept. Returns the paths that were changed.
+     */
+    private async applyResponseEdits(response: string, request: ChatRequest, origin: ChangeOrigin, webview: vscode.Webview): Promise<string[]> {
+        const files = new Set<string>();
+        let messages = request.messages;
+
+        for (let attempt = 0; ; attempt++) {
+            const { operations, conflicts } = await this.stagedChanges.resolvePatches(this.extractFileOperations(response));
             if (operations.length > 0) {
-                currentStep.files = operations.map(op => op.path);
+                await this.stageFileOperations(operations, origin, webview);
+                operations.forEach(operation => files.add(operation.path));
             }
+            if (conflicts.length === 0) {
+                return Array.from(files);
+            }
+
+            const paths = Array.from(new Set(conflicts.map(conflict => conflict.path))).join(', ');
+            if (attempt >= ChatViewProvider.MAX_PATCH_RETRIES) {
+                throw new Error(`${conflicts.length} edit(s) to ${paths} could not be applied`);
+            }
+
+            this.logger.log(`${conflicts.length} edit(s) to ${paths} did not match, asking for corrections`, { type: 'info' });
+            messages = [
+                ...messages,
+                { role: 'assistant', content: response },
+                {
+                    role: 'user',
+                    content: `These edits could not be applied:\n\n${formatPatchConflicts(conflicts)}\n\n` +
+                        'Resend SEARCH/REPLACE blocks for only these edits, copying the SEARCH text exactly from the current file. ' +
+                        'The other edits were applied and must not be repeated.'
+                }
+            ];
+
+            const completion = await this.streamCompletion({ ...request, messages }, webview, `${origin.label} (correcting edits): `);
+            response = completion.content;
+        }
+    }
+
+    /**
+     * File writes from the model are staged for review instead of being written directly,
+     * unless falalo.reviewFileChanges is turned off.
+     */
+    private async stageFileOperations(operations: FileOperation[], origin: ChangeOrigin, webview: vscode.Webview) {
+        const staged = await this.stagedChanges.stage(operations, origin);
+        if (staged.length === 0) {
+            return;
+        }
+
+        if (!vscode.workspace.getConfiguration('falalo').get<boolean>('reviewFileChanges', true)) {
+            await this.stagedChanges.acceptChanges(staged.map(change => change.id));
+            return;
+        }
+
+        webview.postMessage({
+            type: 'message',
+            text: `${origin.label} proposed changes to ${staged.map(change => change.path).join(', ')}. Review them under Pending Changes.`,
+            role: 'assistant'
+        });
+    }
+
+    private postStagedChanges(webview: vscode.Webview) {
+        const countLines = (text: string) => text ? text.replace(/\n$/, '').split('\n').length : 0;
+        // Previews are capped so a rewrite of a large file doesn't flood the webview
+        const preview = (text: string) => text.split('\n').slice(0, 40).join('\n');
+
+        webview.postMessage({
+            type: 'stagedChanges',
+            changes: this.stagedChanges.list().map(change => ({
+                id: change.id,
+                path: change.path,
+                type: change.type,
+                source: change.origin.label,
+                additions: change.hunks.reduce((sum, hunk) => sum + countLines(hunk.added), 0),
+                deletions: change.hunks.reduce((sum, hunk) => sum + countLines(hunk.removed), 0),
+                hunks: change.hunks.map(hunk => ({
+                    index: hunk.index,
+                    oldStart: hunk.oldStart,
+                    newStart: hunk.newStart,
+                    removed: preview(hunk.removed),
+                    added: preview(hunk.added),
+                    status: hunk.status
+                }))
+            }))
+        });
+    }
+
+    private async suggestContextFiles(message: string, webview: vscode.Webview) {
+        const config = vscode.workspace.getConfiguration('falalo');
+        if (!config.get<boolean>('autoContextSuggestions', true)) {
+            return;
+        }
 
+        try {
+            const result = await this.workspaceIndex.suggest(
+                message,
+                config.get<number>('autoContextMaxFiles', 5),
+                await this.contextManager.getContextFiles()
+            );
+            // Sent even when empty so suggestions for the previous message are cleared
             webview.postMessage({
-                type: 'aiResponse',
-                text: response,
-                hasCode: response.includes('CODE_BLOCK_START')
+                type: 'contextSuggestions',
+                summary: result.summary,
+                suggestions: result.suggestions
             });
+        } catch (error) {
+            this.logger.logError(error, 'Context suggestions');
+        }
+    }
+
+    private async handleAcceptContextFiles(paths: string[], webview: vscode.Webview) {
+        const workspaceRoot = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+        if (!workspaceRoot) {
+            throw new Error('No workspace folder found');
+        }
+
+        const added: string[] = [];
+        const failed: string[] = [];
+        for (const filePath of paths) {
+            try {
+                await this.contextManager.addToContext(path.join(workspaceRoot, filePath));
+                added.push(filePath);
+            } catch (error) {
+                this.logger.logError(error, `Failed to add ${filePath} to context`);
+                failed.push(filePath);
+            }
+        }
+        await this.updateContextFiles(webview);
 
-            currentStep.status = 'completed';
+        webview.postMessage({
+            type: 'contextSuggestionsAccepted',
+            paths: added
+        });
+        webview.postMessage({
+            type: 'status',
+            text: failed.length > 0
+                ? `Added ${added.length} file(s) to context, ${failed.length} could not be added`
+                : `Added ${added.length} file(s) to context`,
+            status: failed.length > 0 ? 'error' : 'success'
+        });
+    }
+
+    private async handleExcludeFile(filePath: string, webview: vscode.Webview) {
+        try {
+            const workspaceRoot = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+            if (!workspaceRoot) {
+                throw new Error('No workspace folder found');
+            }
+            
+            const fullPath = path.join(workspaceRoot, filePath);
+            await this.contextManager.removeFromContext(fullPath);
+            await this.updateContextFiles(webview);
             
             webview.postMessage({
-                type: 'updateProgress',
-                data: {
-                    currentStep: taskPlan.currentStep,
-                    totalSteps: taskPlan.totalSteps,
-                    steps: taskPlan.steps
-                }
+                type: 'fileOperation',
+                success: true,
+                details: `Removed from context: ${filePath}`
             });
-
-            await new Promise(resolve => setTimeout(resolve, 1000));
+        } catch (error) {
+            this.handleError(error, webview);
         }
+    }
 
+    private handleError(error: any, webview: vscode.Webview) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+        this.logger.logError(error, 'Chat error');
+        
         webview.postMessage({
             type: 'status',
-            text: 'All tasks completed successfully!',
-            status: 'success'
+            text: 'An error occurred',
+            status: 'error'
         });
         
         webview.postMessage({
-            type: 'aiResponse',
-            text: `<div class="success-message">✨ All tasks completed successfully! The project has been set up according to your request.</div>`,
-            isComplete: true
+            type: 'message',
+            text: `Error: ${errorMessage}`,
+            role: 'error'
         });
-
+        
         webview.postMessage({
             type: 'enableInput',
             enabled: true
         });
-    }
-
-    private async generateCodeSummary(userInput: string): Promise<CodeSummary> {
-        try {
-            const workspaceContext = await getWorkspaceContext(this.contextManager);
-            const prompt = `As an expert code analyst, provide a comprehensive summary of the following user request in the context of their codebase. Format your response in these sections:
-
-1. Overview: Brief summary of the user's request
-2. Context Analysis: Analysis of how this request relates to the current codebase
-3. Suggested Approach: High-level approach to implementing the request
-
-Current workspace context:
-${workspaceContext}
-
-User request: ${userInput}`;
-
-            const response = await this.model.chat.completions.create({
-                model: 'o3-mini',
-                messages: [
-                    { role: 'system', content: 'You are an expert code analyst providing detailed summaries and implementation strategies.' },
-                    { role: 'user', content: prompt }
-                ],
-                reasoning_effort: 'medium',
-                store: true
-            });
-
-            const summaryText = response.choices[0]?.message?.content || '';
-            const sections = summaryText.split(/\d\.\s+/);
-
-            const summary: CodeSummary = {
-                content: summaryText,
-                language: 'markdown',
-                path: 'analysis.md',
-                overview: sections[1]?.trim() || 'No overview available',
-                contextAnalysis: sections[2]?.trim() || 'No context analysis available',
-                suggestedApproach: sections[3]?.trim() || 'No suggested approach available',
-                timestamp: new Date().toISOString()
-            };
-
-            this.summaryHistory.push(summary);
-            this.updateTokenUsageFromCompletion(response);
-
-            return summary;
-        } catch (error) {
-            LogManager.getInstance().logError(error, 'Code summary generation');
-            return {
-                content: 'Error generating summary',
-                language: 'markdown',
-                path: 'analysis.md',
-                overview: 'Error generating summary',
-                contextAnalysis: 'An error occurred during analysis',
-                suggestedApproach: 'Please try again',
-                timestamp: new Date().toISOString()
-            };
-        }
-    }
-
-    private formatSummaryForDisplay(summary: CodeSummary): string {
-        return `
-<div class="summary-container">
-    <div class="summary-header">
-        <span class="summary-title">🔍 Code Analysis Summary</span>
-        <span class="summary-timestamp">${new Date(summary.timestamp).toLocaleString()}</span>
-    </div>
-    <div class="summary-section">
-        <h3>📋 Overview</h3>
-        <p>${summary.overview}</p>
-    </div>
-    <div class="summary-section">
-        <h3>🔎 Context Analysis</h3>
-        <p>${summary.contextAnalysis}</p>
-    </div>
-    <div class="summary-section">
-        <h3>💡 Suggested Approach</h3>
-        <p>${summary.suggestedApproach}</p>
-    </div>
-</div>`;
+        
+        vscode.window.showErrorMessage(`Chat error: ${errorMessage}`);
     }
 
     private getWebviewContent(webview: vscode.Webview): string {
@@ -505,6 +1508,14 @@ User request: ${userInput}`;
             </head>
             <body>
                 <div class="chat-container">
+                    <div class="session-bar">
+                        <select id="sessionSelect" title="Switch chat session"></select>
+                        <button id="newSessionButton" title="New chat session">＋</button>
+                        <button id="renameSessionButton" title="Rename this session">✎</button>
+                        <button id="searchSessionsButton" title="Search past sessions">🔍</button>
+                        <button id="exportSessionButton" title="Export this session to Markdown">⤓</button>
+                        <button id="deleteSessionButton" title="Delete this session">🗑</button>
+                    </div>
                     <div id="messages" class="messages"></div>
                     <div id="progress" class="progress-container">
                         <div class="progress-header">
@@ -513,9 +1524,18 @@ User request: ${userInput}`;
                         </div>
                         <div class="progress-steps"></div>
                     </div>
+                    <div id="planReview" class="plan-review"></div>
                     <div id="status" class="status"></div>
+                    <div id="executionControls" class="execution-controls">
+                        <button id="pauseButton" title="Pause after aborting the current request">⏸ Pause</button>
+                        <button id="resumeButton" title="Resume the paused plan">▶ Resume</button>
+                        <button id="stopButton" title="Stop the running plan">⏹ Stop</button>
+                    </div>
+                    <div id="pendingChanges" class="pending-changes"></div>
+                    <div id="contextSuggestions" class="context-suggestions"></div>
                     <div class="input-container">
-                        <input type="text" id="messageInput" placeholder="Type your message..." />
+                        <div id="inputSuggestions" class="input-suggestions"></div>
+                        <input type="text" id="messageInput" placeholder="Type your message, / for commands, @ to attach..." />
                         <button id="sendButton">Send</button>
                     </div>
                 </div>
@@ -529,10 +1549,25 @@ User request: ${userInput}`;
                     const progressContainer = document.getElementById('progress');
                     const progressSteps = progressContainer.querySelector('.progress-steps');
                     const progressStats = progressContainer.querySelector('.progress-stats');
+                    const executionControls = document.getElementById('executionControls');
+                    const pauseButton = document.getElementById('pauseButton');
+                    const resumeButton = document.getElementById('resumeButton');
+                    const stopButton = document.getElementById('stopButton');
+                    const planReview = document.getElementById('planReview');
+                    const contextSuggestions = document.getElementById('contextSuggestions');
+                    let currentSuggestions = null;
+                    const pendingChanges = document.getElementById('pendingChanges');
+                    const expandedChanges = new Set();
+                    const sessionSelect = document.getElementById('sessionSelect');
+                    const inputSuggestions = document.getElementById('inputSuggestions');
+                    let slashCommands = [];
+                    let suggestions = [];
+                    let selectedSuggestion = 0;
 
                     // Initialize state
-                    const state = vscode.getState() || { messages: [], currentTask: null };
+                    const state = vscode.getState() || { messages: [], currentTask: null, planReview: null };
                     updateMessages();
+                    renderPlanReview();
 
                     // Handle input events
                     messageInput.addEventListener('keypress', (e) => {
@@ -544,6 +1579,173 @@ User request: ${userInput}`;
 
                     sendButton.addEventListener('click', sendMessage);
 
+                    // Completes slash commands and @-mentions as they're typed
+                    const MENTION_KINDS = [
+                        { kind: 'file', description: 'Attach a file' },
+                        { kind: 'folder', description: 'Attach the files in a folder' },
+                        { kind: 'symbol', description: 'Attach a function, class or other symbol' },
+                        { kind: 'problems', description: 'Attach the errors and warnings in the workspace' },
+                        { kind: 'selection', description: 'Attach the code selected in the editor' }
+                    ];
+                    let mentionRequests = 0;
+                    let mentionQuery = null;
+                    let mentionTimer = null;
+
+                    messageInput.addEventListener('input', () => {
+                        selectedSuggestion = 0;
+                        updateSuggestions();
+                    });
+                    messageInput.addEventListener('keydown', (e) => {
+                        if (suggestions.length === 0) return;
+
+                        if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+                            e.preventDefault();
+                            selectedSuggestion = (selectedSuggestion + (e.key === 'ArrowDown' ? 1 : -1) + suggestions.length) % suggestions.length;
+                            renderSuggestions();
+                        } else if (e.key === 'Tab' || (e.key === 'Enter' && !e.shiftKey)) {
+                            const suggestion = suggestions[selectedSuggestion];
+                            // Enter on a command that's already typed in full sends it
+                            if (e.key === 'Enter' && suggestion.complete) {
+                                hideSuggestions();
+                                return;
+                            }
+                            e.preventDefault();
+                            applySuggestion(suggestion);
+                        } else if (e.key === 'Escape') {
+                            hideSuggestions();
+                        }
+                    });
+                    messageInput.addEventListener('blur', hideSuggestions);
+
+                    function updateSuggestions() {
+                        const value = messageInput.value;
+                        const before = value.slice(0, messageInput.selectionStart);
+
+                        const slash = /^\\/(\\S*)$/.exec(value);
+                        if (slash) {
+                            showSuggestions(slashCommands
+                                .filter(command => command.name.startsWith(slash[1].toLowerCase()))
+                                .map(command => ({
+                                    label: \`/\${command.name}\${command.args ? \` \${command.args}\` : ''}\`,
+                                    description: command.description,
+                                    start: 0,
+                                    text: \`/\${command.name} \`,
+                                    complete: value.trim() === \`/\${command.name}\`
+                                })));
+                            return;
+                        }
+
+                        const mention = /(?:^|\\s)@(\\w*)(?::(?:"([^"]*)|(\\S*)))?$/.exec(before);
+                        if (!mention) {
+                            hideSuggestions();
+                            return;
+                        }
+                        const start = before.length - mention[0].length + (mention[0].startsWith('@') ? 0 : 1);
+                        if (!mention[0].includes(':')) {
+                            showSuggestions(MENTION_KINDS
+                                .filter(item => item.kind.startsWith(mention[1].toLowerCase()))
+                                .map(item => ({
+                                    label: \`@\${item.kind}\`,
+                                    description: item.description,
+                                    start,
+                                    // Kinds that take a value go on to complete it
+                                    text: item.kind === 'problems' || item.kind === 'selection' ? \`@\${item.kind} \` : \`@\${item.kind}:\`
+                                })));
+                            return;
+                        }
+
+                        const kind = mention[1];
+                        if (!['file', 'folder', 'symbol'].includes(kind)) {
+                            hideSuggestions();
+                            return;
+                        }
+                        // Answered with mentionCompletions; only the latest query's results are shown
+                        const query = mention[2] !== undefined ? mention[2] : mention[3] || '';
+                        const request = { id: ++mentionRequests, kind, start };
+                        mentionQuery = request;
+                        clearTimeout(mentionTimer);
+                        mentionTimer = setTimeout(() => vscode.postMessage({ type: 'mentionQuery', id: request.id, kind, query }), 100);
+                    }
+
+                    function showMentionCompletions(message) {
+                        const request = mentionQuery;
+                        if (!request || message.id !== request.id) return;
+
+                        showSuggestions((message.items || []).map(item => ({
+                            label: item.label,
+                            description: item.detail || '',
+                            start: request.start,
+                            text: \`@\${request.kind}:\${/\\s/.test(item.value) ? \`"\${item.value}"\` : item.value} \`
+                        })));
+                    }
+
+                    function showSuggestions(items) {
+                        suggestions = items;
+                        selectedSuggestion = Math.min(selectedSuggestion, Math.max(items.length - 1, 0));
+                        renderSuggestions();
+                    }
+
+                    function renderSuggestions() {
+                        inputSuggestions.innerHTML = '';
+                        suggestions.forEach((suggestion, index) => {
+                            const item = document.createElement('div');
+                            item.className = \`input-suggestion\${index === selectedSuggestion ? ' selected' : ''}\`;
+                            const label = document.createElement('code');
+                            label.textContent = suggestion.label;
+                            const description = document.createElement('span');
+                            description.textContent = suggestion.description;
+                            item.append(label, description);
+                            // mousedown rather than click, so the input keeps focus
+                            item.addEventListener('mousedown', (e) => {
+                                e.preventDefault();
+                                applySuggestion(suggestion);
+                            });
+                            inputSuggestions.appendChild(item);
+                        });
+                        inputSuggestions.style.display = suggestions.length > 0 ? 'block' : 'none';
+
+                        const selected = inputSuggestions.querySelector('.selected');
+                        if (selected) {
+                            selected.scrollIntoView({ block: 'nearest' });
+                        }
+                    }
+
+                    function hideSuggestions() {
+                        suggestions = [];
+                        mentionQuery = null;
+                        inputSuggestions.style.display = 'none';
+                    }
+
+                    // Replaces what was typed of the command or mention, up to the caret
+                    function applySuggestion(suggestion) {
+                        const value = messageInput.value;
+                        const caret = messageInput.selectionStart;
+                        messageInput.value = value.slice(0, suggestion.start) + suggestion.text + value.slice(caret);
+                        const position = suggestion.start + suggestion.text.length;
+                        messageInput.setSelectionRange(position, position);
+                        messageInput.focus();
+                        selectedSuggestion = 0;
+                        updateSuggestions();
+                    }
+
+                    pauseButton.addEventListener('click', () => vscode.postMessage({ type: 'pauseExecution' }));
+                    resumeButton.addEventListener('click', () => vscode.postMessage({ type: 'resumeExecution' }));
+                    stopButton.addEventListener('click', () => vscode.postMessage({ type: 'stopExecution' }));
+
+                    sessionSelect.addEventListener('change', () => vscode.postMessage({ type: 'switchSession', id: sessionSelect.value }));
+                    document.getElementById('newSessionButton').addEventListener('click', () => vscode.postMessage({ type: 'newSession' }));
+                    document.getElementById('renameSessionButton').addEventListener('click', () => vscode.postMessage({ type: 'renameSession' }));
+                    document.getElementById('searchSessionsButton').addEventListener('click', () => vscode.postMessage({ type: 'searchSessions' }));
+                    document.getElementById('exportSessionButton').addEventListener('click', () => vscode.postMessage({ type: 'exportSession' }));
+                    document.getElementById('deleteSessionButton').addEventListener('click', () => vscode.postMessage({ type: 'deleteSession' }));
+
+                    function updateExecutionControls(executionState) {
+                        executionControls.style.display = executionState === 'idle' ? 'none' : 'flex';
+                        pauseButton.style.display = executionState === 'running' ? '' : 'none';
+                        resumeButton.style.display = executionState === 'paused' ? '' : 'none';
+                    }
+                    updateExecutionControls('idle');
+
                     function sendMessage() {
                         const message = messageInput.value.trim();
                         if (message) {
@@ -556,27 +1758,211 @@ User request: ${userInput}`;
                             });
 
                             messageInput.value = '';
+                            hideSuggestions();
                         }
                     }
 
-                    function addMessage(text, role) {
-                        if (!text || !role) return;
-                        
+                    function renderMessage(msg) {
                         const messageDiv = document.createElement('div');
-                        messageDiv.className = \`message \${role}-message\`;
-                        
-                        // Handle HTML content
-                        if (text.includes('<') && text.includes('>')) {
-                            messageDiv.innerHTML = text;
+                        messageDiv.className = \`message \${msg.role}-message\`;
+
+                        if (msg.markdown) {
+                            messageDiv.innerHTML = renderMarkdown(msg.text);
+                        } else if (msg.text.includes('<') && msg.text.includes('>')) {
+                            // Handle HTML content
+                            messageDiv.innerHTML = msg.text;
                         } else {
-                            messageDiv.textContent = text;
+                            messageDiv.textContent = msg.text;
                         }
-                        
+
                         messagesContainer.appendChild(messageDiv);
                         messagesContainer.scrollTop = messagesContainer.scrollHeight;
+                        return messageDiv;
+                    }
+
+                    function addMessage(text, role, markdown = false) {
+                        if (!text || !role) return;
+
+                        const div = renderMessage({ text, role, markdown });
+                        recordMessage({ text, role, markdown }, div);
+                    }
 
-                        state.messages.push({ text, role });
+                    // Keeps the message across reloads of the view and in the saved session
+                    function recordMessage(msg, div) {
+                        const index = state.messages.push(msg) - 1;
                         vscode.setState(state);
+                        addForkButton(div, index);
+                        vscode.postMessage({ type: 'recordMessage', message: msg });
+                    }
+
+                    function addForkButton(div, index) {
+                        div.dataset.index = index;
+                        const button = document.createElement('button');
+                        button.className = 'fork-button';
+                        button.textContent = '⑂';
+                        button.title = 'Continue from this message in a new session';
+                        button.addEventListener('click', () => vscode.postMessage({ type: 'forkSession', index }));
+                        div.appendChild(button);
+                    }
+
+                    function escapeHtml(text) {
+                        return text.replace(/[&<>"']/g, char => ({
+                            '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;'
+                        })[char]);
+                    }
+
+                    function renderInline(text) {
+                        return escapeHtml(text)
+                            .replace(/\`([^\`]+)\`/g, '<code>$1</code>')
+                            .replace(/\\*\\*([^*]+)\\*\\*/g, '<strong>$1</strong>');
+                    }
+
+                    // Minimal markdown renderer that tolerates partial input, e.g. an unclosed code fence mid-stream
+                    function renderMarkdown(text) {
+                        let html = '';
+                        let code = null;
+                        let codeLang = '';
+                        let listTag = null;
+
+                        const closeList = () => {
+                            if (listTag) {
+                                html += \`</\${listTag}>\`;
+                                listTag = null;
+                            }
+                        };
+
+                        for (const line of text.split('\\n')) {
+                            const fence = line.match(/^\\s*\`\`\`(.*)$/);
+                            if (fence) {
+                                if (code) {
+                                    html += \`<pre class="code-block"><code data-lang="\${escapeHtml(codeLang)}">\${escapeHtml(code.join('\\n'))}</code></pre>\`;
+                                    code = null;
+                                } else {
+                                    closeList();
+                                    code = [];
+                                    codeLang = fence[1].trim();
+                                }
+                                continue;
+                            }
+                            if (code) {
+                                code.push(line);
+                                continue;
+                            }
+
+                            const heading = line.match(/^(#{1,6})\\s+(.*)$/);
+                            const bullet = line.match(/^\\s*[-*]\\s+(.*)$/);
+                            const numbered = line.match(/^\\s*\\d+\\.\\s+(.*)$/);
+
+                            if (heading) {
+                                closeList();
+                                const level = heading[1].length;
+                                html += \`<h\${level}>\${renderInline(heading[2])}</h\${level}>\`;
+                            } else if (bullet || numbered) {
+                                const tag = bullet ? 'ul' : 'ol';
+                                if (listTag !== tag) {
+                                    closeList();
+                                    html += \`<\${tag}>\`;
+                                    listTag = tag;
+                                }
+                                html += \`<li>\${renderInline((bullet || numbered)[1])}</li>\`;
+                            } else if (line.trim() === '') {
+                                closeList();
+                            } else {
+                                closeList();
+                                html += \`<p>\${renderInline(line)}</p>\`;
+                            }
+                        }
+
+                        closeList();
+                        if (code) {
+                            html += \`<pre class="code-block partial"><code data-lang="\${escapeHtml(codeLang)}">\${escapeHtml(code.join('\\n'))}</code></pre>\`;
+                        }
+                        return html;
+                    }
+
+                    const streams = {};
+
+                    function renderStream(id) {
+                        const stream = streams[id];
+                        if (!stream) return;
+                        stream.frame = null;
+
+                        const nearBottom = messagesContainer.scrollHeight - messagesContainer.scrollTop - messagesContainer.clientHeight < 40;
+                        stream.div.innerHTML = renderMarkdown(stream.text);
+                        if (nearBottom) {
+                            messagesContainer.scrollTop = messagesContainer.scrollHeight;
+                        }
+                    }
+
+                    function scheduleStreamRender(id) {
+                        const stream = streams[id];
+                        if (stream && !stream.frame) {
+                            stream.frame = requestAnimationFrame(() => renderStream(id));
+                        }
+                    }
+
+                    // Live output of running commands, keyed by command id
+                    const commands = {};
+                    const MAX_COMMAND_OUTPUT = 20000;
+
+                    function startCommand(message) {
+                        const div = document.createElement('div');
+                        div.className = 'message command-message running';
+
+                        const header = document.createElement('div');
+                        header.className = 'command-header';
+                        const title = document.createElement('code');
+                        title.textContent = \`$ \${message.command}\`;
+                        title.title = message.cwd || '';
+                        const status = document.createElement('span');
+                        status.className = 'command-status';
+                        status.textContent = message.background ? 'running in background' : 'running';
+                        const kill = document.createElement('button');
+                        kill.textContent = 'Kill';
+                        kill.addEventListener('click', () => vscode.postMessage({ type: 'killCommand', id: message.id }));
+                        header.append(title, status, kill);
+
+                        const output = document.createElement('pre');
+                        output.className = 'command-output';
+                        div.append(header, output);
+                        messagesContainer.appendChild(div);
+                        messagesContainer.scrollTop = messagesContainer.scrollHeight;
+
+                        commands[message.id] = { div, output, status, kill, command: message.command, text: '' };
+                    }
+
+                    function appendCommandOutput(id, text) {
+                        const command = commands[id];
+                        if (!command) return;
+
+                        const nearBottom = messagesContainer.scrollHeight - messagesContainer.scrollTop - messagesContainer.clientHeight < 40;
+                        command.text = (command.text + text).slice(-MAX_COMMAND_OUTPUT);
+                        command.output.textContent = command.text;
+                        command.output.scrollTop = command.output.scrollHeight;
+                        if (nearBottom) {
+                            messagesContainer.scrollTop = messagesContainer.scrollHeight;
+                        }
+                    }
+
+                    function endCommand(message) {
+                        const command = commands[message.id];
+                        if (!command) return;
+                        delete commands[message.id];
+
+                        const outcome = message.timedOut ? 'timed out' : message.killed ? 'killed' : \`exit code \${message.exitCode}\`;
+                        const summary = \`\${outcome} in \${(message.durationMs / 1000).toFixed(1)}s\`;
+                        command.status.textContent = summary;
+                        command.kill.remove();
+                        command.div.classList.remove('running');
+                        command.div.classList.add(message.exitCode === 0 ? 'succeeded' : 'failed');
+
+                        // Kept as markdown so the block survives a reload of the view
+                        const output = command.text.trim().replace(/\`\`\`/g, "'''");
+                        recordMessage({
+                            text: \`\\\`$ \${command.command}\\\` (\${summary})\${output ? \`\\n\\\`\\\`\\\`\\n\${output}\\n\\\`\\\`\\\`\` : ''}\`,
+                            role: 'command',
+                            markdown: true
+                        }, command.div);
                     }
 
                     function updateProgress(data) {
@@ -612,11 +1998,342 @@ User request: ${userInput}`;
                         });
                     }
 
+                    function renderContextSuggestions(summary, suggestions) {
+                        currentSuggestions = { summary, suggestions };
+                        contextSuggestions.innerHTML = '';
+                        contextSuggestions.style.display = suggestions.length > 0 ? 'flex' : 'none';
+                        if (suggestions.length === 0) return;
+
+                        const header = document.createElement('div');
+                        header.className = 'context-suggestions-header';
+                        header.textContent = \`📎 \${summary}\`;
+                        contextSuggestions.appendChild(header);
+
+                        suggestions.forEach(suggestion => {
+                            const row = document.createElement('div');
+                            row.className = 'context-suggestion';
+                            row.dataset.path = suggestion.path;
+
+                            const name = document.createElement('span');
+                            name.className = 'context-suggestion-path';
+                            name.textContent = suggestion.path;
+                            name.title = \`Best match at lines \${suggestion.startLine}-\${suggestion.endLine}\`;
+
+                            const confidence = document.createElement('span');
+                            confidence.className = 'context-suggestion-confidence';
+                            confidence.textContent = \`\${Math.round(suggestion.confidence * 100)}%\`;
+
+                            const add = document.createElement('button');
+                            add.textContent = 'Add';
+                            add.addEventListener('click', () => vscode.postMessage({ type: 'acceptContextFiles', paths: [suggestion.path] }));
+
+                            row.appendChild(name);
+                            row.appendChild(confidence);
+                            row.appendChild(add);
+                            contextSuggestions.appendChild(row);
+                        });
+
+                        const footer = document.createElement('div');
+                        footer.className = 'context-suggestions-footer';
+                        const addAll = document.createElement('button');
+                        addAll.textContent = 'Add All';
+                        addAll.addEventListener('click', () => vscode.postMessage({
+                            type: 'acceptContextFiles',
+                            paths: suggestions.map(suggestion => suggestion.path)
+                        }));
+                        const dismiss = document.createElement('button');
+                        dismiss.textContent = 'Dismiss';
+                        dismiss.addEventListener('click', () => renderContextSuggestions('', []));
+                        footer.appendChild(addAll);
+                        footer.appendChild(dismiss);
+                        contextSuggestions.appendChild(footer);
+                    }
+
+                    function renderPendingChanges(changes) {
+                        pendingChanges.innerHTML = '';
+                        pendingChanges.style.display = changes.length > 0 ? 'flex' : 'none';
+                        if (changes.length === 0) return;
+
+                        const header = document.createElement('div');
+                        header.className = 'pending-changes-header';
+                        const title = document.createElement('span');
+                        title.textContent = \`Pending Changes (\${changes.length})\`;
+                        header.appendChild(title);
+                        [
+                            ['✓ Accept All', 'acceptAllStagedChanges'],
+                            ['✗ Reject All', 'rejectAllStagedChanges']
+                        ].forEach(([label, type]) => {
+                            const button = document.createElement('button');
+                            button.textContent = label;
+                            button.addEventListener('click', () => vscode.postMessage({ type }));
+                            header.appendChild(button);
+                        });
+                        pendingChanges.appendChild(header);
+
+                        changes.forEach(change => {
+                            const row = document.createElement('div');
+                            row.className = 'pending-change';
+
+                            const type = document.createElement('span');
+                            type.className = \`pending-change-type \${change.type}\`;
+                            type.textContent = change.type === 'create' ? 'A' : change.type === 'delete' ? 'D' : 'M';
+                            type.title = change.type;
+
+                            const name = document.createElement('span');
+                            name.className = 'pending-change-path';
+                            name.textContent = change.path;
+                            name.title = \`\${change.path} (from \${change.source})\`;
+                            name.addEventListener('click', () => vscode.postMessage({ type: 'openStagedDiff', id: change.id }));
+
+                            const stats = document.createElement('span');
+                            stats.className = 'pending-change-stats';
+                            stats.textContent = \`+\${change.additions} -\${change.deletions}\`;
+
+                            row.appendChild(type);
+                            row.appendChild(name);
+                            row.appendChild(stats);
+                            [
+                                [expandedChanges.has(change.id) ? '▾' : '▸', 'Show hunks', () => {
+                                    expandedChanges.has(change.id) ? expandedChanges.delete(change.id) : expandedChanges.add(change.id);
+                                    renderPendingChanges(changes);
+                                }],
+                                ['Diff', 'Open diff', () => vscode.postMessage({ type: 'openStagedDiff', id: change.id })],
+                                ['✓', 'Accept remaining hunks', () => vscode.postMessage({ type: 'acceptStagedChange', id: change.id })],
+                                ['✗', 'Reject remaining hunks', () => vscode.postMessage({ type: 'rejectStagedChange', id: change.id })]
+                            ].forEach(([label, title, action]) => {
+                                const button = document.createElement('button');
+                                button.textContent = label;
+                                button.title = title;
+                                button.addEventListener('click', action);
+                                row.appendChild(button);
+                            });
+                            pendingChanges.appendChild(row);
+
+                            if (!expandedChanges.has(change.id)) return;
+
+                            change.hunks.forEach(hunk => {
+                                const hunkDiv = document.createElement('div');
+                                hunkDiv.className = \`pending-hunk \${hunk.status}\`;
+
+                                const hunkHeader = document.createElement('div');
+                                hunkHeader.className = 'pending-hunk-header';
+                                const location = document.createElement('span');
+                                location.textContent = \`@@ -\${hunk.oldStart} +\${hunk.newStart} (\${hunk.status})\`;
+                                hunkHeader.appendChild(location);
+                                [
+                                    ['✓', 'Accept hunk', 'accepted'],
+                                    ['✗', 'Reject hunk', 'rejected']
+                                ].forEach(([label, title, status]) => {
+                                    const button = document.createElement('button');
+                                    button.textContent = label;
+                                    button.title = title;
+                                    button.disabled = hunk.status !== 'pending';
+                                    button.addEventListener('click', () => vscode.postMessage({
+                                        type: 'setHunkStatus',
+                                        id: change.id,
+                                        index: hunk.index,
+                                        status
+                                    }));
+                                    hunkHeader.appendChild(button);
+                                });
+                                hunkDiv.appendChild(hunkHeader);
+
+                                const preview = document.createElement('pre');
+                                preview.className = 'pending-hunk-preview';
+                                [['-', hunk.removed, 'removed'], ['+', hunk.added, 'added']].forEach(([sign, text, kind]) => {
+                                    if (!text) return;
+                                    text.replace(/\\n$/, '').split('\\n').forEach(line => {
+                                        const lineSpan = document.createElement('span');
+                                        lineSpan.className = kind;
+                                        lineSpan.textContent = sign + line + '\\n';
+                                        preview.appendChild(lineSpan);
+                                    });
+                                });
+                                hunkDiv.appendChild(preview);
+                                pendingChanges.appendChild(hunkDiv);
+                            });
+                        });
+                    }
+
+                    // Steps under review use stable keys so reordering keeps dependencies intact
+                    function openPlanReview(steps) {
+                        let nextKey = 0;
+                        const keys = steps.map(() => nextKey++);
+                        state.planReview = {
+                            nextKey,
+                            error: '',
+                            steps: steps.map((step, index) => ({
+                                key: keys[index],
+                                description: step.description,
+                                dependencies: step.dependencies.map(dependency => keys[dependency]).filter(key => key !== undefined)
+                            }))
+                        };
+                        savePlanReview();
+                    }
+
+                    function closePlanReview() {
+                        state.planReview = null;
+                        savePlanReview();
+                    }
+
+                    function savePlanReview() {
+                        vscode.setState(state);
+                        renderPlanReview();
+                    }
+
+                    function moveReviewStep(index, offset) {
+                        const steps = state.planReview.steps;
+                        const target = index + offset;
+                        if (target < 0 || target >= steps.length) return;
+                        [steps[index], steps[target]] = [steps[target], steps[index]];
+                        savePlanReview();
+                    }
+
+                    function removeReviewStep(index) {
+                        const steps = state.planReview.steps;
+                        const [removed] = steps.splice(index, 1);
+                        steps.forEach(step => {
+                            step.dependencies = step.dependencies.filter(key => key !== removed.key);
+                        });
+                        savePlanReview();
+                    }
+
+                    // Folds the next step into this one; steps that waited for either now wait for the merged step
+                    function mergeReviewStep(index) {
+                        const steps = state.planReview.steps;
+                        const step = steps[index];
+                        const next = steps[index + 1];
+                        if (!next) return;
+
+                        step.description = \`\${step.description}\n\${next.description}\`;
+                        step.dependencies = [...new Set([...step.dependencies, ...next.dependencies])]
+                            .filter(key => key !== step.key && key !== next.key);
+                        steps.splice(index + 1, 1);
+                        steps.forEach(other => {
+                            if (other.dependencies.includes(next.key)) {
+                                other.dependencies = [...new Set(other.dependencies.map(key => key === next.key ? step.key : key))]
+                                    .filter(key => key !== other.key);
+                            }
+                        });
+                        savePlanReview();
+                    }
+
+                    // Updated while typing without re-rendering, so focus and pending clicks aren't lost
+                    function setReviewDependencies(index, value) {
+                        const steps = state.planReview.steps;
+                        const step = steps[index];
+                        step.dependencies = [...new Set(value.split(/[\\s,]+/)
+                            .map(part => parseInt(part, 10) - 1)
+                            .filter(position => position >= 0 && position < steps.length && position !== index)
+                            .map(position => steps[position].key))];
+                        vscode.setState(state);
+                    }
+
+                    function executeReviewedPlan() {
+                        const steps = state.planReview.steps;
+                        const positions = new Map(steps.map((step, index) => [step.key, index]));
+                        vscode.postMessage({
+                            type: 'executePlan',
+                            steps: steps.map(step => ({
+                                description: step.description.trim(),
+                                dependencies: step.dependencies.map(key => positions.get(key))
+                            }))
+                        });
+                    }
+
+                    function renderPlanReview() {
+                        const review = state.planReview;
+                        planReview.innerHTML = '';
+                        planReview.style.display = review ? 'flex' : 'none';
+                        if (!review) return;
+
+                        const header = document.createElement('div');
+                        header.className = 'plan-review-header';
+                        header.textContent = 'Review Plan';
+                        planReview.appendChild(header);
+
+                        review.steps.forEach((step, index) => {
+                            const stepDiv = document.createElement('div');
+                            stepDiv.className = 'review-step';
+
+                            const stepNumber = document.createElement('span');
+                            stepNumber.className = 'step-number';
+                            stepNumber.textContent = \`\${index + 1}.\`;
+
+                            const description = document.createElement('textarea');
+                            description.className = 'review-description';
+                            description.rows = 2;
+                            description.value = step.description;
+                            description.addEventListener('input', () => {
+                                step.description = description.value;
+                                vscode.setState(state);
+                            });
+
+                            const dependencies = document.createElement('input');
+                            dependencies.type = 'text';
+                            dependencies.className = 'review-dependencies';
+                            dependencies.placeholder = 'After steps, e.g. 1, 2';
+                            dependencies.title = 'Steps that must complete first';
+                            dependencies.value = step.dependencies
+                                .map(key => review.steps.findIndex(other => other.key === key) + 1)
+                                .sort((a, b) => a - b)
+                                .join(', ');
+                            dependencies.addEventListener('input', () => setReviewDependencies(index, dependencies.value));
+
+                            const actions = document.createElement('div');
+                            actions.className = 'review-actions';
+                            [
+                                ['↑', 'Move up', () => moveReviewStep(index, -1), index === 0],
+                                ['↓', 'Move down', () => moveReviewStep(index, 1), index === review.steps.length - 1],
+                                ['⤓', 'Merge with next step', () => mergeReviewStep(index), index === review.steps.length - 1],
+                                ['✕', 'Delete step', () => removeReviewStep(index), review.steps.length === 1]
+                            ].forEach(([label, title, action, disabled]) => {
+                                const button = document.createElement('button');
+                                button.textContent = label;
+                                button.title = title;
+                                button.disabled = disabled;
+                                button.addEventListener('click', action);
+                                actions.appendChild(button);
+                            });
+
+                            stepDiv.appendChild(stepNumber);
+                            stepDiv.appendChild(description);
+                            stepDiv.appendChild(dependencies);
+                            stepDiv.appendChild(actions);
+                            planReview.appendChild(stepDiv);
+                        });
+
+                        if (review.error) {
+                            const error = document.createElement('div');
+                            error.className = 'plan-review-error';
+                            error.textContent = review.error;
+                            planReview.appendChild(error);
+                        }
+
+                        const footer = document.createElement('div');
+                        footer.className = 'plan-review-footer';
+                        [
+                            ['+ Add Step', 'secondary', () => {
+                                review.steps.push({ key: review.nextKey++, description: 'New step', dependencies: [] });
+                                savePlanReview();
+                            }],
+                            ['Cancel', 'secondary', () => vscode.postMessage({ type: 'cancelPlan' })],
+                            ['▶ Execute', 'primary', executeReviewedPlan]
+                        ].forEach(([label, kind, action]) => {
+                            const button = document.createElement('button');
+                            button.textContent = label;
+                            button.className = kind;
+                            button.addEventListener('click', action);
+                            footer.appendChild(button);
+                        });
+                        planReview.appendChild(footer);
+                    }
+
                     function updateMessages() {
                         messagesContainer.innerHTML = '';
-                        state.messages.forEach(msg => {
+                        state.messages.forEach((msg, index) => {
                             if (msg && msg.text && msg.role) {
-                                addMessage(msg.text, msg.role);
+                                addForkButton(renderMessage(msg), index);
                             }
                         });
                         
@@ -635,7 +2352,53 @@ User request: ${userInput}`;
                                     addMessage(message.text, message.role);
                                 }
                                 break;
-                                
+
+                            case 'streamStart': {
+                                const div = renderMessage({ text: '', role: message.role || 'assistant' });
+                                div.classList.add('streaming');
+                                streams[message.id] = { div, text: message.text || '', frame: null };
+                                renderStream(message.id);
+                                break;
+                            }
+
+                            case 'streamDelta':
+                                if (streams[message.id]) {
+                                    streams[message.id].text += message.text;
+                                    scheduleStreamRender(message.id);
+                                }
+                                break;
+
+                            case 'streamEnd': {
+                                const stream = streams[message.id];
+                                if (!stream) break;
+                                if (stream.frame) {
+                                    cancelAnimationFrame(stream.frame);
+                                }
+                                stream.text = message.text !== undefined ? message.text : stream.text;
+                                renderStream(message.id);
+                                stream.div.classList.remove('streaming');
+                                delete streams[message.id];
+
+                                if (stream.text) {
+                                    recordMessage({ text: stream.text, role: 'assistant', markdown: true }, stream.div);
+                                } else {
+                                    stream.div.remove();
+                                }
+                                break;
+                            }
+
+                            case 'commandStart':
+                                startCommand(message);
+                                break;
+
+                            case 'commandOutput':
+                                appendCommandOutput(message.id, message.text || '');
+                                break;
+
+                            case 'commandEnd':
+                                endCommand(message);
+                                break;
+
                             case 'status':
                                 statusDiv.textContent = message.text || '';
                                 statusDiv.className = \`status \${message.status || ''}\`;
@@ -653,6 +2416,79 @@ User request: ${userInput}`;
                                 updateProgress(message.data);
                                 break;
 
+                            case 'stagedChanges':
+                                renderPendingChanges(message.changes || []);
+                                break;
+
+                            case 'contextSuggestions':
+                                renderContextSuggestions(message.summary || '', message.suggestions || []);
+                                break;
+
+                            case 'contextSuggestionsAccepted': {
+                                if (currentSuggestions) {
+                                    const accepted = new Set(message.paths || []);
+                                    renderContextSuggestions(
+                                        currentSuggestions.summary,
+                                        currentSuggestions.suggestions.filter(suggestion => !accepted.has(suggestion.path))
+                                    );
+                                }
+                                break;
+                            }
+
+                            case 'planReview':
+                                openPlanReview(message.steps || []);
+                                break;
+
+                            case 'planReviewError':
+                                if (state.planReview) {
+                                    state.planReview.error = message.text || '';
+                                    savePlanReview();
+                                }
+                                break;
+
+                            case 'planReviewClosed':
+                                closePlanReview();
+                                break;
+
+                            case 'executionState':
+                                updateExecutionControls(message.state);
+                                break;
+
+                            case 'slashCommands':
+                                slashCommands = message.commands || [];
+                                break;
+
+                            case 'mentionCompletions':
+                                showMentionCompletions(message);
+                                break;
+
+                            case 'sessions':
+                                sessionSelect.innerHTML = '';
+                                (message.sessions || []).forEach(session => {
+                                    const option = document.createElement('option');
+                                    option.value = session.id;
+                                    option.textContent = session.name;
+                                    option.selected = session.id === message.activeId;
+                                    sessionSelect.appendChild(option);
+                                });
+                                break;
+
+                            case 'loadSession': {
+                                state.messages = (message.messages || []).map(msg => ({ text: msg.text, role: msg.role, markdown: msg.markdown }));
+                                state.currentTask = null;
+                                vscode.setState(state);
+                                progressContainer.style.display = 'none';
+                                updateMessages();
+
+                                const target = message.scrollTo !== undefined && messagesContainer.querySelector(\`[data-index="\${message.scrollTo}"]\`);
+                                if (target) {
+                                    target.scrollIntoView({ block: 'center' });
+                                    target.classList.add('highlighted');
+                                    setTimeout(() => target.classList.remove('highlighted'), 2000);
+                                }
+                                break;
+                            }
+
                             case 'clearProgress':
                                 progressContainer.style.display = 'none';
                                 progressSteps.innerHTML = '';
@@ -686,41 +2522,117 @@ User request: ${userInput}`;
     }
 
     public dispose() {
+        this.execution?.stop();
+        this.stagedChangesSubscription.dispose();
+        this.usageSubscription.dispose();
+        this.slashCommandsSubscription.dispose();
+        this.slashCommands.dispose();
         this.screenshotManager.cleanup();
     }
 
-    private async detectAndExecuteCommands(response: string | null, webview: vscode.Webview): Promise<void> {
-        if (!response) return;
-
-        const commandMatches = response.match(/\$\$\$ COMMAND\n([\s\S]*?)\$\$\$ END/g);
-        if (!commandMatches) return;
-
-        for (const match of commandMatches) {
-            const command = match.replace(/\$\$\$ COMMAND\n/, '').replace(/\$\$\$ END/, '').trim();
+    /**
+     * Runs the commands in a response one after another, streaming their output to the chat
+     * and the Falalo terminal, up to the first one that fails. Results are returned rather
+     * than thrown so the caller decides what a failure means. Background commands are
+     * started and left running.
+     */
+    private async detectAndExecuteCommands(response: string | null, webview: vscode.Webview, signal?: AbortSignal): Promise<CommandRunResult[]> {
+        const results: CommandRunResult[] = [];
+        if (!response) return results;
+
+        const matches = Array.from(response.matchAll(/\$\$\$ COMMAND( background)?\n([\s\S]*?)\$\$\$ END/g));
+        for (const [index, match] of matches.entries()) {
+            const background = Boolean(match[1]);
+            const command = match[2].trim();
             if (!command) continue;
 
+            const cwd = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath || process.cwd();
+            let result: CommandRunResult | undefined;
             try {
-                const result = await executeCommand(command, {
-                    cwd: vscode.workspace.workspaceFolders?.[0]?.uri.fsPath,
-                    description: 'Executing generated command'
-                });
-
-                webview.postMessage({
-                    type: 'commandResult',
-                    success: true,
-                    command,
-                    output: result
-                });
-            } catch (error: any) {
+                await approveCommand(command, cwd);
+                result = await this.runCommand(command, cwd, background, webview, signal);
+            } catch (error) {
+                if (!(error instanceof CommandDeniedError)) {
+                    throw error;
+                }
+                // A refused command counts as failed, so the step's checks and the model learn it didn't run
                 webview.postMessage({
-                    type: 'commandResult',
-                    success: false,
-                    command,
-                    error: error.message
+                    type: 'status',
+                    text: error.message,
+                    status: 'error'
                 });
-                throw error;
+                result = { command, cwd, exitCode: null, timedOut: false, killed: false, output: error.message, durationMs: 0, denied: true };
+            }
+
+            if (result) {
+                results.push(result);
+            }
+            if (signal?.aborted) {
+                break;
+            }
+            // Later commands usually build on earlier ones, so they aren't run after a failure
+            if (result && result.exitCode !== 0) {
+                const skipped = matches.length - index - 1;
+                if (skipped > 0) {
+                    webview.postMessage({
+                        type: 'status',
+                        text: `Skipped ${skipped} command(s) after ${command} ${result.denied ? 'was not run' : 'failed'}`,
+                        status: 'error'
+                    });
+                }
+                break;
             }
         }
+
+        return results;
+    }
+
+    private async runCommand(
+        command: string,
+        cwd: string,
+        background: boolean,
+        webview: vscode.Webview,
+        signal?: AbortSignal
+    ): Promise<CommandRunResult | undefined> {
+        let pendingOutput = '';
+        let flushTimer: NodeJS.Timeout | undefined;
+        const flush = () => {
+            flushTimer = undefined;
+            if (pendingOutput) {
+                webview.postMessage({ type: 'commandOutput', id: running.id, text: pendingOutput });
+                pendingOutput = '';
+            }
+        };
+
+        const running = this.terminalRunner.run(command, {
+            cwd,
+            background,
+            // A background command outlives the step that started it
+            signal: background ? undefined : signal,
+            onOutput: text => {
+                pendingOutput += text;
+                if (!flushTimer) {
+                    flushTimer = setTimeout(flush, ChatViewProvider.COMMAND_OUTPUT_FLUSH_MS);
+                }
+            }
+        });
+        webview.postMessage({ type: 'commandStart', id: running.id, command, cwd, background });
+
+        const finished = running.result.then(result => {
+            clearTimeout(flushTimer);
+            flush();
+            webview.postMessage({
+                type: 'commandEnd',
+                id: running.id,
+                exitCode: result.exitCode,
+                timedOut: result.timedOut,
+                killed: result.killed,
+                durationMs: result.durationMs
+            });
+            return result;
+        });
+
+        return background ? undefined : finished;
     }
 
     private async updateContextFiles(webview: vscode.Webview): Promise<void> {
@@ -738,4 +2650,17 @@ User request: ${userInput}`;
             files: relativePaths
         });
     }
-} 
\ No newline at end of file
+}
+
+function sessionTitle(request: string): string {
+    const title = request.replace(/\s+/g, ' ').trim();
+    return title.length > 50 ? `${title.slice(0, 49).trimEnd()}…` : title || DEFAULT_SESSION_NAME;
+}
+
+// Usage messages avoid angle brackets, which the chat would render as HTML
+function requireArgs(args: string, usage: string): string {
+    if (!args) {
+        throw new Error(usage);
+    }
+    return args;
+}
@@ -0,0 +1,153 @@
+import * as vscode from 'vscode';
+import { CodeIssue, CodeReviewResult, CodeSuggestion } from '../interfaces/types';
+import { ReviewTarget } from '../services/CodeReviewer';
+
+const ISSUE_ICONS: Record<CodeIssue['type'], string> = { error: '⛔', warning: '⚠️', info: 'ℹ️' };
+
+/**
+ * The report of the latest code review: metrics, then issues by severity and suggestions.
+ * Clicking an entry opens its location. One panel is reused for every review.
+ */
+export class CodeReviewPanel {
+    private static current?: CodeReviewPanel;
+
+    private constructor(
+        private readonly panel: vscode.WebviewPanel,
+        private readonly extensionUri: vscode.Uri,
+        private readonly resolveFile: (file: string) => vscode.Uri | undefined
+    ) {
+        panel.onDidDispose(() => {
+            CodeReviewPanel.current = undefined;
+        });
+        panel.webview.onDidReceiveMessage(async message => {
+            if (message.type !== 'openLocation' || typeof message.file !== 'string') {
+                return;
+            }
+            const uri = this.resolveFile(message.file);
+            if (!uri) {
+                return;
+            }
+            try {
+                const line = Math.max((Number(message.line) || 1) - 1, 0);
+                await vscode.window.showTextDocument(uri, {
+                    viewColumn: vscode.ViewColumn.One,
+                    selection: new vscode.Range(line, 0, line, 0)
+                });
+            } catch (error) {
+                vscode.window.showErrorMessage(`Failed to open ${message.file}: ${error instanceof Error ? error.message : String(error)}`);
+            }
+        });
+    }
+
+    public static show(
+        extensionUri: vscode.Uri,
+        result: CodeReviewResult,
+        target: ReviewTarget,
+        resolveFile: (file: string) => vscode.Uri | undefined
+    ): void {
+        if (!CodeReviewPanel.current) {
+            const panel = vscode.window.createWebviewPanel('falalo.codeReview', 'Code Review', vscode.ViewColumn.Beside, {
+                enableScripts: true,
+                localResourceRoots: [extensionUri]
+            });
+            CodeReviewPanel.current = new CodeReviewPanel(panel, extensionUri, resolveFile);
+        }
+
+        const current = CodeReviewPanel.current;
+        current.panel.title = `Code Review: ${target.label}`;
+        current.panel.webview.html = current.getWebviewContent(result, target);
+        current.panel.reveal(vscode.ViewColumn.Beside, true);
+    }
+
+    private getWebviewContent(result: CodeReviewResult, target: ReviewTarget): string {
+        const webview = this.panel.webview;
+        const nonce = getNonce();
+        const styleUri = webview.asWebviewUri(vscode.Uri.joinPath(this.extensionUri, 'media', 'css', 'style.css'));
+        const metrics = result.metrics;
+        const metricCards: [string, string][] = [
+            ['Lines of code', String(metrics.linesOfCode)],
+            ['Complexity', String(metrics.complexity)],
+            ['Maintainability', `${Math.round(metrics.maintainability)}/100`],
+            ...(metrics.duplicateCode !== undefined ? [['Duplicate code', `${metrics.duplicateCode}%`] as [string, string]] : []),
+            ...(metrics.technicalDebt !== undefined ? [['Technical debt', `${metrics.technicalDebt} min`] as [string, string]] : []),
+            ...(metrics.testCoverage !== undefined ? [['Test coverage', `${metrics.testCoverage}%`] as [string, string]] : [])
+        ];
+        const issues = [...result.issues].sort((a, b) => b.severity - a.severity);
+
+        return `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src ${webview.cspSource} 'unsafe-inline'; script-src 'nonce-${nonce}'; font-src ${webview.cspSource};">
+    <link rel="stylesheet" href="${styleUri}">
+    <title>Code Review</title>
+</head>
+<body class="review-report">
+    <h2>${escapeHtml(target.label)}</h2>
+    <div class="review-metrics">
+        ${metricCards.map(([label, value]) => `<div class="review-metric"><div class="review-metric-value">${escapeHtml(value)}</div><div class="review-metric-label">${label}</div></div>`).join('')}
+    </div>
+    <h3>Issues (${issues.length})</h3>
+    ${issues.length > 0 ? `<ul class="review-list">${issues.map(renderIssue).join('')}</ul>` : '<p class="review-empty">No issues found</p>'}
+    <h3>Suggestions (${result.suggestions.length})</h3>
+    ${result.suggestions.length > 0 ? `<ul class="review-list">${result.suggestions.map(renderSuggestion).join('')}</ul>` : '<p class="review-empty">No suggestions</p>'}
+    <script nonce="${nonce}">
+        const vscode = acquireVsCodeApi();
+        document.querySelectorAll('[data-file]').forEach(item => {
+            item.addEventListener('click', () => vscode.postMessage({
+                type: 'openLocation',
+                file: item.dataset.file,
+                line: Number(item.dataset.line)
+            }));
+        });
+    </script>
+</body>
+</html>`;
+    }
+}
+
+function renderIssue(issue: CodeIssue): string {
+    return `<li class="review-item review-${issue.type}"${locationAttributes(issue.file, issue.line)}>
+        <div class="review-item-header">${ISSUE_ICONS[issue.type]} ${escapeHtml(issue.message)}</div>
+        <div class="review-item-meta">${[location(issue.file, issue.line), issue.code, `severity ${issue.severity}`].filter(Boolean).map(part => escapeHtml(part!)).join(' · ')}</div>
+    </li>`;
+}
+
+function renderSuggestion(suggestion: CodeSuggestion): string {
+    const fix = suggestion.oldCode !== undefined
+        ? `<pre class="review-code review-code-old">${escapeHtml(suggestion.oldCode)}</pre><pre class="review-code review-code-new">${escapeHtml(suggestion.newCode || '')}</pre>`
+        : '';
+    return `<li class="review-item"${locationAttributes(suggestion.file, suggestion.line)}>
+        <div class="review-item-header">💡 ${escapeHtml(suggestion.description)}</div>
+        <div class="review-item-meta">${[location(suggestion.file, suggestion.line), suggestion.impact && `${suggestion.impact} impact`, suggestion.oldCode !== undefined && 'quick fix available'].filter(Boolean).map(part => escapeHtml(part as string)).join(' · ')}</div>
+        ${suggestion.rationale ? `<p>${escapeHtml(suggestion.rationale)}</p>` : ''}
+        ${fix}
+    </li>`;
+}
+
+function location(file?: string, line?: number): string | undefined {
+    return file ? `${file}${line ? `:${line}` : ''}` : undefined;
+}
+
+function locationAttributes(file?: string, line?: number): string {
+    return file ? ` data-file="${escapeHtml(file)}" data-line="${line || 1}"` : '';
+}
+
+function escapeHtml(text: string): string {
+    return text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&#39;');
+}
+
+function getNonce(): string {
+    let text = '';
+    const possible = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
+    for (let i = 0; i < 32; i++) {
+        text += possible.charAt(Math.floor(Math.random() * possible.length));
+    }
+    return text;
+}
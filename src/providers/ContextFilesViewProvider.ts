@@ -1,6 +1,7 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
 import { ContextManager } from '../services/ContextManager';
+import { getModelRoute } from '../services/modelRouter';
 
 interface TreeNode {
     name: string;
@@ -9,6 +10,7 @@ interface TreeNode {
     type: 'file' | 'directory';
     isIncluded: boolean;
     extension: string | null;
+    tokens: number;
 }
 
 interface TreeItem {
@@ -18,6 +20,7 @@ interface TreeItem {
     type: 'file' | 'directory';
     isIncluded: boolean;
     extension: string | null;
+    tokens: number;
 }
 
 export class ContextFilesViewProvider implements vscode.WebviewViewProvider {
@@ -207,27 +210,29 @@ export class ContextFilesViewProvider implements vscode.WebviewViewProvider {
             // Get all files in workspace
             const allFiles = await vscode.workspace.findFiles('**/*', '**/node_modules/**');
             
-            // Get current context files
-            const contextFiles = await this.contextManager.getContextFiles();
-            const contextFileSet = new Set(contextFiles);
+            // Get current context files with their token cost for the step executor's model
+            const tokenCounts = await this.contextManager.getFileTokenCounts(getModelRoute('stepExecutor').model);
 
             // Build tree structure
             const tree = this.buildFileTree(allFiles.map(f => ({
                 path: path.relative(workspaceRoot, f.fsPath),
-                isIncluded: contextFileSet.has(f.fsPath)
+                isIncluded: tokenCounts.has(f.fsPath),
+                tokens: tokenCounts.get(f.fsPath) || 0
             })));
 
             this._view.webview.postMessage({
                 type: 'updateTree',
-                tree: tree
+                tree: tree,
+                totalTokens: Array.from(tokenCounts.values()).reduce((sum, tokens) => sum + tokens, 0),
+                tokenBudget: vscode.workspace.getConfiguration('falalo').get<number>('contextTokenBudget', 32000)
             });
         } catch (error) {
             this.handleError(error);
         }
     }
 
-    private buildFileTree(files: { path: string; isIncluded: boolean }[]): TreeItem[] {
-        const root: TreeNode = { name: 'root', path: '', children: {}, type: 'directory', isIncluded: false, extension: null };
+    private buildFileTree(files: { path: string; isIncluded: boolean; tokens: number }[]): TreeItem[] {
+        const root: TreeNode = { name: 'root', path: '', children: {}, type: 'directory', isIncluded: false, extension: null, tokens: 0 };
 
         for (const file of files) {
             const parts = file.path.split(path.sep);
@@ -244,10 +249,13 @@ export class ContextFilesViewProvider implements vscode.WebviewViewProvider {
                         children: {},
                         type: isLast ? 'file' : 'directory',
                         isIncluded: isLast ? file.isIncluded : false,
-                        extension: isLast ? path.extname(part).toLowerCase() : null
+                        extension: isLast ? path.extname(part).toLowerCase() : null,
+                        tokens: 0
                     };
                 }
                 current = current.children[part];
+                // Directories show the total cost of the included files below them
+                current.tokens += file.tokens;
             }
         }
 
@@ -411,6 +419,20 @@ export class ContextFilesViewProvider implements vscode.WebviewViewProvider {
             background: var(--vscode-errorForeground);
             color: var(--vscode-button-foreground);
         }
+        .token-summary {
+            padding: 0 5px 8px;
+            font-size: 11px;
+            color: var(--vscode-descriptionForeground);
+        }
+        .token-summary.over-budget {
+            color: var(--vscode-editorWarning-foreground);
+        }
+        .tree-item-tokens {
+            margin-left: auto;
+            padding-left: 6px;
+            font-size: 11px;
+            color: var(--vscode-descriptionForeground);
+        }
         .empty-state {
             padding: 20px;
             text-align: center;
@@ -561,6 +583,7 @@ export class ContextFilesViewProvider implements vscode.WebviewViewProvider {
                 </button>
             </div>
         </div>
+        <div id="tokenSummary" class="token-summary"></div>
         <div id="fileTree" class="file-list"></div>
     </div>
     <script nonce="${nonce}">
@@ -569,6 +592,7 @@ export class ContextFilesViewProvider implements vscode.WebviewViewProvider {
         const refreshButton = document.getElementById('refreshButton');
         const loadAllButton = document.getElementById('loadAllButton');
         const excludeAllButton = document.getElementById('excludeAllButton');
+        const tokenSummary = document.getElementById('tokenSummary');
         const expandedDirs = new Set();
 
         refreshButton.addEventListener('click', () => {
@@ -587,6 +611,7 @@ export class ContextFilesViewProvider implements vscode.WebviewViewProvider {
             const message = event.data;
             switch (message.type) {
                 case 'updateTree':
+                    renderTokenSummary(message.totalTokens || 0, message.tokenBudget || 0);
                     renderTree(message.tree);
                     break;
                 case 'error':
@@ -653,6 +678,15 @@ export class ContextFilesViewProvider implements vscode.WebviewViewProvider {
                 name.title = item.path;
                 content.appendChild(name);
 
+                // Add token cost
+                if (item.tokens > 0) {
+                    const tokens = document.createElement('span');
+                    tokens.className = 'tree-item-tokens';
+                    tokens.textContent = formatTokens(item.tokens);
+                    tokens.title = \`\${item.tokens.toLocaleString()} tokens\`;
+                    content.appendChild(tokens);
+                }
+
                 // Add actions
                 if (item.type === 'file') {
                     const actions = document.createElement('div');
@@ -704,6 +738,18 @@ export class ContextFilesViewProvider implements vscode.WebviewViewProvider {
             items.forEach(item => renderItem(item, level));
         }
 
+        function formatTokens(tokens) {
+            return tokens >= 1000 ? \`\${(tokens / 1000).toFixed(1)}k\` : String(tokens);
+        }
+
+        function renderTokenSummary(totalTokens, tokenBudget) {
+            tokenSummary.textContent = \`\${formatTokens(totalTokens)} tokens in context · budget \${formatTokens(tokenBudget)}\`;
+            tokenSummary.title = totalTokens > tokenBudget
+                ? 'Files over the budget are reduced to their most relevant parts or an outline when sent'
+                : '';
+            tokenSummary.classList.toggle('over-budget', totalTokens > tokenBudget);
+        }
+
         function getFileIcon(extension) {
             const iconMap = {
                 '.ts': 'TS',
@@ -0,0 +1,283 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import { TaskPlanStore } from '../services/TaskPlanStore';
+import { getWorkspaceName, UsageLedger } from '../services/UsageLedger';
+import { formatUsageCsv, summarizeUsage, UsageQuery, UsageStore } from '../services/UsageStore';
+
+type UsageRange = '7d' | '30d' | 'thisMonth' | 'lastMonth' | 'all';
+
+const RANGE_LABELS: Record<UsageRange, string> = {
+    '7d': 'Last 7 days',
+    '30d': 'Last 30 days',
+    thisMonth: 'This month',
+    lastMonth: 'Last month',
+    all: 'All recorded'
+};
+
+/**
+ * Spend over time and by model, feature and task plan, from the usage store. The range
+ * and whether other workspaces are included are chosen in the panel; the records behind
+ * the view can be exported as CSV or JSON.
+ */
+export class UsageDashboardPanel {
+    private static current?: UsageDashboardPanel;
+
+    private range: UsageRange = '30d';
+    private allWorkspaces = false;
+    private readonly disposables: vscode.Disposable[] = [];
+
+    private constructor(
+        private readonly panel: vscode.WebviewPanel,
+        private readonly extensionUri: vscode.Uri,
+        private readonly store: UsageStore,
+        private readonly taskPlanStore: TaskPlanStore,
+        usageLedger: UsageLedger
+    ) {
+        panel.webview.html = this.getWebviewContent();
+        this.disposables.push(
+            usageLedger.onDidChange(() => this.postUsage()),
+            panel.webview.onDidReceiveMessage(async message => {
+                try {
+                    switch (message.type) {
+                        case 'ready':
+                            this.postUsage();
+                            break;
+                        case 'setFilter':
+                            this.range = message.range in RANGE_LABELS ? message.range : this.range;
+                            this.allWorkspaces = message.allWorkspaces === true;
+                            this.postUsage();
+                            break;
+                        case 'export':
+                            await this.export(message.format === 'json' ? 'json' : 'csv');
+                            break;
+                    }
+                } catch (error) {
+                    vscode.window.showErrorMessage(`Usage dashboard: ${error instanceof Error ? error.message : String(error)}`);
+                }
+            })
+        );
+        panel.onDidDispose(() => {
+            UsageDashboardPanel.current = undefined;
+            this.disposables.forEach(disposable => disposable.dispose());
+        });
+    }
+
+    public static async show(extensionUri: vscode.Uri, store: UsageStore, taskPlanStore: TaskPlanStore, usageLedger: UsageLedger): Promise<void> {
+        // Other windows may have recorded calls since this one loaded the store
+        await store.load();
+        if (UsageDashboardPanel.current) {
+            UsageDashboardPanel.current.panel.reveal();
+            UsageDashboardPanel.current.postUsage();
+            return;
+        }
+
+        const panel = vscode.window.createWebviewPanel('falalo.usageDashboard', 'Falalo Usage', vscode.ViewColumn.Active, {
+            enableScripts: true,
+            retainContextWhenHidden: true,
+            localResourceRoots: [extensionUri]
+        });
+        UsageDashboardPanel.current = new UsageDashboardPanel(panel, extensionUri, store, taskPlanStore, usageLedger);
+    }
+
+    private getQuery(): UsageQuery & { since?: Date; until: Date } {
+        const now = new Date();
+        const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+        const tomorrow = new Date(today.getFullYear(), today.getMonth(), today.getDate() + 1);
+        const workspace = this.allWorkspaces ? undefined : getWorkspaceName();
+
+        switch (this.range) {
+            case '7d':
+                return { since: new Date(today.getFullYear(), today.getMonth(), today.getDate() - 6), until: tomorrow, workspace };
+            case '30d':
+                return { since: new Date(today.getFullYear(), today.getMonth(), today.getDate() - 29), until: tomorrow, workspace };
+            case 'thisMonth':
+                return { since: new Date(today.getFullYear(), today.getMonth(), 1), until: tomorrow, workspace };
+            case 'lastMonth':
+                return { since: new Date(today.getFullYear(), today.getMonth() - 1, 1), until: new Date(today.getFullYear(), today.getMonth(), 1), workspace };
+            case 'all':
+                return { until: tomorrow, workspace };
+        }
+    }
+
+    private getPlanLabels(planIds: string[]): Record<string, string> {
+        return Object.fromEntries(planIds.filter(Boolean).map(id => [id, this.taskPlanStore.get(id)?.request || `Plan ${id}`]));
+    }
+
+    private postUsage(): void {
+        const query = this.getQuery();
+        const records = this.store.query(query);
+        const summary = summarizeUsage(records, query.since, query.until);
+        this.panel.webview.postMessage({
+            type: 'usage',
+            range: this.range,
+            rangeLabel: RANGE_LABELS[this.range],
+            allWorkspaces: this.allWorkspaces,
+            workspace: getWorkspaceName(),
+            summary,
+            planLabels: this.getPlanLabels(Object.keys(summary.byPlan))
+        });
+    }
+
+    private async export(format: 'csv' | 'json'): Promise<void> {
+        const query = this.getQuery();
+        const records = this.store.query(query);
+        if (records.length === 0) {
+            vscode.window.showInformationMessage('No usage recorded in this range');
+            return;
+        }
+
+        const planLabels = this.getPlanLabels(Array.from(new Set(records.map(record => record.planId || ''))));
+        const start = query.since || new Date(records[0].timestamp);
+        const name = `falalo-usage-${start.getFullYear()}-${String(start.getMonth() + 1).padStart(2, '0')}${this.range === 'lastMonth' || this.range === 'thisMonth' ? '' : `-${this.range}`}.${format}`;
+        const target = await vscode.window.showSaveDialog({
+            defaultUri: vscode.Uri.joinPath(vscode.workspace.workspaceFolders?.[0]?.uri || this.extensionUri, name),
+            filters: format === 'csv' ? { 'CSV': ['csv'] } : { 'JSON': ['json'] }
+        });
+        if (!target) {
+            return;
+        }
+
+        const content = format === 'csv'
+            ? formatUsageCsv(records, planLabels)
+            : JSON.stringify(records.map(record => ({ ...record, plan: record.planId ? planLabels[record.planId] : undefined })), null, 2);
+        await fs.promises.writeFile(target.fsPath, content);
+        vscode.window.showInformationMessage(`Exported ${records.length} usage record(s) to ${vscode.workspace.asRelativePath(target)}`);
+    }
+
+    private getWebviewContent(): string {
+        const webview = this.panel.webview;
+        const nonce = getNonce();
+        const styleUri = webview.asWebviewUri(vscode.Uri.joinPath(this.extensionUri, 'media', 'css', 'style.css'));
+
+        return `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src ${webview.cspSource} 'unsafe-inline'; script-src 'nonce-${nonce}'; font-src ${webview.cspSource};">
+    <link rel="stylesheet" href="${styleUri}">
+    <title>Falalo Usage</title>
+</head>
+<body class="usage-dashboard">
+    <div class="usage-toolbar">
+        <select id="range">
+            ${Object.entries(RANGE_LABELS).map(([value, label]) => `<option value="${value}">${label}</option>`).join('')}
+        </select>
+        <label><input type="checkbox" id="all-workspaces"> All workspaces</label>
+        <span class="usage-toolbar-spacer"></span>
+        <button data-export="csv">Export CSV</button>
+        <button data-export="json">Export JSON</button>
+    </div>
+    <div id="usage"></div>
+    <script nonce="${nonce}">
+        const vscode = acquireVsCodeApi();
+        const COLORS = ['var(--vscode-charts-blue)', 'var(--vscode-charts-orange)', 'var(--vscode-charts-green)', 'var(--vscode-charts-purple)', 'var(--vscode-charts-red)', 'var(--vscode-charts-yellow)'];
+        const FEATURE_LABELS = { plan: 'Planning', step: 'Task steps', review: 'Code review', retry: 'Error repair', screenshot: 'Screenshots', summary: 'Summaries', context: 'Context analysis', chat: 'Chat questions', index: 'Workspace index', other: 'Other' };
+        const rangeSelect = document.getElementById('range');
+        const allWorkspaces = document.getElementById('all-workspaces');
+
+        function escapeHtml(text) {
+            const div = document.createElement('div');
+            div.textContent = String(text);
+            return div.innerHTML;
+        }
+
+        function formatCost(cost) {
+            return '$' + cost.toFixed(cost < 1 ? 4 : 2);
+        }
+
+        function formatTokens(tokens) {
+            return tokens >= 1e6 ? (tokens / 1e6).toFixed(1) + 'M' : tokens >= 1e3 ? (tokens / 1e3).toFixed(1) + 'k' : String(tokens);
+        }
+
+        function renderTable(title, rows, labelFor) {
+            const entries = Object.entries(rows).sort((a, b) => b[1].cost - a[1].cost);
+            if (entries.length === 0) {
+                return '';
+            }
+            return \`<h3>\${title}</h3>
+                <table class="usage-table">
+                    <thead><tr><th></th><th>Calls</th><th>Input</th><th>Cached</th><th>Output</th><th>Reasoning</th><th>Cost</th></tr></thead>
+                    <tbody>\${entries.map(([key, totals]) => \`<tr>
+                        <td title="\${escapeHtml(labelFor(key))}">\${escapeHtml(labelFor(key))}</td>
+                        <td>\${totals.calls}</td>
+                        <td>\${formatTokens(totals.inputTokens)}</td>
+                        <td>\${formatTokens(totals.cachedInputTokens)}</td>
+                        <td>\${formatTokens(totals.outputTokens)}</td>
+                        <td>\${formatTokens(totals.reasoningTokens)}</td>
+                        <td>\${formatCost(totals.cost)}</td>
+                    </tr>\`).join('')}</tbody>
+                </table>\`;
+        }
+
+        function renderChart(byDay, models) {
+            const max = Math.max(...byDay.map(day => day.cost), 0);
+            if (max === 0) {
+                return '<p class="usage-empty">No spend in this range</p>';
+            }
+            const bars = byDay.map(day => {
+                const segments = models
+                    .filter(model => day.byModel[model])
+                    .map(model => \`<div style="height: \${day.byModel[model] / max * 100}%; background: \${COLORS[models.indexOf(model) % COLORS.length]}"></div>\`)
+                    .join('');
+                return \`<div class="usage-bar" title="\${day.day}: \${formatCost(day.cost)}">\${segments}</div>\`;
+            }).join('');
+            const legend = models.map((model, index) =>
+                \`<span><i style="background: \${COLORS[index % COLORS.length]}"></i>\${escapeHtml(model)}</span>\`).join('');
+            return \`<div class="usage-chart">\${bars}</div>
+                <div class="usage-chart-axis"><span>\${byDay[0].day}</span><span>max \${formatCost(max)}/day</span><span>\${byDay[byDay.length - 1].day}</span></div>
+                <div class="usage-legend">\${legend}</div>\`;
+        }
+
+        function render(message) {
+            const { summary, planLabels } = message;
+            const totals = summary.totals;
+            const models = Object.keys(summary.byModel).sort((a, b) => summary.byModel[b].cost - summary.byModel[a].cost);
+            rangeSelect.value = message.range;
+            allWorkspaces.checked = message.allWorkspaces;
+
+            document.getElementById('usage').innerHTML = \`
+                <h2>\${escapeHtml(message.rangeLabel)} · \${message.allWorkspaces ? 'all workspaces' : escapeHtml(message.workspace)}</h2>
+                <div class="review-metrics">
+                    <div class="review-metric"><div class="review-metric-value">\${formatCost(totals.cost)}</div><div class="review-metric-label">Spend</div></div>
+                    <div class="review-metric"><div class="review-metric-value">\${totals.calls}</div><div class="review-metric-label">Calls</div></div>
+                    <div class="review-metric"><div class="review-metric-value">\${formatTokens(totals.inputTokens)}</div><div class="review-metric-label">Input tokens (\${formatTokens(totals.cachedInputTokens)} cached)</div></div>
+                    <div class="review-metric"><div class="review-metric-value">\${formatTokens(totals.outputTokens)}</div><div class="review-metric-label">Output tokens (\${formatTokens(totals.reasoningTokens)} reasoning)</div></div>
+                </div>
+                <h3>Spend over time</h3>
+                \${renderChart(summary.byDay, models)}
+                \${renderTable('By model', summary.byModel, key => key)}
+                \${renderTable('By feature', summary.byFeature, key => FEATURE_LABELS[key] || key)}
+                \${renderTable('By task plan', summary.byPlan, key => key ? planLabels[key] || key : '(not part of a plan)')}\`;
+        }
+
+        function sendFilter() {
+            vscode.postMessage({ type: 'setFilter', range: rangeSelect.value, allWorkspaces: allWorkspaces.checked });
+        }
+
+        rangeSelect.addEventListener('change', sendFilter);
+        allWorkspaces.addEventListener('change', sendFilter);
+        document.querySelectorAll('[data-export]').forEach(button => {
+            button.addEventListener('click', () => vscode.postMessage({ type: 'export', format: button.dataset.export }));
+        });
+
+        window.addEventListener('message', event => {
+            if (event.data.type === 'usage') {
+                render(event.data);
+            }
+        });
+        vscode.postMessage({ type: 'ready' });
+    </script>
+</body>
+</html>`;
+    }
+}
+
+function getNonce(): string {
+    let text = '';
+    const possible = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
+    for (let i = 0; i < 32; i++) {
+        text += possible.charAt(Math.floor(Math.random() * possible.length));
+    }
+    return text;
+}
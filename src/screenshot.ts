@@ -3,14 +3,15 @@ import sharp from 'sharp';
 import * as path from 'path';
 import * as fs from 'fs';
 import * as vscode from 'vscode';
-import { OpenAI } from 'openai';
+import { LLMProvider } from './interfaces/types';
+import { getModelRoute } from './services/modelRouter';
 
 export class ScreenshotManager {
     private browser: puppeteer.Browser | null = null;
     private screenshotsDir: string;
-    private model: OpenAI | null = null;
+    private model: LLMProvider | null = null;
 
-    constructor(private extensionPath: string, model?: OpenAI) {
+    constructor(private extensionPath: string, model?: LLMProvider) {
         this.screenshotsDir = path.join(extensionPath, 'screenshots');
         if (!fs.existsSync(this.screenshotsDir)) {
             fs.mkdirSync(this.screenshotsDir, { recursive: true });
@@ -145,13 +146,19 @@ export class ScreenshotManager {
         actions: { description: string; code?: string }[];
     }> {
         if (!this.model) {
-            throw new Error('OpenAI model not initialized');
+            throw new Error('LLM provider not initialized');
         }
 
         try {
             // Read the screenshot metadata
             const metadata = await sharp(screenshotPath).metadata();
 
+            if (!this.model.capabilities.vision) {
+                console.warn(`Provider ${this.model.type} does not support images; analyzing without the screenshot`);
+            }
+            const imageData = await fs.promises.readFile(screenshotPath);
+            const imageUrl = `data:image/png;base64,${imageData.toString('base64')}`;
+
             // Get the directory structure using tree command
             let codeStructure = '';
             try {
@@ -243,8 +250,8 @@ export class ScreenshotManager {
             Your analysis must be actionable and complete, leaving no aspects unexplored.
             When suggesting file changes, ALWAYS specify the full path relative to the project root.`;
 
-            const response = await this.model.chat.completions.create({
-                model: 'gpt-4o',
+            const response = await this.model.complete({
+                ...getModelRoute('visionReviewer'),
                 messages: [
                     { role: 'system', content: systemPrompt },
                     { role: 'user', content: `Analyze this screenshot and provide a COMPLETE and THOROUGH response including:
@@ -271,11 +278,12 @@ export class ScreenshotManager {
                         DO NOT skip any details or provide placeholder solutions.
                         ENSURE all code is complete and production-ready.
                         INCLUDE extensive comments and documentation.
-                        SPECIFY full file paths for all changes.` }
+                        SPECIFY full file paths for all changes.`, images: [imageUrl] }
                 ],
+                usageTag: { feature: 'screenshot' }
             });
 
-            const analysis = response.choices[0]?.message?.content || '';
+            const analysis = response.content;
             
             // Enhanced parsing of the analysis to extract structured information
             const suggestions: string[] = [];
@@ -0,0 +1,143 @@
+import * as vscode from 'vscode';
+import { randomUUID } from 'crypto';
+import { ChatSession, ChatTranscriptMessage } from '../interfaces/types';
+
+export const DEFAULT_SESSION_NAME = 'New chat';
+
+// Characters of context shown either side of a search match
+const SNIPPET_CONTEXT = 40;
+
+export interface ChatSearchResult {
+    session: ChatSession;
+    messageIndex: number;
+    snippet: string;
+}
+
+const ROLE_LABELS: Record<ChatTranscriptMessage['role'], string> = {
+    user: 'You',
+    assistant: 'Falalo',
+    command: 'Command',
+    error: 'Error'
+};
+
+/**
+ * Persists chat sessions in workspace storage, together with which one is open, so
+ * conversations survive a window reload.
+ */
+export class ChatSessionStore {
+    private static readonly STORAGE_KEY = 'falalo.chatSessions';
+    private static readonly ACTIVE_KEY = 'falalo.activeChatSession';
+    private static readonly MAX_SESSIONS = 50;
+    private static readonly MAX_SEARCH_RESULTS = 100;
+
+    constructor(private readonly storage: vscode.Memento) {}
+
+    /**
+     * Most recently updated first.
+     */
+    public list(): ChatSession[] {
+        const sessions = this.storage.get<ChatSession[]>(ChatSessionStore.STORAGE_KEY, []);
+        return [...sessions].sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+    }
+
+    public get(id: string): ChatSession | undefined {
+        return this.list().find(session => session.id === id);
+    }
+
+    /**
+     * The session that was open last, falling back to the most recent one.
+     */
+    public getActive(): ChatSession | undefined {
+        const id = this.storage.get<string>(ChatSessionStore.ACTIVE_KEY);
+        return (id && this.get(id)) || this.list()[0];
+    }
+
+    public async setActive(id: string): Promise<void> {
+        await this.storage.update(ChatSessionStore.ACTIVE_KEY, id);
+    }
+
+    /**
+     * A session that isn't stored until it's first saved, so opening a new chat and leaving
+     * it empty doesn't clutter the list.
+     */
+    public newSession(name = DEFAULT_SESSION_NAME): ChatSession {
+        const now = new Date().toISOString();
+        return { id: randomUUID(), name, createdAt: now, updatedAt: now, messages: [], history: [] };
+    }
+
+    public async save(session: ChatSession): Promise<void> {
+        session.updatedAt = new Date().toISOString();
+
+        // Store a detached copy so later in-memory mutations don't leak into the saved state
+        const snapshot: ChatSession = JSON.parse(JSON.stringify(session));
+        const sessions = this.list().filter(existing => existing.id !== session.id);
+        sessions.unshift(snapshot);
+
+        await this.storage.update(ChatSessionStore.STORAGE_KEY, sessions.slice(0, ChatSessionStore.MAX_SESSIONS));
+    }
+
+    public async delete(id: string): Promise<void> {
+        const sessions = this.list().filter(session => session.id !== id);
+        await this.storage.update(ChatSessionStore.STORAGE_KEY, sessions);
+    }
+
+    /**
+     * Starts a new session with the messages up to and including messageIndex. The model's
+     * history is cut to match, dropping the requests that came after that message.
+     */
+    public async fork(source: ChatSession, messageIndex: number): Promise<ChatSession> {
+        if (!source.messages[messageIndex]) {
+            throw new Error('The message to fork from no longer exists');
+        }
+
+        const messages = source.messages.slice(0, messageIndex + 1);
+        const laterRequests = source.messages.slice(messageIndex + 1).filter(message => message.role === 'user').length;
+        const userTurns = source.history.flatMap((turn, index) => turn.role === 'user' ? [index] : []);
+        const forkedAt = messages[messages.length - 1];
+        // Older turns may have been trimmed from the history, so requests are counted from the end.
+        // Forking at a request keeps the request but not what was done about it
+        const cut = forkedAt.role === 'user'
+            ? (userTurns[userTurns.length - laterRequests - 1] ?? -1) + 1
+            : laterRequests === 0 ? source.history.length : userTurns[userTurns.length - laterRequests] ?? 0;
+
+        const fork = this.newSession(`${source.name} (fork)`);
+        fork.messages = messages;
+        fork.history = source.history.slice(0, cut);
+        fork.forkedFrom = { sessionId: source.id, messageIndex };
+        await this.save(fork);
+        return fork;
+    }
+
+    /**
+     * Case-insensitive search through the messages of every session, newest sessions first.
+     */
+    public search(query: string): ChatSearchResult[] {
+        const needle = query.trim().toLowerCase();
+        if (!needle) {
+            return [];
+        }
+
+        const results: ChatSearchResult[] = [];
+        for (const session of this.list()) {
+            session.messages.forEach((message, messageIndex) => {
+                const position = message.text.toLowerCase().indexOf(needle);
+                if (position !== -1 && results.length < ChatSessionStore.MAX_SEARCH_RESULTS) {
+                    results.push({ session, messageIndex, snippet: snippet(message.text, position, needle.length) });
+                }
+            });
+        }
+        return results;
+    }
+}
+
+export function formatSessionMarkdown(session: ChatSession): string {
+    const messages = session.messages.map(message =>
+        `### ${ROLE_LABELS[message.role] || message.role} · ${new Date(message.timestamp).toLocaleString()}\n\n${message.text.trim()}`);
+    return `# ${session.name}\n\n_Started ${new Date(session.createdAt).toLocaleString()}, ${session.messages.length} message(s)_\n\n${messages.join('\n\n')}\n`;
+}
+
+function snippet(text: string, position: number, length: number): string {
+    const start = Math.max(0, position - SNIPPET_CONTEXT);
+    const end = Math.min(text.length, position + length + SNIPPET_CONTEXT);
+    return `${start > 0 ? '…' : ''}${text.slice(start, end).replace(/\s+/g, ' ')}${end < text.length ? '…' : ''}`;
+}
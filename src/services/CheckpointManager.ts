@@ -0,0 +1,164 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { createHash, randomUUID } from 'crypto';
+import { ChangeOrigin, Checkpoint, FileOperation } from '../interfaces/types';
+import { captureFiles, handleFileOperations, restoreFiles } from '../utils/fileOperations';
+import { LogManager } from '../logManager';
+
+const CHECKPOINTS_FILE = 'checkpoints.json';
+const MAX_CHECKPOINTS = 50;
+
+/**
+ * Applies file operations in batches and keeps a checkpoint of what each batch replaced, so
+ * a step can be undone or the workspace rolled back to an earlier point of a task plan.
+ */
+export class CheckpointManager implements vscode.Disposable {
+    private checkpoints: Checkpoint[] = [];
+    private readonly logger = LogManager.getInstance();
+    private readonly changesEmitter = new vscode.EventEmitter<Checkpoint[]>();
+
+    public readonly onDidChangeCheckpoints = this.changesEmitter.event;
+
+    constructor(
+        private readonly storageDir: string,
+        private readonly workspaceRoot: string
+    ) {}
+
+    public async initialize(): Promise<void> {
+        try {
+            const raw = await fs.promises.readFile(path.join(this.storageDir, CHECKPOINTS_FILE), 'utf-8');
+            this.checkpoints = JSON.parse(raw) as Checkpoint[];
+        } catch {
+            // No checkpoints recorded yet
+        }
+    }
+
+    /**
+     * Newest first, optionally limited to one task plan.
+     */
+    public list(planId?: string): Checkpoint[] {
+        return [...this.checkpoints]
+            .reverse()
+            .filter(checkpoint => planId === undefined || checkpoint.planId === planId);
+    }
+
+    public get(id: string): Checkpoint | undefined {
+        return this.checkpoints.find(checkpoint => checkpoint.id === id);
+    }
+
+    public async apply(operations: FileOperation[], origin: ChangeOrigin): Promise<Checkpoint | undefined> {
+        const snapshots = await handleFileOperations(operations);
+        if (snapshots.length === 0) {
+            return undefined;
+        }
+
+        const checkpoint: Checkpoint = {
+            ...origin,
+            id: randomUUID(),
+            createdAt: new Date().toISOString(),
+            files: await Promise.all(snapshots.map(async snapshot => ({
+                ...snapshot,
+                afterHash: await this.hashCurrent(snapshot.path)
+            })))
+        };
+        this.checkpoints.push(checkpoint);
+        this.checkpoints = this.checkpoints.slice(-MAX_CHECKPOINTS);
+        await this.save();
+
+        this.logger.log(`Checkpoint for ${origin.label}: ${checkpoint.files.map(file => file.path).join(', ')}`, { type: 'info' });
+        return checkpoint;
+    }
+
+    /**
+     * The earliest checkpoint of the most recent step. Checkpoints recorded for the same
+     * step one after another (e.g. files accepted one at a time) are undone together.
+     */
+    public getLastStep(): Checkpoint | undefined {
+        const latest = this.checkpoints[this.checkpoints.length - 1];
+        if (!latest || latest.stepIndex === undefined) {
+            return latest;
+        }
+
+        let index = this.checkpoints.length - 1;
+        while (index > 0 &&
+            this.checkpoints[index - 1].planId === latest.planId &&
+            this.checkpoints[index - 1].stepIndex === latest.stepIndex) {
+            index--;
+        }
+        return this.checkpoints[index];
+    }
+
+    /**
+     * Checkpoints that restoring the given one also reverts: itself and everything after it.
+     */
+    public getRevertedBy(id: string): Checkpoint[] {
+        const index = this.checkpoints.findIndex(checkpoint => checkpoint.id === id);
+        if (index === -1) {
+            throw new Error('Checkpoint not found');
+        }
+        return this.checkpoints.slice(index);
+    }
+
+    /**
+     * Files that were edited after the changes being reverted, which a restore would overwrite.
+     */
+    public async findModifiedFiles(id: string): Promise<string[]> {
+        const lastWrite = new Map<string, string | null>();
+        this.getRevertedBy(id).forEach(checkpoint =>
+            checkpoint.files.forEach(file => lastWrite.set(file.path, file.afterHash)));
+
+        const modified: string[] = [];
+        for (const [filePath, afterHash] of lastWrite) {
+            if (await this.hashCurrent(filePath) !== afterHash) {
+                modified.push(filePath);
+            }
+        }
+        return modified;
+    }
+
+    /**
+     * Rolls the workspace back to the state before the checkpoint, reverting later
+     * checkpoints too, newest first. The restore is all-or-nothing like a regular batch.
+     */
+    public async restore(id: string): Promise<string[]> {
+        const reverted = this.getRevertedBy(id);
+        const restoredPaths = Array.from(new Set(reverted.flatMap(checkpoint => checkpoint.files.map(file => file.path))));
+        const current = await captureFiles(restoredPaths, this.workspaceRoot);
+
+        try {
+            for (const checkpoint of [...reverted].reverse()) {
+                await restoreFiles(checkpoint.files, this.workspaceRoot);
+            }
+        } catch (error) {
+            await restoreFiles(current, this.workspaceRoot);
+            throw error;
+        }
+
+        const revertedIds = new Set(reverted.map(checkpoint => checkpoint.id));
+        this.checkpoints = this.checkpoints.filter(checkpoint => !revertedIds.has(checkpoint.id));
+        await this.save();
+
+        this.logger.log(`Restored ${restoredPaths.length} file(s) to before ${reverted[0].label}`, { type: 'info' });
+        return restoredPaths;
+    }
+
+    public dispose(): void {
+        this.changesEmitter.dispose();
+    }
+
+    private async hashCurrent(relativePath: string): Promise<string | null> {
+        try {
+            const content = await fs.promises.readFile(path.join(this.workspaceRoot, relativePath));
+            return createHash('sha1').update(content).digest('hex');
+        } catch {
+            return null;
+        }
+    }
+
+    private async save(): Promise<void> {
+        await fs.promises.mkdir(this.storageDir, { recursive: true });
+        await fs.promises.writeFile(path.join(this.storageDir, CHECKPOINTS_FILE), JSON.stringify(this.checkpoints));
+        this.changesEmitter.fire(this.list());
+    }
+}
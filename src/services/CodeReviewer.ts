@@ -0,0 +1,328 @@
+import * as vscode from 'vscode';
+import { CodeIssue, CodeMetrics, CodeReviewResult, CodeSuggestion, LLMProvider } from '../interfaces/types';
+import { cleanAIResponse } from '../utils/helpers';
+import { executeCommand } from '../utils/commandExecutor';
+import { resolveWorkspacePath } from '../utils/pathPolicy';
+import { getModelRoute } from './modelRouter';
+
+// Keeps large files and diffs within the reviewer's context window
+const MAX_REVIEW_LENGTH = 60000;
+
+/**
+ * The JSON the reviewer must answer with. It's included in the prompt verbatim and
+ * enforced by parseCodeReview.
+ */
+export const CODE_REVIEW_SCHEMA = {
+    type: 'object',
+    required: ['issues', 'suggestions', 'metrics'],
+    properties: {
+        issues: {
+            type: 'array',
+            items: {
+                type: 'object',
+                required: ['type', 'message', 'line', 'severity'],
+                properties: {
+                    type: { enum: ['error', 'warning', 'info'] },
+                    message: { type: 'string' },
+                    file: { type: 'string', description: 'Workspace-relative path; required when reviewing a diff' },
+                    line: { type: 'integer', minimum: 1 },
+                    column: { type: 'integer', minimum: 1 },
+                    code: { type: 'string', description: 'Short kebab-case rule name, e.g. "null-dereference"' },
+                    severity: { type: 'integer', minimum: 1, maximum: 5, description: '5 is critical' }
+                }
+            }
+        },
+        suggestions: {
+            type: 'array',
+            items: {
+                type: 'object',
+                required: ['description', 'line'],
+                properties: {
+                    description: { type: 'string' },
+                    file: { type: 'string', description: 'Workspace-relative path; required when reviewing a diff' },
+                    line: { type: 'integer', minimum: 1 },
+                    oldCode: { type: 'string', description: 'Exact code to replace, copied without line numbers' },
+                    newCode: { type: 'string', description: 'Replacement for oldCode' },
+                    rationale: { type: 'string' },
+                    impact: { enum: ['high', 'medium', 'low'] }
+                }
+            }
+        },
+        metrics: {
+            type: 'object',
+            required: ['complexity', 'maintainability'],
+            properties: {
+                complexity: { type: 'number', description: 'Highest cyclomatic complexity of a function in the code' },
+                maintainability: { type: 'number', minimum: 0, maximum: 100 },
+                duplicateCode: { type: 'number', minimum: 0, maximum: 100, description: 'Percentage of duplicated lines' },
+                technicalDebt: { type: 'number', minimum: 0, description: 'Estimated minutes to fix every issue' }
+            }
+        }
+    }
+};
+
+const CODE_REVIEW_PROMPT = `You are an expert code reviewer. Review the code for bugs, security problems, performance and readability.
+
+Respond with only a JSON object matching this JSON Schema:
+${JSON.stringify(CODE_REVIEW_SCHEMA, null, 2)}
+
+Line numbers are the ones shown in the code, or the new-file line numbers of a diff. Report real problems only, and prefer suggestions with oldCode and newCode so they can be applied as quick fixes; oldCode must appear in the file exactly as written.`;
+
+export type ReviewScope = 'file' | 'selection' | 'diff';
+
+/**
+ * What is being reviewed. Files and selections are sent with line numbers; a diff is sent
+ * as git prints it.
+ */
+export interface ReviewTarget {
+    scope: ReviewScope;
+    label: string;
+    // Workspace-relative paths of the files the review covers
+    files: string[];
+    content: string;
+}
+
+export class CodeReviewer implements vscode.CodeActionProvider, vscode.Disposable {
+    public static readonly providedCodeActionKinds = [vscode.CodeActionKind.QuickFix];
+
+    private readonly diagnostics = vscode.languages.createDiagnosticCollection('falalo-review');
+    // Suggestions with a replacement, by document uri, offered as quick fixes
+    private readonly fixes = new Map<string, CodeSuggestion[]>();
+
+    constructor(private readonly model: LLMProvider, private readonly workspaceRoot: string) {}
+
+    /**
+     * Builds what to review from the active editor or, for 'diff', the uncommitted changes
+     * in the workspace's git repository.
+     */
+    public async createTarget(scope: ReviewScope, editor?: vscode.TextEditor): Promise<ReviewTarget> {
+        if (scope === 'diff') {
+            const diff = await executeCommand('git diff HEAD --no-color --no-ext-diff', {
+                cwd: this.workspaceRoot,
+                description: 'Reading uncommitted changes for review'
+            });
+            if (!diff) {
+                throw new Error('There are no uncommitted changes to review');
+            }
+            const files = Array.from(diff.matchAll(/^\+\+\+ b\/(.+)$/gm), match => match[1]);
+            return { scope, label: 'Uncommitted changes', files, content: truncate(diff) };
+        }
+
+        if (!editor) {
+            throw new Error('Open a file to review');
+        }
+        const document = editor.document;
+        const file = vscode.workspace.asRelativePath(document.uri, false);
+        const range = scope === 'selection' && !editor.selection.isEmpty
+            ? new vscode.Range(editor.selection.start.line, 0, editor.selection.end.line, Number.MAX_SAFE_INTEGER)
+            : undefined;
+        const startLine = range ? range.start.line : 0;
+        const lines = document.getText(range && document.validateRange(range)).split('\n');
+
+        return {
+            scope: range ? 'selection' : 'file',
+            label: range ? `${file}:${startLine + 1}-${startLine + lines.length}` : file,
+            files: [file],
+            content: truncate(lines.map((line, index) => `${startLine + index + 1}| ${line}`).join('\n'))
+        };
+    }
+
+    public async review(target: ReviewTarget, signal?: AbortSignal): Promise<CodeReviewResult> {
+        const completion = await this.model.complete({
+            ...getModelRoute('codeReviewer'),
+            messages: [
+                { role: 'system', content: CODE_REVIEW_PROMPT },
+                {
+                    role: 'user',
+                    content: target.scope === 'diff'
+                        ? `Review these changes:\n\n${target.content}`
+                        : `Review ${target.scope === 'selection' ? 'this part of ' : ''}${target.files[0]}:\n\n${target.content}`
+                }
+            ],
+            jsonMode: true,
+            signal,
+            usageTag: { feature: 'review' }
+        });
+
+        const result = parseCodeReview(completion.content, target.scope === 'diff' ? undefined : target.files[0]);
+        result.metrics.linesOfCode = countLinesOfCode(target);
+        return result;
+    }
+
+    /**
+     * Shows issues in the Problems panel and offers suggestions as quick fixes. Earlier
+     * results for the reviewed files are replaced; a diff review replaces them all.
+     */
+    public publish(result: CodeReviewResult, target: ReviewTarget): void {
+        if (target.scope === 'diff') {
+            this.diagnostics.clear();
+            this.fixes.clear();
+        }
+        for (const file of target.files) {
+            const uri = this.toUri(file);
+            if (uri) {
+                this.diagnostics.delete(uri);
+                this.fixes.delete(uri.toString());
+            }
+        }
+
+        const byUri = new Map<string, { uri: vscode.Uri; diagnostics: vscode.Diagnostic[] }>();
+        for (const issue of result.issues) {
+            const uri = issue.file ? this.toUri(issue.file) : undefined;
+            if (!uri) {
+                continue;
+            }
+            const entry = byUri.get(uri.toString()) || { uri, diagnostics: [] };
+            entry.diagnostics.push(toDiagnostic(issue));
+            byUri.set(uri.toString(), entry);
+        }
+        byUri.forEach(({ uri, diagnostics }) => this.diagnostics.set(uri, diagnostics));
+
+        for (const suggestion of result.suggestions) {
+            const uri = suggestion.file && suggestion.oldCode !== undefined && suggestion.newCode !== undefined
+                ? this.toUri(suggestion.file)
+                : undefined;
+            if (uri) {
+                this.fixes.set(uri.toString(), [...(this.fixes.get(uri.toString()) || []), suggestion]);
+            }
+        }
+    }
+
+    public toUri(file: string): vscode.Uri | undefined {
+        try {
+            return vscode.Uri.file(resolveWorkspacePath(file, this.workspaceRoot));
+        } catch {
+            return undefined;
+        }
+    }
+
+    public provideCodeActions(
+        document: vscode.TextDocument,
+        range: vscode.Range | vscode.Selection,
+        context: vscode.CodeActionContext
+    ): vscode.CodeAction[] {
+        const actions: vscode.CodeAction[] = [];
+        for (const suggestion of this.fixes.get(document.uri.toString()) || []) {
+            // Suggestions whose code has since changed are no longer offered
+            const target = findCode(document, suggestion.oldCode!, suggestion.line);
+            if (!target || !target.intersection(new vscode.Range(range.start.line, 0, range.end.line, Number.MAX_SAFE_INTEGER))) {
+                continue;
+            }
+
+            const action = new vscode.CodeAction(`Falalo: ${suggestion.description}`, vscode.CodeActionKind.QuickFix);
+            action.edit = new vscode.WorkspaceEdit();
+            action.edit.replace(document.uri, target, suggestion.newCode!);
+            action.diagnostics = context.diagnostics.filter(diagnostic =>
+                diagnostic.source === 'Falalo' && diagnostic.range.intersection(target));
+            action.isPreferred = suggestion.impact === 'high';
+            actions.push(action);
+        }
+        return actions;
+    }
+
+    public dispose(): void {
+        this.diagnostics.dispose();
+        this.fixes.clear();
+    }
+}
+
+/**
+ * Validates the reviewer's response. Malformed issues and suggestions are dropped rather
+ * than failing the whole review; without a file they're attributed to defaultFile.
+ */
+export function parseCodeReview(response: string, defaultFile?: string): CodeReviewResult {
+    let parsed: any;
+    try {
+        parsed = JSON.parse(cleanAIResponse(response));
+    } catch {
+        throw new Error('The code review is not valid JSON');
+    }
+    if (!parsed || !Array.isArray(parsed.issues) || !Array.isArray(parsed.suggestions) || typeof parsed.metrics !== 'object' || !parsed.metrics) {
+        throw new Error('The code review is missing "issues", "suggestions" or "metrics"');
+    }
+
+    const issues: CodeIssue[] = parsed.issues
+        .filter((issue: any) => issue && typeof issue.message === 'string' && ['error', 'warning', 'info'].includes(issue.type))
+        .map((issue: any) => ({
+            type: issue.type,
+            message: issue.message,
+            file: typeof issue.file === 'string' ? issue.file : defaultFile,
+            line: positiveInteger(issue.line),
+            column: positiveInteger(issue.column),
+            code: typeof issue.code === 'string' ? issue.code : undefined,
+            severity: Math.min(Math.max(Math.round(Number(issue.severity)) || 1, 1), 5),
+            source: 'Falalo'
+        }));
+
+    const suggestions: CodeSuggestion[] = parsed.suggestions
+        .filter((suggestion: any) => suggestion && typeof suggestion.description === 'string')
+        .map((suggestion: any) => ({
+            description: suggestion.description,
+            file: typeof suggestion.file === 'string' ? suggestion.file : defaultFile,
+            line: positiveInteger(suggestion.line),
+            // A replacement needs both halves; an empty oldCode would match anywhere
+            oldCode: typeof suggestion.oldCode === 'string' && suggestion.oldCode && typeof suggestion.newCode === 'string' ? suggestion.oldCode : undefined,
+            newCode: typeof suggestion.oldCode === 'string' && suggestion.oldCode && typeof suggestion.newCode === 'string' ? suggestion.newCode : undefined,
+            rationale: typeof suggestion.rationale === 'string' ? suggestion.rationale : undefined,
+            impact: ['high', 'medium', 'low'].includes(suggestion.impact) ? suggestion.impact : undefined
+        }));
+
+    const metrics: CodeMetrics = {
+        complexity: Number(parsed.metrics.complexity) || 0,
+        maintainability: Math.min(Math.max(Number(parsed.metrics.maintainability) || 0, 0), 100),
+        linesOfCode: 0,
+        duplicateCode: typeof parsed.metrics.duplicateCode === 'number' ? parsed.metrics.duplicateCode : undefined,
+        technicalDebt: typeof parsed.metrics.technicalDebt === 'number' ? parsed.metrics.technicalDebt : undefined
+    };
+
+    return { issues, suggestions, metrics };
+}
+
+function toDiagnostic(issue: CodeIssue): vscode.Diagnostic {
+    const line = (issue.line || 1) - 1;
+    const column = (issue.column || 1) - 1;
+    const diagnostic = new vscode.Diagnostic(
+        new vscode.Range(line, column, line, Number.MAX_SAFE_INTEGER),
+        issue.message,
+        { error: vscode.DiagnosticSeverity.Error, warning: vscode.DiagnosticSeverity.Warning, info: vscode.DiagnosticSeverity.Information }[issue.type]
+    );
+    diagnostic.source = issue.source;
+    diagnostic.code = issue.code;
+    return diagnostic;
+}
+
+/**
+ * The occurrence of code closest to the line the reviewer gave, since the same snippet
+ * can appear more than once.
+ */
+function findCode(document: vscode.TextDocument, code: string, line?: number): vscode.Range | undefined {
+    const text = document.getText();
+    // Reviews are made from LF text; match CRLF documents too
+    const needle = document.eol === vscode.EndOfLine.CRLF ? code.replace(/\r?\n/g, '\r\n') : code;
+    let best: vscode.Range | undefined;
+
+    for (let index = text.indexOf(needle); index !== -1; index = text.indexOf(needle, index + 1)) {
+        const range = new vscode.Range(document.positionAt(index), document.positionAt(index + needle.length));
+        if (!best || Math.abs(range.start.line + 1 - (line || 1)) < Math.abs(best.start.line + 1 - (line || 1))) {
+            best = range;
+        }
+    }
+    return best;
+}
+
+function countLinesOfCode(target: ReviewTarget): number {
+    const lines = target.content.split('\n');
+    return target.scope === 'diff'
+        ? lines.filter(line => line.startsWith('+') && !line.startsWith('+++') && line.slice(1).trim()).length
+        : lines.filter(line => line.replace(/^\d+\| /, '').trim()).length;
+}
+
+function positiveInteger(value: unknown): number | undefined {
+    return Number.isInteger(value) && (value as number) > 0 ? value as number : undefined;
+}
+
+function truncate(content: string): string {
+    return content.length > MAX_REVIEW_LENGTH
+        ? `${content.slice(0, MAX_REVIEW_LENGTH)}\n[... truncated, ${content.length - MAX_REVIEW_LENGTH} more characters]`
+        : content;
+}
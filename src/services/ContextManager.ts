@@ -1,16 +1,19 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
 import * as fs from 'fs';
-import { OpenAI } from 'openai';
-import { ContextConfig } from '../interfaces/types';
+import { ContextConfig, ContextFileContent, LLMProvider, PackedContext } from '../interfaces/types';
+import { getModelRoute } from './modelRouter';
+import { ContextPacker } from './ContextPacker';
+import { countTokens } from '../utils/tokenizer';
 
 export class ContextManager {
     private contextFiles: Set<string> = new Set();
-    private readonly maxContextSize = 1000000; // 1MB
-    private readonly maxFileSize = 100000; // 100KB
+    // Files beyond this size are almost always generated or binary; the token budget handles the rest
+    private readonly maxFileSize = 2000000; // 2MB
+    private tokenCache: Map<string, { mtimeMs: number; model: string; tokens: number }> = new Map();
 
     constructor(
-        private readonly model: OpenAI,
+        private readonly model: LLMProvider,
         private readonly workspaceRoot: string
     ) {}
 
@@ -21,12 +24,7 @@ export class ContextManager {
 
         const stats = fs.statSync(filePath);
         if (stats.size > this.maxFileSize) {
-            throw new Error(`File too large (>${this.maxFileSize / 1000}KB): ${filePath}`);
-        }
-
-        const totalSize = await this.getCurrentContextSize();
-        if (totalSize + stats.size > this.maxContextSize) {
-            throw new Error('Context size limit exceeded. Remove some files first.');
+            throw new Error(`File too large (>${this.maxFileSize / 1000000}MB): ${filePath}`);
         }
 
         this.contextFiles.add(filePath);
@@ -40,21 +38,71 @@ export class ContextManager {
         return Array.from(this.contextFiles);
     }
 
+    /**
+     * Reads every context file, keyed by its workspace-relative path. Files that can no
+     * longer be read are left out.
+     */
+    public async getContextFileContents(): Promise<ContextFileContent[]> {
+        const contents: ContextFileContent[] = [];
+        for (const file of this.contextFiles) {
+            try {
+                contents.push({
+                    path: path.relative(this.workspaceRoot, file),
+                    content: await fs.promises.readFile(file, 'utf-8')
+                });
+            } catch (error) {
+                console.warn(`Error reading file ${file}:`, error);
+            }
+        }
+        return contents;
+    }
+
     public async clearContext(): Promise<void> {
         this.contextFiles.clear();
     }
 
-    private async getCurrentContextSize(): Promise<number> {
-        let totalSize = 0;
+    /**
+     * Token count of every context file for the given model, keyed by absolute path.
+     * Counts are cached until the file changes.
+     */
+    public async getFileTokenCounts(model: string): Promise<Map<string, number>> {
+        const counts = new Map<string, number>();
         for (const file of this.contextFiles) {
             try {
-                const stats = fs.statSync(file);
-                totalSize += stats.size;
+                const { mtimeMs } = await fs.promises.stat(file);
+                const cached = this.tokenCache.get(file);
+                if (cached && cached.mtimeMs === mtimeMs && cached.model === model) {
+                    counts.set(file, cached.tokens);
+                    continue;
+                }
+
+                const tokens = countTokens(await fs.promises.readFile(file, 'utf-8'), model);
+                this.tokenCache.set(file, { mtimeMs, model, tokens });
+                counts.set(file, tokens);
             } catch (error) {
-                console.warn(`Error getting file size for ${file}:`, error);
+                console.warn(`Error counting tokens for ${file}:`, error);
             }
         }
-        return totalSize;
+        return counts;
+    }
+
+    /**
+     * Packs the context files into the token budget, ranked by relevance to the query.
+     */
+    public async packContext(query: string, tokenBudget: number, model: string): Promise<PackedContext> {
+        const files = await this.getContextFileContents();
+        return new ContextPacker(model).pack(files, query, tokenBudget);
+    }
+
+    private formatPackedContext(packed: PackedContext): string {
+        return packed.files
+            .filter(file => file.mode !== 'omitted')
+            .map(file => `File: ${file.path}${file.mode === 'full' ? '' : ` (${file.mode})`}\n\n${file.content}\n`)
+            .join('\n---\n');
+    }
+
+    private getTokenBudget(): number {
+        return vscode.workspace.getConfiguration('falalo').get<number>('contextTokenBudget', 32000);
     }
 
     private isValidFile(filePath: string): boolean {
@@ -102,25 +150,14 @@ export class ContextManager {
     }
 
     public async getContextSummary(): Promise<string> {
-        const files = await this.getContextFiles();
-        if (files.length === 0) {
+        if (this.contextFiles.size === 0) {
             return 'No files in context.';
         }
 
-        const fileContents = await Promise.all(files.map(async file => {
-            try {
-                const relativePath = path.relative(this.workspaceRoot, file);
-                const content = fs.readFileSync(file, 'utf-8');
-                return `File: ${relativePath}\n\n${content}\n`;
-            } catch (error) {
-                console.warn(`Error reading file ${file}:`, error);
-                return '';
-            }
-        }));
-
-        const contextContent = fileContents.join('\n---\n');
-        const completion = await this.model.chat.completions.create({
-            model: 'o3-mini',
+        const route = getModelRoute('summarizer');
+        const contextContent = this.formatPackedContext(await this.packContext('', this.getTokenBudget(), route.model));
+        const completion = await this.model.complete({
+            ...route,
             messages: [
                 {
                     role: 'system',
@@ -131,34 +168,22 @@ export class ContextManager {
                     content: contextContent
                 }
             ],
-            reasoning_effort: 'high',
-            max_completion_tokens: 100000,
-            store: true
+            store: true,
+            usageTag: { feature: 'context' }
         });
 
-        return completion.choices[0]?.message?.content || 'Failed to generate context summary.';
+        return completion.content || 'Failed to generate context summary.';
     }
 
     public async analyzeContext(query: string): Promise<string> {
-        const files = await this.getContextFiles();
-        if (files.length === 0) {
+        if (this.contextFiles.size === 0) {
             return 'No files in context to analyze.';
         }
 
-        const fileContents = await Promise.all(files.map(async file => {
-            try {
-                const relativePath = path.relative(this.workspaceRoot, file);
-                const content = fs.readFileSync(file, 'utf-8');
-                return `File: ${relativePath}\n\n${content}\n`;
-            } catch (error) {
-                console.warn(`Error reading file ${file}:`, error);
-                return '';
-            }
-        }));
-
-        const contextContent = fileContents.join('\n---\n');
-        const completion = await this.model.chat.completions.create({
-            model: 'o3-mini',
+        const route = getModelRoute('summarizer');
+        const contextContent = this.formatPackedContext(await this.packContext(query, this.getTokenBudget(), route.model));
+        const completion = await this.model.complete({
+            ...route,
             messages: [
                 {
                     role: 'system',
@@ -169,11 +194,10 @@ export class ContextManager {
                     content: `Context:\n${contextContent}\n\nQuery: ${query}`
                 }
             ],
-            reasoning_effort: 'high',
-            max_completion_tokens: 100000,
-            store: true
+            store: true,
+            usageTag: { feature: 'context' }
         });
 
-        return completion.choices[0]?.message?.content || 'Failed to analyze context.';
+        return completion.content || 'Failed to analyze context.';
     }
 } 
\ No newline at end of file
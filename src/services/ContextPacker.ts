@@ -0,0 +1,200 @@
+import { ContextFileContent, PackedContext, PackedFile } from '../interfaces/types';
+import { countTokens } from '../utils/tokenizer';
+
+// Top-level declarations that start a new chunk (TypeScript/JavaScript, Python, Go, Rust, Java-like)
+const DECLARATION_PATTERN = /^(export\s+)?(default\s+)?(declare\s+)?(abstract\s+)?(async\s+)?(public\s+|private\s+|protected\s+)?(static\s+)?(function|class|interface|type|enum|namespace|const|let|var|def|fn|pub\s+fn|func|impl|struct|trait|module)\b/;
+const OUTLINE_PATTERN = /^\s*(export\s+)?(default\s+)?(abstract\s+)?(async\s+)?(public\s+|private\s+|protected\s+)?(static\s+)?(function|class|interface|type|enum|def|fn|pub\s+fn|func|impl|struct|trait)\b/;
+const STOP_WORDS = new Set(['the', 'and', 'for', 'with', 'that', 'this', 'from', 'into', 'add', 'use', 'make', 'create', 'update', 'file', 'files', 'code']);
+
+// One file may not take more than this share of the budget, so a single large file can't crowd out the rest
+const MAX_FILE_SHARE = 0.5;
+const MAX_CHUNK_LINES = 120;
+const MIN_USEFUL_TOKENS = 100;
+
+interface Chunk {
+    startLine: number;
+    endLine: number;
+    text: string;
+    tokens: number;
+    score: number;
+}
+
+/**
+ * Packs context files into a token budget. Files are ranked by how well they match the
+ * query; files that don't fit whole are reduced to their most relevant declarations
+ * (chunked at function/class boundaries) or, failing that, to an outline of declarations.
+ */
+export class ContextPacker {
+    constructor(private readonly model: string) {}
+
+    public pack(files: ContextFileContent[], query: string, tokenBudget: number): PackedContext {
+        const terms = this.extractTerms(query);
+        const ranked = files
+            .map(file => ({
+                file,
+                tokens: countTokens(file.content, this.model),
+                score: this.score(file.path, terms) * 5 + this.score(file.content, terms)
+            }))
+            .sort((a, b) => b.score - a.score || a.tokens - b.tokens);
+
+        let remaining = tokenBudget;
+        const packed: PackedFile[] = [];
+
+        for (const { file, tokens } of ranked) {
+            const header = countTokens(`### File: ${file.path}\n`, this.model);
+            const available = Math.min(remaining, Math.floor(tokenBudget * MAX_FILE_SHARE)) - header;
+
+            let result: PackedFile;
+            if (tokens <= remaining - header) {
+                // Whole files are always preferred when they fit, even above the per-file share
+                result = { path: file.path, mode: 'full', content: file.content, tokens, packedTokens: tokens };
+            } else if (available >= MIN_USEFUL_TOKENS) {
+                result = this.packChunks(file, tokens, terms, available) ||
+                    this.packOutline(file, tokens, available) ||
+                    this.omit(file, tokens);
+            } else {
+                result = this.omit(file, tokens);
+            }
+
+            if (result.mode !== 'omitted') {
+                remaining -= result.packedTokens + header;
+            }
+            packed.push(result);
+        }
+
+        return {
+            files: packed,
+            totalTokens: tokenBudget - remaining,
+            tokenBudget
+        };
+    }
+
+    /**
+     * Splits a file at top-level declarations. Declarations longer than MAX_CHUNK_LINES
+     * are split further at blank lines.
+     */
+    public chunk(content: string): { startLine: number; endLine: number; text: string }[] {
+        const lines = content.split('\n');
+        const chunks: { startLine: number; endLine: number; text: string }[] = [];
+        let start = 0;
+
+        const close = (end: number) => {
+            if (end <= start) {
+                return;
+            }
+            let pieceStart = start;
+            for (let i = start; i < end; i++) {
+                const isBoundary = i - pieceStart >= MAX_CHUNK_LINES && lines[i].trim() === '';
+                if (isBoundary || i === end - 1) {
+                    chunks.push({ startLine: pieceStart + 1, endLine: i + 1, text: lines.slice(pieceStart, i + 1).join('\n') });
+                    pieceStart = i + 1;
+                }
+            }
+        };
+
+        lines.forEach((line, index) => {
+            if (index > start && DECLARATION_PATTERN.test(line)) {
+                close(index);
+                start = index;
+            }
+        });
+        close(lines.length);
+
+        return chunks;
+    }
+
+    private packChunks(file: ContextFileContent, tokens: number, terms: string[], available: number): PackedFile | null {
+        const chunks: Chunk[] = this.chunk(file.content).map(chunk => ({
+            ...chunk,
+            tokens: countTokens(chunk.text, this.model),
+            score: this.score(chunk.text, terms)
+        }));
+        if (chunks.length < 2) {
+            return null;
+        }
+
+        // The first chunk usually holds imports and module docs, so it competes with a head start
+        const ranked = [...chunks].sort((a, b) =>
+            (b.score + (b.startLine === 1 ? 1 : 0)) - (a.score + (a.startLine === 1 ? 1 : 0)));
+
+        const selected = new Set<Chunk>();
+        let used = 0;
+        for (const chunk of ranked) {
+            // Leave room for the markers that stand in for omitted lines
+            if (used + chunk.tokens + 10 <= available) {
+                selected.add(chunk);
+                used += chunk.tokens + 10;
+            }
+        }
+        if (selected.size === 0 || used < MIN_USEFUL_TOKENS) {
+            return null;
+        }
+
+        const parts: string[] = [];
+        let previousEnd = 0;
+        for (const chunk of chunks.filter(candidate => selected.has(candidate))) {
+            if (chunk.startLine > previousEnd + 1) {
+                parts.push(`// ... lines ${previousEnd + 1}-${chunk.startLine - 1} omitted`);
+            }
+            parts.push(chunk.text);
+            previousEnd = chunk.endLine;
+        }
+        const lastLine = chunks[chunks.length - 1].endLine;
+        if (previousEnd < lastLine) {
+            parts.push(`// ... lines ${previousEnd + 1}-${lastLine} omitted`);
+        }
+
+        const content = parts.join('\n');
+        return { path: file.path, mode: 'chunks', content, tokens, packedTokens: countTokens(content, this.model) };
+    }
+
+    private packOutline(file: ContextFileContent, tokens: number, available: number): PackedFile | null {
+        const outline: string[] = [`// Outline only, the file is too large to include (${tokens} tokens)`];
+        let used = countTokens(outline[0], this.model);
+
+        for (const [index, line] of file.content.split('\n').entries()) {
+            if (!OUTLINE_PATTERN.test(line)) {
+                continue;
+            }
+            const entry = `L${index + 1}: ${line.trim().slice(0, 160)}`;
+            const entryTokens = countTokens(entry, this.model) + 1;
+            if (used + entryTokens > available) {
+                break;
+            }
+            outline.push(entry);
+            used += entryTokens;
+        }
+        if (outline.length === 1) {
+            return null;
+        }
+
+        const content = outline.join('\n');
+        return { path: file.path, mode: 'outline', content, tokens, packedTokens: countTokens(content, this.model) };
+    }
+
+    private omit(file: ContextFileContent, tokens: number): PackedFile {
+        return { path: file.path, mode: 'omitted', content: '', tokens, packedTokens: 0 };
+    }
+
+    private extractTerms(query: string): string[] {
+        const words = query.toLowerCase().match(/[a-z_][a-z0-9_]{2,}/g) || [];
+        return Array.from(new Set(words.filter(word => !STOP_WORDS.has(word))));
+    }
+
+    private score(text: string, terms: string[]): number {
+        if (terms.length === 0) {
+            return 0;
+        }
+        const lower = text.toLowerCase();
+        return terms.reduce((total, term) => {
+            let count = 0;
+            let index = lower.indexOf(term);
+            // Repeated mentions help, but a handful is enough to show relevance
+            while (index !== -1 && count < 10) {
+                count++;
+                index = lower.indexOf(term, index + term.length);
+            }
+            return total + count;
+        }, 0);
+    }
+}
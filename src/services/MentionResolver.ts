@@ -0,0 +1,310 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { ContextAttachment } from '../interfaces/types';
+import { isProtectedPath, resolveWorkspacePath } from '../utils/pathPolicy';
+import { getFileExtension, isBinaryFile, isImageFile } from '../utils/helpers';
+import { fuzzyFilter } from '../utils/fuzzyMatch';
+
+export type MentionKind = 'file' | 'folder' | 'symbol' | 'problems' | 'selection';
+
+export interface MentionCompletion {
+    label: string;
+    // Written after @kind: when the completion is picked
+    value: string;
+    detail?: string;
+}
+
+export interface ResolvedMentions {
+    attachments: ContextAttachment[];
+    // One entry per mention that couldn't be attached, with the reason
+    errors: string[];
+}
+
+// @file, @folder and @symbol take a value after a colon, quoted when it contains spaces.
+// @problems may take a path to limit it to
+const MENTION_PATTERN = /(^|\s)@(file|folder|symbol|problems|selection)\b(?::(?:"([^"]+)"|(\S+)))?/g;
+const EXCLUDE = '{**/node_modules/**,**/.git/**}';
+const MAX_FILE_CHARS = 50000;
+// All mentions of one message together
+const MAX_TOTAL_CHARS = 150000;
+// Content that would be cut below this size is left out instead
+const MIN_ATTACHED_CHARS = 200;
+const MAX_FOLDER_FILES = 50;
+const MAX_PROBLEMS = 100;
+const MAX_COMPLETIONS = 20;
+const MAX_LISTED_FILES = 10000;
+// The file list used for completions is reused while the user types
+const FILE_CACHE_MS = 30000;
+const TRUNCATION_MARKER = '\n[... truncated]';
+
+/**
+ * Resolves @-mentions in a chat message into attachments for that message alone, and
+ * offers completions for them. The context files are left unchanged.
+ */
+export class MentionResolver {
+    private fileCache?: { files: string[]; loadedAt: number };
+
+    constructor(private readonly workspaceRoot: string) {}
+
+    public async search(kind: MentionKind, query: string): Promise<MentionCompletion[]> {
+        switch (kind) {
+            case 'file':
+                return fuzzyFilter(query, await this.listFiles(), file => file, MAX_COMPLETIONS)
+                    .map(file => ({ label: path.posix.basename(file), value: file, detail: file }));
+            case 'folder': {
+                const folders = new Set<string>();
+                for (const file of await this.listFiles()) {
+                    for (let folder = path.posix.dirname(file); folder !== '.'; folder = path.posix.dirname(folder)) {
+                        folders.add(folder);
+                    }
+                }
+                return fuzzyFilter(query, Array.from(folders).sort(), folder => folder, MAX_COMPLETIONS)
+                    .map(folder => ({ label: `${folder}/`, value: folder }));
+            }
+            case 'symbol': {
+                if (!query) {
+                    return [];
+                }
+                const symbols = fuzzyFilter(query, await this.findSymbols(query), symbol => symbol.name, MAX_COMPLETIONS);
+                return symbols.map(symbol => ({
+                    label: symbol.name,
+                    value: symbol.name,
+                    detail: `${vscode.SymbolKind[symbol.kind]} · ${this.relativePath(symbol.location.uri.fsPath)}:${symbol.location.range.start.line + 1}`
+                }));
+            }
+            default:
+                return [];
+        }
+    }
+
+    public async resolve(text: string): Promise<ResolvedMentions> {
+        const resolved: ResolvedMentions = { attachments: [], errors: [] };
+        const seen = new Set<string>();
+        let remaining = MAX_TOTAL_CHARS;
+
+        for (const match of text.matchAll(MENTION_PATTERN)) {
+            const kind = match[2] as MentionKind;
+            // Punctuation ending a sentence isn't part of an unquoted value
+            const value = match[3] ?? match[4]?.replace(/[.,;:!?)\]]+$/, '');
+            const mention = `@${kind}${value ? `:${value}` : ''}`;
+            if (seen.has(mention)) {
+                continue;
+            }
+            seen.add(mention);
+
+            if (remaining < MIN_ATTACHED_CHARS) {
+                resolved.errors.push(`${mention}: left out, the mentions in this message exceed ${MAX_TOTAL_CHARS} characters`);
+                continue;
+            }
+            try {
+                for (const attachment of await this.resolveMention(kind, value, remaining)) {
+                    // A file can come up twice, e.g. mentioned itself and inside a mentioned folder
+                    if (resolved.attachments.some(existing => existing.title === attachment.title)) {
+                        continue;
+                    }
+                    resolved.attachments.push(attachment);
+                    remaining -= attachment.content.length;
+                }
+            } catch (error) {
+                resolved.errors.push(`${mention}: ${error instanceof Error ? error.message : String(error)}`);
+            }
+        }
+        return resolved;
+    }
+
+    private async resolveMention(kind: MentionKind, value: string | undefined, budget: number): Promise<ContextAttachment[]> {
+        switch (kind) {
+            case 'file':
+                return [this.readFile(requireValue(kind, value), budget)];
+            case 'folder':
+                return this.readFolder(requireValue(kind, value), budget);
+            case 'symbol':
+                return [await this.readSymbol(requireValue(kind, value), budget)];
+            case 'problems':
+                return [this.listProblems(value)];
+            case 'selection':
+                return [this.readSelection(budget)];
+        }
+    }
+
+    private readFile(file: string, budget: number): ContextAttachment {
+        const absolutePath = resolveWorkspacePath(file, this.workspaceRoot);
+        const relativePath = this.relativePath(absolutePath);
+        if (isProtectedPath(relativePath)) {
+            throw new Error(`${relativePath} is protected (falalo.protectedPaths)`);
+        }
+        if (!fs.existsSync(absolutePath) || !fs.statSync(absolutePath).isFile()) {
+            throw new Error(`no file ${relativePath} in the workspace`);
+        }
+        if (isBinaryFile(absolutePath) || isImageFile(absolutePath)) {
+            throw new Error(`${relativePath} is not a text file`);
+        }
+
+        const content = fs.readFileSync(absolutePath, 'utf-8');
+        if (content.includes('\0')) {
+            throw new Error(`${relativePath} is not a text file`);
+        }
+        return { title: `File: ${relativePath}`, content: fence(truncate(content, budget), getFileExtension(absolutePath)) };
+    }
+
+    /**
+     * Lists the folder's files and attaches as many of them as fit.
+     */
+    private async readFolder(folder: string, budget: number): Promise<ContextAttachment[]> {
+        const absolutePath = resolveWorkspacePath(folder, this.workspaceRoot);
+        const relativePath = this.relativePath(absolutePath) || '.';
+        if (!fs.existsSync(absolutePath) || !fs.statSync(absolutePath).isDirectory()) {
+            throw new Error(`no folder ${relativePath} in the workspace`);
+        }
+
+        const uris = await vscode.workspace.findFiles(new vscode.RelativePattern(absolutePath, '**/*'), EXCLUDE, MAX_FOLDER_FILES + 1);
+        const files = uris.map(uri => this.relativePath(uri.fsPath)).filter(file => !isProtectedPath(file)).sort();
+        const attachments: ContextAttachment[] = [];
+        const leftOut: string[] = [];
+        let remaining = budget;
+
+        for (const file of files.slice(0, MAX_FOLDER_FILES)) {
+            if (remaining < MIN_ATTACHED_CHARS) {
+                leftOut.push(file);
+                continue;
+            }
+            try {
+                const attachment = this.readFile(file, remaining);
+                attachments.push(attachment);
+                remaining -= attachment.content.length;
+            } catch {
+                // Binary and unreadable files are listed but not attached
+                leftOut.push(file);
+            }
+        }
+
+        const more = files.length > MAX_FOLDER_FILES ? `\n[more than ${MAX_FOLDER_FILES} files; only the first ${MAX_FOLDER_FILES} are listed]` : '';
+        const notAttached = leftOut.length > 0 ? `\nNot attached: ${leftOut.join(', ')}` : '';
+        return [
+            { title: `Folder: ${relativePath}`, content: `${files.slice(0, MAX_FOLDER_FILES).join('\n')}${more}${notAttached}` },
+            ...attachments
+        ];
+    }
+
+    private async readSymbol(name: string, budget: number): Promise<ContextAttachment> {
+        const symbols = await this.findSymbols(name);
+        const symbol = symbols.find(candidate => candidate.name === name)
+            || symbols.find(candidate => candidate.name.toLowerCase() === name.toLowerCase())
+            || symbols[0];
+        if (!symbol) {
+            throw new Error(`no symbol named ${name} in the workspace`);
+        }
+
+        const document = await vscode.workspace.openTextDocument(symbol.location.uri);
+        let range = symbol.location.range;
+        // Some providers only give the line of the name; the document symbols have the full extent
+        if (range.isSingleLine) {
+            range = await this.findSymbolExtent(document.uri, symbol.name, range) || range;
+        }
+        const lines = new vscode.Range(range.start.line, 0, range.end.line, document.lineAt(range.end.line).text.length);
+        const relativePath = this.relativePath(document.uri.fsPath);
+
+        return {
+            title: `Symbol: ${symbol.name} (${vscode.SymbolKind[symbol.kind]} in ${relativePath} lines ${range.start.line + 1}-${range.end.line + 1})`,
+            content: fence(truncate(document.getText(lines), budget), document.languageId)
+        };
+    }
+
+    private listProblems(filter?: string): ContextAttachment {
+        const prefix = filter ? this.relativePath(resolveWorkspacePath(filter, this.workspaceRoot)) : '';
+        const problems = vscode.languages.getDiagnostics()
+            .map(([uri, diagnostics]) => ({ file: this.relativePath(uri.fsPath), diagnostics }))
+            .filter(({ file }) => !file.startsWith('..') && (!prefix || file === prefix || file.startsWith(`${prefix}/`)))
+            .flatMap(({ file, diagnostics }) => diagnostics
+                .filter(diagnostic => diagnostic.severity <= vscode.DiagnosticSeverity.Warning)
+                .map(diagnostic => ({ file, diagnostic })))
+            .sort((a, b) => a.diagnostic.severity - b.diagnostic.severity);
+
+        const lines = problems.slice(0, MAX_PROBLEMS).map(({ file, diagnostic }) => {
+            const start = diagnostic.range.start;
+            const severity = diagnostic.severity === vscode.DiagnosticSeverity.Error ? 'error' : 'warning';
+            return `${file}:${start.line + 1}:${start.character + 1} ${severity}: ${diagnostic.message}${diagnostic.source ? ` (${diagnostic.source})` : ''}`;
+        });
+        if (problems.length > MAX_PROBLEMS) {
+            lines.push(`[${problems.length - MAX_PROBLEMS} more not shown]`);
+        }
+
+        return {
+            title: `Problems${prefix ? ` in ${prefix}` : ''} (${problems.length})`,
+            content: lines.length > 0 ? lines.join('\n') : 'No errors or warnings'
+        };
+    }
+
+    private readSelection(budget: number): ContextAttachment {
+        const editor = vscode.window.activeTextEditor;
+        if (!editor || editor.selection.isEmpty) {
+            throw new Error('no code is selected in the editor');
+        }
+
+        const selection = editor.selection;
+        const file = editor.document.uri.scheme === 'file' ? this.relativePath(editor.document.uri.fsPath) : editor.document.fileName;
+        return {
+            title: `Selection: ${file} lines ${selection.start.line + 1}-${selection.end.line + 1}`,
+            content: fence(truncate(editor.document.getText(selection), budget), editor.document.languageId)
+        };
+    }
+
+    private async findSymbols(query: string): Promise<vscode.SymbolInformation[]> {
+        const symbols = await vscode.commands.executeCommand<vscode.SymbolInformation[]>('vscode.executeWorkspaceSymbolProvider', query) || [];
+        return symbols.filter(symbol => symbol.location.uri.scheme === 'file' && !this.relativePath(symbol.location.uri.fsPath).startsWith('..'));
+    }
+
+    private async findSymbolExtent(uri: vscode.Uri, name: string, at: vscode.Range): Promise<vscode.Range | undefined> {
+        const symbols = await vscode.commands.executeCommand<(vscode.DocumentSymbol | vscode.SymbolInformation)[]>('vscode.executeDocumentSymbolProvider', uri) || [];
+        const pending = [...symbols];
+        while (pending.length > 0) {
+            const symbol = pending.pop()!;
+            if (!('children' in symbol)) {
+                continue;
+            }
+            if (symbol.name === name && symbol.range.contains(at.start)) {
+                return symbol.range;
+            }
+            pending.push(...symbol.children);
+        }
+        return undefined;
+    }
+
+    /**
+     * Workspace files for completions, with forward slashes, without protected paths.
+     */
+    private async listFiles(): Promise<string[]> {
+        if (this.fileCache && Date.now() - this.fileCache.loadedAt < FILE_CACHE_MS) {
+            return this.fileCache.files;
+        }
+
+        const uris = await vscode.workspace.findFiles('**/*', EXCLUDE, MAX_LISTED_FILES);
+        const files = uris
+            .map(uri => this.relativePath(uri.fsPath))
+            .filter(file => !file.startsWith('..') && !isProtectedPath(file))
+            .sort();
+        this.fileCache = { files, loadedAt: Date.now() };
+        return files;
+    }
+
+    private relativePath(absolutePath: string): string {
+        return path.relative(this.workspaceRoot, absolutePath).split(path.sep).join('/');
+    }
+}
+
+function requireValue(kind: MentionKind, value: string | undefined): string {
+    if (!value) {
+        throw new Error(kind === 'symbol' ? 'give a name, e.g. @symbol:MyClass' : `give a path, e.g. @${kind}:${kind === 'folder' ? 'src' : 'src/index.ts'}`);
+    }
+    return value;
+}
+
+function truncate(text: string, limit: number): string {
+    const max = Math.min(limit, MAX_FILE_CHARS);
+    return text.length > max ? `${text.slice(0, Math.max(0, max - TRUNCATION_MARKER.length))}${TRUNCATION_MARKER}` : text;
+}
+
+function fence(code: string, language: string): string {
+    return `\`\`\`${language}\n${code}\n\`\`\``;
+}
@@ -0,0 +1,465 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { randomUUID } from 'crypto';
+import { AISolutionAction, ErrorAnalysis, LLMProvider, RepairAttempt, RepairSession } from '../interfaces/types';
+import { LogManager } from '../logManager';
+import { cleanAIResponse } from '../utils/helpers';
+import { assertWritable, resolveWorkspacePath } from '../utils/pathPolicy';
+import { detectMissingDependency, ECOSYSTEMS, findErrorSourceFile } from '../utils/packageManager';
+import { InstallRequest, planInstall } from './dependencyResolvers';
+import { getModelRoute } from './modelRouter';
+import { approveCommand, CommandDeniedError } from './commandPolicy';
+import { CheckpointManager } from './CheckpointManager';
+import { formatCommandResult, TerminalRunner } from './TerminalRunner';
+import { BudgetExceededError } from './UsageLedger';
+
+const MAX_SESSIONS = 20;
+const MAX_BACKOFF_MS = 30000;
+// Enough of a stack trace for the analysis without flooding the prompt
+const MAX_ERROR_LENGTH = 4000;
+
+/**
+ * The JSON the error analyst must answer with. It's included in the prompt verbatim and
+ * enforced by parseErrorAnalysis.
+ */
+export const ERROR_ANALYSIS_SCHEMA = {
+    type: 'object',
+    required: ['analysis', 'explanation', 'shouldStop', 'solution'],
+    properties: {
+        analysis: { type: 'string', description: 'What went wrong' },
+        explanation: { type: 'string', description: 'Short description of the fix' },
+        shouldStop: { type: 'boolean', description: 'True when the error cannot be fixed automatically' },
+        solution: {
+            description: 'Exactly one action, or null when shouldStop is true',
+            oneOf: [
+                { type: 'null' },
+                { type: 'object', required: ['action', 'command'], properties: { action: { const: 'runCommand' }, command: { type: 'string' } } },
+                {
+                    type: 'object',
+                    required: ['action', 'packages'],
+                    properties: {
+                        action: { const: 'installDependency' },
+                        packages: {
+                            type: 'array',
+                            items: { type: 'string' },
+                            minItems: 1,
+                            description: 'npm, PyPI or crates.io names, Go module paths, or group:artifact for Maven and Gradle'
+                        },
+                        ecosystem: { enum: ECOSYSTEMS, description: 'Detected from the project when left out' }
+                    }
+                },
+                { type: 'object', required: ['action', 'path'], properties: { action: { const: 'createDirectory' }, path: { type: 'string' } } },
+                {
+                    type: 'object',
+                    required: ['action', 'path', 'content'],
+                    properties: { action: { const: 'writeFile' }, path: { type: 'string' }, content: { type: 'string' } }
+                },
+                { type: 'object', required: ['action', 'path'], properties: { action: { const: 'openFile' }, path: { type: 'string' } } }
+            ]
+        }
+    }
+};
+
+const ERROR_ANALYSIS_PROMPT = `You are an expert debugging AI. Analyze the error and suggest one fix.
+
+Respond with only a JSON object matching this JSON Schema:
+${JSON.stringify(ERROR_ANALYSIS_SCHEMA, null, 2)}
+
+Paths are relative to the workspace root. Commands and installs are shown to the user for approval before they run, and file writes can be undone. Don't repeat a fix that already failed; set "shouldStop" to true instead when you have nothing new to try.`;
+
+export class RepairFailedError extends Error {
+    constructor(public readonly session: RepairSession, public readonly lastError: unknown) {
+        super(`${errorMessage(lastError)} (gave up after ${session.attempts.length} attempt(s))`);
+        this.name = 'RepairFailedError';
+    }
+}
+
+/**
+ * A failure whose repair was already attempted by the operation itself, such as a task step
+ * that used up its verification rounds. Running the operation again would only repeat them.
+ */
+export class StepVerificationError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'StepVerificationError';
+    }
+}
+
+export interface RepairOptions {
+    signal?: AbortSignal;
+    // The task plan the operation belongs to, for attributing the analysis in usage records
+    planId?: string;
+    // Called once an attempt's outcome is known
+    onAttempt?: (attempt: RepairAttempt, session: RepairSession) => void;
+}
+
+/**
+ * Runs an operation and, when it fails, tries to repair the cause before running it again:
+ * missing dependencies are installed with the project's package manager after the user
+ * confirms, anything else goes to the error analyst for one declared action. Attempts are
+ * bounded and spaced out with exponential backoff, and every session is kept for the
+ * repair history.
+ */
+export class RepairEngine implements vscode.Disposable {
+    private sessions: RepairSession[] = [];
+    private readonly logger = LogManager.getInstance();
+    private readonly historyEmitter = new vscode.EventEmitter<RepairSession[]>();
+
+    public readonly onDidChangeHistory = this.historyEmitter.event;
+
+    constructor(
+        private readonly model: LLMProvider,
+        private readonly terminalRunner: TerminalRunner,
+        private readonly checkpoints: CheckpointManager
+    ) {}
+
+    /**
+     * Newest first.
+     */
+    public getHistory(): RepairSession[] {
+        return [...this.sessions].reverse();
+    }
+
+    public async run<T>(operation: () => Promise<T>, context: string, options: RepairOptions = {}): Promise<T> {
+        const config = vscode.workspace.getConfiguration('falalo');
+        const maxAttempts = Math.max(1, config.get<number>('repairMaxAttempts', 2));
+        const backoffMs = Math.max(0, config.get<number>('repairBackoffMs', 2000));
+
+        const session: RepairSession = {
+            id: randomUUID(),
+            context,
+            planId: options.planId,
+            startedAt: new Date().toISOString(),
+            status: 'running',
+            maxAttempts,
+            attempts: []
+        };
+        this.sessions = [...this.sessions, session].slice(-MAX_SESSIONS);
+        const triedDependencies = new Set<string>();
+
+        for (let attempt = 1; ; attempt++) {
+            try {
+                const result = await operation();
+                this.finish(session, 'succeeded');
+                return result;
+            } catch (error) {
+                // Cancellation, budget limits and failures already repaired in place are not something to repair
+                if (options.signal?.aborted || error instanceof BudgetExceededError || error instanceof StepVerificationError) {
+                    this.finish(session, 'failed');
+                    throw error;
+                }
+
+                const entry: RepairAttempt = {
+                    attempt,
+                    failedAt: new Date().toISOString(),
+                    error: errorMessage(error).slice(0, MAX_ERROR_LENGTH),
+                    outcome: 'pending'
+                };
+                session.attempts.push(entry);
+
+                if (attempt >= maxAttempts) {
+                    entry.outcome = 'gave-up';
+                } else {
+                    await this.repair(error, session, entry, triedDependencies, options.signal);
+                }
+                this.logger.log(
+                    `${context}: attempt ${attempt}/${maxAttempts} failed (${entry.outcome}${entry.detail ? `: ${entry.detail}` : ''})`,
+                    { type: 'error' }
+                );
+                options.onAttempt?.(entry, session);
+
+                if (entry.outcome === 'gave-up' || entry.outcome === 'stopped' || entry.outcome === 'declined') {
+                    this.finish(session, 'failed');
+                    throw new RepairFailedError(session, error);
+                }
+
+                this.historyEmitter.fire(this.getHistory());
+                await delay(Math.min(backoffMs * 2 ** (attempt - 1), MAX_BACKOFF_MS), options.signal);
+                if (options.signal?.aborted) {
+                    this.finish(session, 'failed');
+                    throw error;
+                }
+            }
+        }
+    }
+
+    /**
+     * Wraps a command callback so it runs through the engine, reporting attempts in the
+     * status bar and the final failure as an error message.
+     */
+    public wrapCommand(command: (...args: any[]) => Promise<any>, commandName: string): (...args: any[]) => Promise<any> {
+        return async (...args: any[]) => {
+            try {
+                return await this.run(() => command(...args), commandName, {
+                    onAttempt: (attempt, session) => vscode.window.setStatusBarMessage(
+                        `Falalo: ${commandName} failed (attempt ${attempt.attempt}/${session.maxAttempts}, ${attempt.outcome})`,
+                        5000
+                    )
+                });
+            } catch (error) {
+                const choice = await vscode.window.showErrorMessage(`${commandName}: ${errorMessage(error)}`, 'Show Repair History');
+                if (choice) {
+                    await vscode.commands.executeCommand('falalo.showRepairHistory');
+                }
+                throw error;
+            }
+        };
+    }
+
+    public dispose(): void {
+        this.historyEmitter.dispose();
+    }
+
+    private async repair(
+        error: unknown,
+        session: RepairSession,
+        entry: RepairAttempt,
+        triedDependencies: Set<string>,
+        signal?: AbortSignal
+    ): Promise<void> {
+        const workspaceRoot = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+        if (!workspaceRoot) {
+            entry.outcome = 'no-fix';
+            entry.detail = 'No workspace folder is open';
+            return;
+        }
+
+        let fix: () => Promise<string>;
+        const missing = detectMissingDependency(errorMessage(error));
+        if (missing && !triedDependencies.has(`${missing.ecosystem}:${missing.packageName}`)) {
+            triedDependencies.add(`${missing.ecosystem}:${missing.packageName}`);
+            entry.dependency = missing.packageName;
+            const sourceFile = findErrorSourceFile(errorMessage(error), workspaceRoot);
+            fix = () => this.install(
+                { packages: [missing.packageName], ecosystem: missing.ecosystem, sourceFile },
+                `"${missing.module}" could not be found.`,
+                workspaceRoot,
+                signal
+            );
+        } else {
+            try {
+                entry.analysis = await this.analyze(error, session, workspaceRoot, signal);
+            } catch (analysisError) {
+                entry.outcome = 'no-fix';
+                entry.detail = `No analysis: ${errorMessage(analysisError)}`;
+                return;
+            }
+            if (entry.analysis.shouldStop || !entry.analysis.solution) {
+                entry.outcome = entry.analysis.shouldStop ? 'stopped' : 'no-fix';
+                entry.detail = entry.analysis.explanation;
+                return;
+            }
+            const solution = entry.analysis.solution;
+            fix = () => this.applySolution(solution, session.context, workspaceRoot, signal);
+        }
+
+        try {
+            entry.detail = await fix();
+            entry.outcome = 'fixed';
+        } catch (fixError) {
+            entry.outcome = fixError instanceof CommandDeniedError ? 'declined' : 'fix-failed';
+            entry.detail = errorMessage(fixError);
+        }
+    }
+
+    private async analyze(error: unknown, session: RepairSession, workspaceRoot: string, signal?: AbortSignal): Promise<ErrorAnalysis> {
+        const earlier = session.attempts.slice(0, -1).map(attempt =>
+            `${attempt.attempt}. ${attempt.analysis?.solution ? `Tried ${JSON.stringify(attempt.analysis.solution)}` : 'No fix tried'}` +
+            ` -> ${attempt.outcome}${attempt.detail ? ` (${attempt.detail})` : ''}`);
+        const stack = error instanceof Error && error.stack ? `\n\nStack:\n${error.stack.slice(0, MAX_ERROR_LENGTH)}` : '';
+
+        const completion = await this.model.complete({
+            ...getModelRoute('errorAnalyst'),
+            messages: [
+                { role: 'system', content: ERROR_ANALYSIS_PROMPT },
+                {
+                    role: 'user',
+                    content: `Context: ${session.context}\nWorkspace root: ${workspaceRoot}\n` +
+                        `Attempt: ${session.attempts.length} of ${session.maxAttempts}\n\n` +
+                        `Error:\n${errorMessage(error).slice(0, MAX_ERROR_LENGTH)}${stack}\n\n` +
+                        `Earlier attempts:\n${earlier.join('\n') || 'None'}`
+                }
+            ],
+            jsonMode: true,
+            store: true,
+            signal,
+            usageTag: { feature: 'retry', planId: session.planId }
+        });
+
+        return parseErrorAnalysis(completion.content);
+    }
+
+    /**
+     * Carries out one declared action from an analysis and describes what it did. Paths go
+     * through the path policy and commands through the command policy; file writes are
+     * checkpointed so they can be undone like any other change.
+     */
+    private async applySolution(solution: AISolutionAction, context: string, workspaceRoot: string, signal?: AbortSignal): Promise<string> {
+        switch (solution.action) {
+            case 'runCommand':
+                await approveCommand(solution.command, workspaceRoot);
+                await this.runCommand(solution.command, workspaceRoot, signal);
+                return `Ran ${solution.command}`;
+
+            case 'installDependency':
+                return this.install(
+                    { packages: solution.packages, ecosystem: solution.ecosystem },
+                    `The error analysis suggests installing them for ${context}.`,
+                    workspaceRoot,
+                    signal
+                );
+
+            case 'createDirectory':
+                await fs.promises.mkdir(assertWritable(solution.path, workspaceRoot), { recursive: true });
+                return `Created ${solution.path}`;
+
+            case 'writeFile':
+                await this.checkpoints.apply([{
+                    type: fs.existsSync(assertWritable(solution.path, workspaceRoot)) ? 'update' : 'create',
+                    path: solution.path,
+                    content: solution.content
+                }], { label: `Repair: ${context}` });
+                return `Wrote ${solution.path}`;
+
+            case 'openFile': {
+                const document = await vscode.workspace.openTextDocument(resolveWorkspacePath(solution.path, workspaceRoot));
+                await vscode.window.showTextDocument(document);
+                return `Opened ${solution.path}`;
+            }
+        }
+    }
+
+    /**
+     * Installs packages into the project that needs them, with its package manager. The user
+     * always confirms, no matter what falalo.commandApproval says, since an install runs
+     * third-party code. Build file edits are checkpointed like any other change.
+     */
+    private async install(request: InstallRequest, reason: string, workspaceRoot: string, signal?: AbortSignal): Promise<string> {
+        const plan = await planInstall(request, workspaceRoot);
+        const project = path.relative(workspaceRoot, plan.projectDir) || 'workspace root';
+        const details = [
+            ...(plan.command ? [`Command: ${plan.command.command}`, `Directory: ${plan.command.cwd}`] : []),
+            ...plan.edits.map(edit => `Edits: ${edit.path}`),
+            ...plan.notes
+        ];
+
+        const install = 'Install';
+        const choice = await vscode.window.showWarningMessage(
+            `Install ${plan.packages.join(', ')} with ${plan.manager}?`,
+            { modal: true, detail: `${reason}\n\nProject: ${project}\n${details.join('\n')}` },
+            install
+        );
+        if (choice !== install) {
+            throw new CommandDeniedError(plan.command?.command || `${plan.manager} add ${plan.packages.join(' ')}`, 'declined');
+        }
+
+        if (plan.command) {
+            await approveCommand(plan.command.command, plan.command.cwd, { confirmed: true });
+            await this.runCommand(plan.command.command, plan.command.cwd, signal);
+        }
+        if (plan.edits.length > 0) {
+            await this.checkpoints.apply(plan.edits, { label: `Install ${plan.packages.join(', ')}` });
+        }
+        return `Installed ${plan.packages.join(', ')} with ${plan.manager} (${project})`;
+    }
+
+    private async runCommand(command: string, cwd: string, signal?: AbortSignal): Promise<void> {
+        const result = await this.terminalRunner.run(command, { cwd, signal }).result;
+        if (result.exitCode !== 0) {
+            throw new Error(formatCommandResult(result, 1000));
+        }
+    }
+
+    private finish(session: RepairSession, status: RepairSession['status']): void {
+        session.status = status;
+        session.finishedAt = new Date().toISOString();
+        this.historyEmitter.fire(this.getHistory());
+    }
+}
+
+/**
+ * Parses and validates an analysis against ERROR_ANALYSIS_SCHEMA. Throws on anything that
+ * doesn't match, so a malformed answer is never acted on.
+ */
+export function parseErrorAnalysis(response: string): ErrorAnalysis {
+    let parsed: any;
+    try {
+        parsed = JSON.parse(cleanAIResponse(response));
+    } catch {
+        throw new Error('The error analysis is not valid JSON');
+    }
+
+    if (!parsed || typeof parsed.analysis !== 'string' || typeof parsed.explanation !== 'string') {
+        throw new Error('The error analysis is missing "analysis" or "explanation"');
+    }
+    const shouldStop = parsed.shouldStop === true;
+    const solution = parsed.solution ?? null;
+    if (solution !== null && !isSolutionAction(solution)) {
+        throw new Error(`The error analysis has an invalid solution: ${JSON.stringify(solution).slice(0, 200)}`);
+    }
+
+    return { analysis: parsed.analysis, explanation: parsed.explanation, shouldStop, solution: shouldStop ? null : solution };
+}
+
+/**
+ * A session as a markdown report, one section per failed attempt.
+ */
+export function formatRepairSession(session: RepairSession): string {
+    const lines = [
+        `# ${session.context}`,
+        '',
+        `Status: ${session.status}, ${session.attempts.length} failed attempt(s) of at most ${session.maxAttempts}`,
+        `Started: ${session.startedAt}${session.finishedAt ? `, finished: ${session.finishedAt}` : ''}`
+    ];
+
+    for (const attempt of session.attempts) {
+        lines.push('', `## Attempt ${attempt.attempt}: ${attempt.outcome}`, '', `Failed at ${attempt.failedAt}`, '', '```', attempt.error, '```');
+        if (attempt.dependency) {
+            lines.push('', `Missing dependency: ${attempt.dependency}`);
+        }
+        if (attempt.analysis) {
+            lines.push('', `Analysis: ${attempt.analysis.analysis}`, '', `Fix: ${attempt.analysis.explanation}`);
+            if (attempt.analysis.solution) {
+                lines.push('', '```json', JSON.stringify(attempt.analysis.solution, null, 2), '```');
+            }
+        }
+        if (attempt.detail) {
+            lines.push('', `Result: ${attempt.detail}`);
+        }
+    }
+
+    return lines.join('\n');
+}
+
+function isSolutionAction(value: any): value is AISolutionAction {
+    const isString = (field: unknown) => typeof field === 'string' && field.length > 0;
+    switch (value?.action) {
+        case 'runCommand':
+            return isString(value.command);
+        case 'installDependency':
+            return Array.isArray(value.packages) && value.packages.length > 0 && value.packages.every(isString) &&
+                (value.ecosystem === undefined || ECOSYSTEMS.includes(value.ecosystem));
+        case 'createDirectory':
+        case 'openFile':
+            return isString(value.path);
+        case 'writeFile':
+            return isString(value.path) && typeof value.content === 'string';
+        default:
+            return false;
+    }
+}
+
+function errorMessage(error: unknown): string {
+    return error instanceof Error ? error.message : String(error);
+}
+
+function delay(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise(resolve => {
+        const timer = setTimeout(resolve, ms);
+        signal?.addEventListener('abort', () => {
+            clearTimeout(timer);
+            resolve();
+        }, { once: true });
+    });
+}
@@ -0,0 +1,76 @@
+import * as vscode from 'vscode';
+import { ContextAttachment } from '../interfaces/types';
+
+export interface SlashCommand {
+    // Typed after the slash, lowercase
+    name: string;
+    // Shown after the name in completions, e.g. "<glob>"
+    args?: string;
+    description: string;
+    // Transient commands, such as /clear, aren't shown as a message in the conversation
+    transient?: boolean;
+    // attachments hold what the input @-mentioned
+    run(args: string, attachments: ContextAttachment[]): Promise<void>;
+}
+
+// What the webview needs to offer completions
+export type SlashCommandInfo = Pick<SlashCommand, 'name' | 'args' | 'description'>;
+
+export interface ParsedSlashCommand {
+    name: string;
+    args: string;
+    // Undefined when no command of that name is registered
+    command?: SlashCommand;
+}
+
+/**
+ * Chat input starting with /name is routed to the command registered under that name
+ * instead of the planning pipeline.
+ */
+export class SlashCommandRegistry {
+    private readonly commands = new Map<string, SlashCommand>();
+    private readonly changeEmitter = new vscode.EventEmitter<void>();
+
+    public readonly onDidChange = this.changeEmitter.event;
+
+    public register(command: SlashCommand): vscode.Disposable {
+        if (!/^[a-z][\w-]*$/.test(command.name)) {
+            throw new Error(`Invalid slash command name: ${command.name}`);
+        }
+        if (this.commands.has(command.name)) {
+            throw new Error(`Slash command /${command.name} is already registered`);
+        }
+
+        this.commands.set(command.name, command);
+        this.changeEmitter.fire();
+        return new vscode.Disposable(() => {
+            if (this.commands.get(command.name) === command) {
+                this.commands.delete(command.name);
+                this.changeEmitter.fire();
+            }
+        });
+    }
+
+    /**
+     * Returns undefined for input that isn't a command. Paths such as /etc/hosts at the
+     * start of a message aren't taken for one.
+     */
+    public parse(input: string): ParsedSlashCommand | undefined {
+        const match = /^\/([a-zA-Z][\w-]*)(?:\s+([\s\S]*))?$/.exec(input.trim());
+        if (!match) {
+            return undefined;
+        }
+        const name = match[1].toLowerCase();
+        return { name, args: (match[2] || '').trim(), command: this.commands.get(name) };
+    }
+
+    public list(): SlashCommandInfo[] {
+        return Array.from(this.commands.values())
+            .map(({ name, args, description }) => ({ name, args, description }))
+            .sort((a, b) => a.name.localeCompare(b.name));
+    }
+
+    public dispose(): void {
+        this.changeEmitter.dispose();
+    }
+}
@@ -0,0 +1,392 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { randomUUID } from 'crypto';
+import { diffLines } from 'diff';
+import { ChangeOrigin, FileOperation, HunkStatus, PatchConflict, StagedChange, StagedHunk } from '../interfaces/types';
+import { applyPatch } from '../utils/patchParser';
+import { assertWritable } from '../utils/pathPolicy';
+import { CheckpointManager } from './CheckpointManager';
+import { LogManager } from '../logManager';
+
+/**
+ * Holds AI-proposed file writes until the user reviews them. Each change is split into
+ * hunks that can be accepted or rejected on their own; a file is written once every hunk
+ * has been decided, using only the accepted hunks. Writes go through the CheckpointManager
+ * so they can be undone.
+ */
+export class StagedChangeManager implements vscode.TextDocumentContentProvider, vscode.Disposable {
+    public static readonly SCHEME = 'falalo-staged';
+
+    private changes: Map<string, StagedChange> = new Map();
+    private readonly logger = LogManager.getInstance();
+    private readonly contentEmitter = new vscode.EventEmitter<vscode.Uri>();
+    private readonly changesEmitter = new vscode.EventEmitter<StagedChange[]>();
+
+    public readonly onDidChange = this.contentEmitter.event;
+    public readonly onDidChangeChanges = this.changesEmitter.event;
+
+    constructor(
+        private readonly workspaceRoot: string,
+        private readonly checkpoints: CheckpointManager
+    ) {}
+
+    public list(): StagedChange[] {
+        return Array.from(this.changes.values());
+    }
+
+    public get(id: string): StagedChange | undefined {
+        return this.changes.get(id);
+    }
+
+    /**
+     * Turns patch operations into full-content updates. Patches apply on top of the pending
+     * proposal for a file if there is one, since that's what a follow-up edit refers to.
+     * Edits that can't be placed are returned as conflicts; the rest still apply.
+     */
+    public async resolvePatches(operations: FileOperation[]): Promise<{ operations: FileOperation[]; conflicts: PatchConflict[] }> {
+        const resolved: FileOperation[] = [];
+        const conflicts: PatchConflict[] = [];
+        // Later patches to the same file in a batch build on earlier patches and File: blocks
+        const patched = new Map<string, string>();
+
+        for (const operation of operations) {
+            if (operation.type !== 'patch') {
+                resolved.push(operation);
+                continue;
+            }
+
+            const fullPath = this.resolve(operation.path);
+            const pending = this.findByPath(operation.path);
+            const written = resolved.find(candidate => candidate.path === operation.path && !candidate.directory && candidate.content !== undefined)?.content;
+            const exists = patched.has(operation.path) || written !== undefined ||
+                (pending ? pending.type !== 'delete' : fs.existsSync(fullPath));
+            const edits = operation.edits || [];
+            if (!exists && edits.some(edit => edit.search.trim() !== '')) {
+                conflicts.push(...edits.map(edit => ({ path: operation.path, search: edit.search, reason: 'missing-file' as const })));
+                continue;
+            }
+
+            const base = patched.get(operation.path) ?? written ?? (pending ? pending.proposed : await this.readCurrent(fullPath));
+            const result = applyPatch(operation.path, base, edits);
+            conflicts.push(...result.conflicts);
+            if (result.applied > 0) {
+                patched.set(operation.path, result.content);
+            }
+        }
+
+        patched.forEach((content, filePath) => {
+            const existing = resolved.findIndex(operation => operation.path === filePath);
+            if (existing !== -1) {
+                resolved.splice(existing, 1);
+            }
+            resolved.push({ type: 'update', path: filePath, content });
+        });
+
+        return { operations: resolved, conflicts };
+    }
+
+    /**
+     * Stages file writes and deletions. Folder creations are applied right away since
+     * they can't overwrite anything. A newer proposal for a file that already has a pending
+     * change replaces it, keeping the on-disk original as the base.
+     */
+    public async stage(operations: FileOperation[], origin: ChangeOrigin): Promise<StagedChange[]> {
+        const staged: StagedChange[] = [];
+        // Refuse the whole batch up front rather than staging part of it
+        operations.forEach(operation => assertWritable(operation.path, this.workspaceRoot));
+
+        for (const operation of operations) {
+            const fullPath = this.resolve(operation.path);
+
+            if (operation.type === 'patch') {
+                throw new Error(`Patch for ${operation.path} must be resolved before it is staged`);
+            }
+            if (operation.type === 'create' && operation.directory) {
+                await fs.promises.mkdir(fullPath, { recursive: true });
+                this.logger.log(`Created directory: ${operation.path}`, { type: 'info' });
+                continue;
+            }
+
+            const existing = this.findByPath(operation.path);
+            const original = existing ? existing.original : await this.readCurrent(fullPath);
+            const exists = existing ? existing.type !== 'create' : fs.existsSync(fullPath);
+            const proposed = operation.type === 'delete' ? '' : operation.content || '';
+
+            const unchanged = operation.type === 'delete' ? !exists : exists && proposed === original;
+            if (unchanged) {
+                if (existing) {
+                    this.changes.delete(existing.id);
+                }
+                continue;
+            }
+
+            const change: StagedChange = {
+                id: existing?.id || randomUUID(),
+                path: operation.path,
+                type: operation.type === 'delete' ? 'delete' : exists ? 'update' : 'create',
+                original,
+                proposed,
+                hunks: this.computeHunks(original, proposed),
+                origin,
+                createdAt: new Date().toISOString()
+            };
+            this.changes.set(change.id, change);
+            staged.push(change);
+            this.contentEmitter.fire(this.getUri(change, 'proposed'));
+            this.logger.log(`Staged ${change.type} of ${change.path} (${change.hunks.length} hunk(s)) from ${origin.label}`, { type: 'info' });
+        }
+
+        this.fireChanges();
+        return staged;
+    }
+
+    public async openDiff(id: string): Promise<void> {
+        const change = this.require(id);
+        const left = change.type === 'create'
+            ? this.getUri(change, 'original')
+            : vscode.Uri.file(this.resolve(change.path));
+        const label = change.type === 'create' ? 'new file' : change.type === 'delete' ? 'deletion' : 'proposed change';
+
+        await vscode.commands.executeCommand('vscode.diff', left, this.getUri(change, 'proposed'), `${change.path} (${label})`);
+    }
+
+    public async setHunkStatus(id: string, index: number, status: HunkStatus): Promise<void> {
+        const change = this.require(id);
+        const hunk = change.hunks[index];
+        if (!hunk) {
+            throw new Error(`Hunk ${index + 1} not found in ${change.path}`);
+        }
+
+        hunk.status = status;
+        if (change.hunks.every(candidate => candidate.status !== 'pending')) {
+            await this.apply([change]);
+        } else {
+            this.fireChanges();
+        }
+    }
+
+    /**
+     * Accepts every hunk that hasn't been rejected yet and writes the file.
+     */
+    public async accept(id: string): Promise<void> {
+        await this.acceptChanges([id]);
+    }
+
+    /**
+     * Accepts several changes and writes them as one batch, so they share a checkpoint and
+     * either all land or none do.
+     */
+    public async acceptChanges(ids: string[]): Promise<void> {
+        const changes = ids.map(id => this.require(id));
+        changes.forEach(change => this.decidePending(change, 'accepted'));
+        await this.apply(changes);
+    }
+
+    /**
+     * Rejects the hunks still pending. Hunks accepted earlier are still written.
+     */
+    public async reject(id: string): Promise<void> {
+        const change = this.require(id);
+        this.decidePending(change, 'rejected');
+        await this.apply([change]);
+    }
+
+    public async acceptAll(): Promise<void> {
+        await this.acceptChanges(this.list().map(change => change.id));
+    }
+
+    public async rejectAll(): Promise<void> {
+        const changes = this.list();
+        changes.forEach(change => this.decidePending(change, 'rejected'));
+        await this.apply(changes);
+    }
+
+    /**
+     * Finds the staged change shown in a diff editor, for the editor title actions.
+     */
+    public fromUri(uri: vscode.Uri): StagedChange | undefined {
+        if (uri.scheme === StagedChangeManager.SCHEME) {
+            return this.changes.get(new URLSearchParams(uri.query).get('id') || '');
+        }
+        return this.findByPath(path.relative(this.workspaceRoot, uri.fsPath));
+    }
+
+    public provideTextDocumentContent(uri: vscode.Uri): string {
+        const query = new URLSearchParams(uri.query);
+        const change = this.changes.get(query.get('id') || '');
+        if (!change) {
+            return '';
+        }
+        return query.get('side') === 'original' ? change.original : change.proposed;
+    }
+
+    public dispose(): void {
+        this.contentEmitter.dispose();
+        this.changesEmitter.dispose();
+    }
+
+    private async apply(changes: StagedChange[]): Promise<void> {
+        if (changes.length === 0) {
+            return;
+        }
+
+        // Hunks were computed against the original; if a file moved on, recompute them and ask again
+        const conflicts: string[] = [];
+        for (const change of changes) {
+            const fullPath = this.resolve(change.path);
+            const current = await this.readCurrent(fullPath);
+            if (current !== change.original) {
+                change.original = current;
+                change.type = change.type === 'delete' ? 'delete' : fs.existsSync(fullPath) ? 'update' : 'create';
+                change.hunks = this.computeHunks(current, change.proposed);
+                this.contentEmitter.fire(this.getUri(change, 'original'));
+                conflicts.push(change.path);
+            }
+        }
+        if (conflicts.length > 0) {
+            this.fireChanges();
+            throw new Error(`${conflicts.join(', ')} changed on disk since the change was proposed. Review the updated diff and decide again.`);
+        }
+
+        const operations: FileOperation[] = [];
+        for (const change of changes) {
+            const accepted = change.hunks.filter(hunk => hunk.status === 'accepted').length;
+            if (accepted === 0) {
+                this.logger.log(`Rejected change to ${change.path}`, { type: 'info' });
+            } else if (change.type === 'delete') {
+                operations.push({ type: 'delete', path: change.path });
+            } else {
+                operations.push({ type: change.type, path: change.path, content: this.compose(change) });
+                this.logger.log(`${change.path}: ${accepted}/${change.hunks.length} hunk(s) accepted`, { type: 'info' });
+            }
+        }
+
+        if (operations.length > 0) {
+            // A failed batch is rolled back, so the changes stay pending and can be retried
+            await this.checkpoints.apply(operations, this.getOrigin(changes));
+        }
+
+        changes.forEach(change => this.changes.delete(change.id));
+        this.fireChanges();
+    }
+
+    /**
+     * A batch keeps its changes' origin when they share one; otherwise it keeps what they
+     * have in common.
+     */
+    private getOrigin(changes: StagedChange[]): ChangeOrigin {
+        const [first] = changes;
+        if (changes.every(change => change.origin.label === first.origin.label && change.origin.planId === first.origin.planId)) {
+            return first.origin;
+        }
+
+        const planId = changes.every(change => change.origin.planId === first.origin.planId) ? first.origin.planId : undefined;
+        return { label: `${changes.length} accepted changes`, planId };
+    }
+
+    private decidePending(change: StagedChange, status: HunkStatus): void {
+        change.hunks.forEach(hunk => {
+            if (hunk.status === 'pending') {
+                hunk.status = status;
+            }
+        });
+    }
+
+    private computeHunks(original: string, proposed: string): StagedHunk[] {
+        const hunks: StagedHunk[] = [];
+        let oldLine = 1;
+        let newLine = 1;
+        let current: StagedHunk | null = null;
+
+        for (const part of diffLines(original, proposed)) {
+            const count = part.count || 0;
+            if (!part.added && !part.removed) {
+                current = null;
+                oldLine += count;
+                newLine += count;
+                continue;
+            }
+
+            if (!current) {
+                current = { index: hunks.length, oldStart: oldLine, newStart: newLine, removed: '', added: '', status: 'pending' };
+                hunks.push(current);
+            }
+            if (part.removed) {
+                current.removed += part.value;
+                oldLine += count;
+            } else {
+                current.added += part.value;
+                newLine += count;
+            }
+        }
+
+        return hunks;
+    }
+
+    /**
+     * Rebuilds the file from the original, taking the proposed text only for accepted hunks.
+     * The diff is recomputed the same way as in computeHunks, so hunk indices line up.
+     */
+    private compose(change: StagedChange): string {
+        let result = '';
+        let index = -1;
+        let inHunk = false;
+
+        for (const part of diffLines(change.original, change.proposed)) {
+            if (!part.added && !part.removed) {
+                inHunk = false;
+                result += part.value;
+                continue;
+            }
+            if (!inHunk) {
+                inHunk = true;
+                index++;
+            }
+
+            const accepted = change.hunks[index]?.status === 'accepted';
+            if ((part.added && accepted) || (part.removed && !accepted)) {
+                result += part.value;
+            }
+        }
+
+        return result;
+    }
+
+    private getUri(change: StagedChange, side: 'original' | 'proposed'): vscode.Uri {
+        return vscode.Uri.from({
+            scheme: StagedChangeManager.SCHEME,
+            path: `/${change.path}`,
+            query: `id=${change.id}&side=${side}`
+        });
+    }
+
+    private findByPath(relativePath: string): StagedChange | undefined {
+        const normalized = path.normalize(relativePath);
+        return this.list().find(change => path.normalize(change.path) === normalized);
+    }
+
+    private require(id: string): StagedChange {
+        const change = this.changes.get(id);
+        if (!change) {
+            throw new Error('This change is no longer pending');
+        }
+        return change;
+    }
+
+    private resolve(relativePath: string): string {
+        return assertWritable(relativePath, this.workspaceRoot);
+    }
+
+    private async readCurrent(fullPath: string): Promise<string> {
+        try {
+            return await fs.promises.readFile(fullPath, 'utf-8');
+        } catch {
+            return '';
+        }
+    }
+
+    private fireChanges(): void {
+        this.changesEmitter.fire(this.list());
+    }
+}
@@ -0,0 +1,142 @@
+import { ChatMessage, ContextAttachment, TaskPlan, TaskStep } from '../interfaces/types';
+import { CHAT_PROMPT, SYSTEM_PROMPT } from '../constants/prompts';
+import { ContextManager } from './ContextManager';
+import { countTokens } from '../utils/tokenizer';
+import { formatCommandResult } from './TerminalRunner';
+
+// Sections that would be cut below this size are dropped instead of truncated
+const MIN_SECTION_TOKENS = 200;
+const TRUNCATION_MARKER = '\n[... truncated to fit the context budget]';
+// Share of the budget left after dependency results that context files may use
+const FILE_SHARE = 0.7;
+
+/**
+ * Assembles the prompt for a plan step: the system prompt, results of the steps it depends
+ * on, the context files, earlier chat turns and results of the other completed steps, in
+ * that order of priority, within a token budget. Questions asked in the chat get the same
+ * treatment without the plan.
+ */
+export class StepContextBuilder {
+    constructor(private readonly contextManager: ContextManager) {}
+
+    public async build(plan: TaskPlan, step: TaskStep, history: ChatMessage[], tokenBudget: number, model: string): Promise<ChatMessage[]> {
+        // Content mentioned in the request comes first; the user pointed at it explicitly
+        const required = [...(plan.attachments || [])];
+        for (const dependency of step.dependencies) {
+            const result = plan.steps[dependency] && this.describeResult(plan.steps[dependency]);
+            if (result) {
+                required.push({ title: `Result of step ${dependency + 1} (required by this step)`, content: result });
+            }
+        }
+        const others = plan.steps
+            .filter(other => other.id !== step.id && other.status === 'completed' && other.response && !step.dependencies.includes(other.id))
+            .map(other => ({ title: `Result of step ${other.id + 1}`, content: this.describeResult(other) }));
+
+        return this.assemble(SYSTEM_PROMPT, this.buildInstruction(plan, step), `${plan.request}\n${step.description}`, required, others, history, tokenBudget, model);
+    }
+
+    /**
+     * The prompt for a question answered without a plan. Attachments, such as the code the
+     * question is about, are sent with the question rather than competing for the budget.
+     */
+    public async buildQuestion(question: string, attachments: ContextAttachment[], history: ChatMessage[], tokenBudget: number, model: string): Promise<ChatMessage[]> {
+        const instruction = attachments.length > 0 ? `${question}\n\n${formatAttachments(attachments)}` : question;
+        return this.assemble(CHAT_PROMPT, instruction, question, [], [], history, tokenBudget, model);
+    }
+
+    private async assemble(
+        systemPrompt: string,
+        instruction: string,
+        query: string,
+        required: ContextAttachment[],
+        optional: ContextAttachment[],
+        history: ChatMessage[],
+        tokenBudget: number,
+        model: string
+    ): Promise<ChatMessage[]> {
+        let remaining = tokenBudget - countTokens(systemPrompt, model) - countTokens(instruction, model);
+        const sections: string[] = [];
+        const omitted: string[] = [];
+
+        const addSection = ({ title, content }: ContextAttachment) => {
+            const text = `### ${title}\n${content}`;
+            const tokens = countTokens(text, model);
+            if (tokens <= remaining) {
+                sections.push(text);
+                remaining -= tokens;
+            } else if (remaining >= MIN_SECTION_TOKENS) {
+                // Cut by characters, scaled from the measured ratio, then re-measure what was kept
+                const kept = text.slice(0, Math.floor(text.length * remaining / tokens) - TRUNCATION_MARKER.length) + TRUNCATION_MARKER;
+                sections.push(kept);
+                remaining = Math.max(0, remaining - countTokens(kept, model));
+            } else {
+                omitted.push(title);
+            }
+        };
+
+        required.forEach(addSection);
+
+        const packed = await this.contextManager.packContext(query, Math.max(0, Math.floor(remaining * FILE_SHARE)), model);
+        for (const file of packed.files) {
+            if (file.mode === 'omitted') {
+                omitted.push(file.path);
+                continue;
+            }
+            const note = file.mode === 'full' ? '' : ` (${file.mode === 'chunks' ? 'relevant parts' : 'outline'})`;
+            addSection({ title: `File: ${file.path}${note}`, content: file.content });
+        }
+
+        // The most recent turns matter most, so history is filled from the end
+        const historyMessages: ChatMessage[] = [];
+        for (const message of [...history].reverse()) {
+            const tokens = countTokens(message.content, model);
+            if (tokens > remaining) {
+                omitted.push(`${history.length - historyMessages.length} earlier chat message(s)`);
+                break;
+            }
+            historyMessages.unshift(message);
+            remaining -= tokens;
+        }
+
+        optional.forEach(addSection);
+
+        let system = systemPrompt;
+        if (sections.length > 0) {
+            system += `\n\nWorkspace Context:\n\n${sections.join('\n\n')}`;
+        }
+        if (omitted.length > 0) {
+            system += `\n\nLeft out to fit the context budget: ${omitted.join(', ')}`;
+        }
+
+        return [
+            { role: 'system', content: system },
+            ...historyMessages,
+            { role: 'user', content: instruction }
+        ];
+    }
+
+    /**
+     * The step's response followed by the output of the commands it ran.
+     */
+    private describeResult(step: TaskStep): string {
+        const commands = (step.commandResults || []).map(result => formatCommandResult(result));
+        return [step.response || '', ...commands.map(command => `Command output:\n${command}`)].filter(Boolean).join('\n\n');
+    }
+
+    private buildInstruction(plan: TaskPlan, step: TaskStep): string {
+        const overview = plan.steps
+            .map(other => `${other.id + 1}. [${other.status}] ${other.description}`)
+            .join('\n');
+
+        return `Request: ${plan.request}\n\nPlan:\n${overview}\n\n` +
+            `Current step (${step.id + 1}/${plan.totalSteps}): ${step.description}\n\n` +
+            'Provide the necessary code, file operations, or commands to complete this specific step.';
+    }
+}
+
+/**
+ * Attachments as prompt sections, laid out like the workspace context.
+ */
+export function formatAttachments(attachments: ContextAttachment[]): string {
+    return attachments.map(attachment => `### ${attachment.title}\n${attachment.content}`).join('\n\n');
+}
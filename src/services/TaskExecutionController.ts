@@ -0,0 +1,58 @@
+export type InterruptReason = 'stopped' | 'paused';
+
+export class TaskInterruptedError extends Error {
+    constructor(public readonly reason: InterruptReason) {
+        super(reason === 'paused' ? 'Task execution paused' : 'Task execution stopped');
+        this.name = 'TaskInterruptedError';
+    }
+}
+
+/**
+ * Owns the abort signal shared by every AI request and child process of a running
+ * task plan, and records whether the user stopped or paused it.
+ */
+export class TaskExecutionController {
+    private readonly abortController = new AbortController();
+    private interruptReason: InterruptReason | null = null;
+
+    public get signal(): AbortSignal {
+        return this.abortController.signal;
+    }
+
+    public get reason(): InterruptReason | null {
+        return this.interruptReason;
+    }
+
+    public stop(): void {
+        this.interrupt('stopped');
+    }
+
+    public pause(): void {
+        this.interrupt('paused');
+    }
+
+    public throwIfInterrupted(): void {
+        if (this.interruptReason) {
+            throw new TaskInterruptedError(this.interruptReason);
+        }
+    }
+
+    public async delay(ms: number): Promise<void> {
+        await new Promise<void>(resolve => {
+            const timer = setTimeout(resolve, ms);
+            this.signal.addEventListener('abort', () => {
+                clearTimeout(timer);
+                resolve();
+            }, { once: true });
+        });
+        this.throwIfInterrupted();
+    }
+
+    private interrupt(reason: InterruptReason): void {
+        if (this.interruptReason) {
+            return;
+        }
+        this.interruptReason = reason;
+        this.abortController.abort();
+    }
+}
@@ -0,0 +1,41 @@
+import * as vscode from 'vscode';
+import { TaskPlan } from '../interfaces/types';
+
+/**
+ * Persists task plans in workspace storage so progress survives a window reload.
+ */
+export class TaskPlanStore {
+    private static readonly STORAGE_KEY = 'falalo.taskPlans';
+    private static readonly MAX_PLANS = 50;
+
+    constructor(private readonly storage: vscode.Memento) {}
+
+    public list(): TaskPlan[] {
+        const plans = this.storage.get<TaskPlan[]>(TaskPlanStore.STORAGE_KEY, []);
+        return [...plans].sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+    }
+
+    public listUnfinished(): TaskPlan[] {
+        return this.list().filter(plan => plan.steps.some(step => step.status !== 'completed'));
+    }
+
+    public get(id: string): TaskPlan | undefined {
+        return this.list().find(plan => plan.id === id);
+    }
+
+    public async save(plan: TaskPlan): Promise<void> {
+        plan.updatedAt = new Date().toISOString();
+
+        // Store a detached copy so later in-memory mutations don't leak into the saved state
+        const snapshot: TaskPlan = JSON.parse(JSON.stringify(plan));
+        const plans = this.list().filter(existing => existing.id !== plan.id);
+        plans.unshift(snapshot);
+
+        await this.storage.update(TaskPlanStore.STORAGE_KEY, plans.slice(0, TaskPlanStore.MAX_PLANS));
+    }
+
+    public async delete(id: string): Promise<void> {
+        const plans = this.list().filter(plan => plan.id !== id);
+        await this.storage.update(TaskPlanStore.STORAGE_KEY, plans);
+    }
+}
@@ -0,0 +1,206 @@
+import * as vscode from 'vscode';
+import { ChildProcess, spawn } from 'child_process';
+import { randomUUID } from 'crypto';
+import { CommandRunResult } from '../interfaces/types';
+import { LogManager } from '../logManager';
+
+// Only the end of the output is kept for the chat and the model; the terminal shows all of it
+const MAX_CAPTURED_OUTPUT = 20000;
+const KILL_GRACE_MS = 3000;
+const ANSI_ESCAPE = /\x1b\[[0-9;?]*[A-Za-z]|\x1b\][^\x07]*\x07/g;
+
+export interface TerminalRunOptions {
+    cwd: string;
+    // Aborting kills the process
+    signal?: AbortSignal;
+    // Overrides falalo.commandTimeout, in milliseconds; 0 disables the timeout
+    timeoutMs?: number;
+    // Background commands (dev servers, watchers) have no timeout and keep running
+    background?: boolean;
+    onOutput?: (text: string) => void;
+}
+
+export interface RunningCommand {
+    id: string;
+    command: string;
+    result: Promise<CommandRunResult>;
+}
+
+/**
+ * Runs AI-issued commands with their output streamed to a "Falalo" pseudo-terminal and to
+ * the caller as it arrives. Commands can be killed from the terminal with Ctrl+C, through
+ * an abort signal or by id.
+ */
+export class TerminalRunner implements vscode.Disposable {
+    private terminal?: vscode.Terminal;
+    private terminalOpen = false;
+    private pendingWrites = '';
+    private readonly writeEmitter = new vscode.EventEmitter<string>();
+    private readonly running = new Map<string, { process: ChildProcess; killed: boolean }>();
+    private readonly logger = LogManager.getInstance();
+
+    public run(command: string, options: TerminalRunOptions): RunningCommand {
+        const id = randomUUID();
+        const started = Date.now();
+        const timeoutMs = options.background
+            ? 0
+            : options.timeoutMs ?? vscode.workspace.getConfiguration('falalo').get<number>('commandTimeout', 600) * 1000;
+
+        this.showTerminal();
+        this.write(`\x1b[1m$ ${command}\x1b[0m \x1b[2m(${options.cwd})\x1b[0m\r\n`);
+        this.logger.log(`Running command: ${command}`, { type: 'info' });
+
+        const child = spawn(command, {
+            cwd: options.cwd,
+            env: process.env,
+            shell: true,
+            stdio: ['ignore', 'pipe', 'pipe'],
+            // Its own process group on POSIX, so the whole tree can be killed
+            detached: process.platform !== 'win32'
+        });
+        const entry = { process: child, killed: false };
+        this.running.set(id, entry);
+
+        const result = new Promise<CommandRunResult>(resolve => {
+            let output = '';
+            let timedOut = false;
+            let timer: NodeJS.Timeout | undefined;
+
+            const onData = (data: Buffer) => {
+                const text = data.toString();
+                this.write(text.replace(/\r?\n/g, '\r\n'));
+                output = (output + text.replace(ANSI_ESCAPE, '')).slice(-MAX_CAPTURED_OUTPUT);
+                options.onOutput?.(text.replace(ANSI_ESCAPE, ''));
+            };
+            child.stdout?.on('data', onData);
+            child.stderr?.on('data', onData);
+
+            const onAbort = () => this.kill(id);
+            options.signal?.addEventListener('abort', onAbort, { once: true });
+            if (timeoutMs > 0) {
+                timer = setTimeout(() => {
+                    timedOut = true;
+                    this.kill(id);
+                }, timeoutMs);
+            }
+
+            let settled = false;
+            const finish = (exitCode: number | null, error?: Error) => {
+                if (settled) {
+                    return;
+                }
+                settled = true;
+                clearTimeout(timer);
+                options.signal?.removeEventListener('abort', onAbort);
+                this.running.delete(id);
+
+                if (error) {
+                    output += `\n${error.message}`;
+                }
+                const durationMs = Date.now() - started;
+                const status = timedOut
+                    ? `timed out after ${Math.round(timeoutMs / 1000)}s`
+                    : entry.killed ? 'killed' : `exit code ${exitCode}`;
+                const color = exitCode === 0 ? '32' : '31';
+                this.write(`\x1b[${color}m[${status} in ${(durationMs / 1000).toFixed(1)}s]\x1b[0m\r\n\r\n`);
+                this.logger.log(`Command finished (${status}): ${command}`, { type: exitCode === 0 ? 'info' : 'error' });
+
+                resolve({ command, cwd: options.cwd, exitCode, timedOut, killed: entry.killed, output, durationMs });
+            };
+            child.on('error', error => finish(null, error));
+            child.on('close', code => finish(code));
+        });
+
+        return { id, command, result };
+    }
+
+    public kill(id: string): void {
+        const entry = this.running.get(id);
+        if (!entry || entry.killed) {
+            return;
+        }
+        entry.killed = true;
+
+        const pid = entry.process.pid;
+        if (pid === undefined) {
+            return;
+        }
+        if (process.platform === 'win32') {
+            spawn('taskkill', ['/pid', String(pid), '/T', '/F']);
+            return;
+        }
+
+        try {
+            process.kill(-pid, 'SIGTERM');
+        } catch {
+            // Already gone
+        }
+        setTimeout(() => {
+            if (this.running.has(id)) {
+                try {
+                    process.kill(-pid, 'SIGKILL');
+                } catch {
+                    // Already gone
+                }
+            }
+        }, KILL_GRACE_MS);
+    }
+
+    public killAll(): void {
+        Array.from(this.running.keys()).forEach(id => this.kill(id));
+    }
+
+    public get runningCount(): number {
+        return this.running.size;
+    }
+
+    public dispose(): void {
+        this.killAll();
+        this.terminal?.dispose();
+        this.writeEmitter.dispose();
+    }
+
+    private showTerminal(): void {
+        if (!this.terminal) {
+            const pty: vscode.Pseudoterminal = {
+                onDidWrite: this.writeEmitter.event,
+                open: () => {
+                    this.terminalOpen = true;
+                    this.writeEmitter.fire(this.pendingWrites);
+                    this.pendingWrites = '';
+                },
+                close: () => {
+                    this.terminal = undefined;
+                    this.terminalOpen = false;
+                },
+                handleInput: data => {
+                    if (data === '\x03') {
+                        this.write('^C\r\n');
+                        this.killAll();
+                    }
+                }
+            };
+            this.terminal = vscode.window.createTerminal({ name: 'Falalo', pty });
+        }
+        this.terminal.show(true);
+    }
+
+    private write(text: string): void {
+        if (this.terminalOpen) {
+            this.writeEmitter.fire(text);
+        } else {
+            this.pendingWrites = (this.pendingWrites + text).slice(-MAX_CAPTURED_OUTPUT);
+        }
+    }
+}
+
+/**
+ * A command result as the model should see it.
+ */
+export function formatCommandResult(result: CommandRunResult, maxLength: number = 4000): string {
+    const status = result.denied ? 'not run' : result.timedOut ? 'timed out' : result.killed ? 'killed' : `exit code ${result.exitCode}`;
+    const output = result.output.length > maxLength
+        ? `[... ${result.output.length - maxLength} earlier characters omitted]\n${result.output.slice(-maxLength)}`
+        : result.output;
+    return `$ ${result.command} (${status})\n${output.trim() || '(no output)'}`;
+}
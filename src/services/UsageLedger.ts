@@ -0,0 +1,281 @@
+import * as vscode from 'vscode';
+import {
+    BudgetScope,
+    ChatRequest,
+    ChatResponse,
+    ChatUsage,
+    EmbeddingRequest,
+    EmbeddingResponse,
+    LLMProvider,
+    ModelPrice,
+    StreamCallback,
+    TokenUsage,
+    UsagePeriod,
+    UsageTag,
+    UsageTotals
+} from '../interfaces/types';
+import { MODEL_PRICES } from '../constants/modelConfig';
+import { LogManager } from '../logManager';
+import { dayKey, emptyTotals, UsageStore } from './UsageStore';
+
+const DAILY_STORAGE_KEY = 'falalo.usage.daily';
+const WORKSPACE_STORAGE_KEY = 'falalo.usage.workspace';
+const DAILY_RETENTION_DAYS = 90;
+
+export class BudgetExceededError extends Error {
+    constructor(
+        public readonly scope: BudgetScope,
+        public readonly limit: number,
+        public readonly spent: number,
+        public readonly hard: boolean
+    ) {
+        super(`${scope === 'daily' ? 'Daily' : 'Workspace'} ${hard ? 'hard' : 'soft'} budget of ${formatCost(limit)} reached (${formatCost(spent)} spent)`);
+        this.name = 'BudgetExceededError';
+    }
+}
+
+interface Budget {
+    scope: BudgetScope;
+    // Identifies the period, so a soft limit acknowledged today is asked about again tomorrow
+    period: string;
+    spent: number;
+    soft: number;
+    hard: number;
+}
+
+/**
+ * Records the tokens and cost of every model call. Daily totals are kept across workspaces
+ * and the workspace total for the life of the workspace. Before each call the configured
+ * budgets are checked: past the soft limit the user is asked once per period whether to
+ * continue, past the hard limit calls are refused until the limit is raised.
+ */
+export class UsageLedger implements vscode.Disposable {
+    private readonly logger = LogManager.getInstance();
+    private readonly changeEmitter = new vscode.EventEmitter<void>();
+    private session: UsagePeriod = emptyPeriod();
+    private readonly acknowledged = new Set<string>();
+    private readonly unpricedModels = new Set<string>();
+    private budgetCheck?: Promise<void>;
+
+    public readonly onDidChange = this.changeEmitter.event;
+
+    constructor(
+        private readonly globalState: vscode.Memento,
+        private readonly workspaceState: vscode.Memento,
+        private readonly store: UsageStore
+    ) {}
+
+    /**
+     * Wraps a provider so its calls are checked against the budgets and recorded.
+     */
+    public meter(provider: LLMProvider): LLMProvider {
+        const ledger = this;
+        return {
+            type: provider.type,
+            capabilities: provider.capabilities,
+            async complete(request: ChatRequest): Promise<ChatResponse> {
+                await ledger.checkBudget();
+                return ledger.recordResponse(request, await provider.complete(request));
+            },
+            async stream(request: ChatRequest, onDelta: StreamCallback): Promise<ChatResponse> {
+                await ledger.checkBudget();
+                return ledger.recordResponse(request, await provider.stream(request, onDelta));
+            },
+            embed: provider.embed && (async (request: EmbeddingRequest) => {
+                await ledger.checkBudget();
+                return ledger.recordResponse(request, await provider.embed!(request));
+            })
+        };
+    }
+
+    /**
+     * Adds a call to the session, daily and workspace totals and the usage store, and
+     * returns its cost.
+     */
+    public async record(model: string, usage: ChatUsage, tag: UsageTag = { feature: 'other' }): Promise<number> {
+        const price = this.getPrice(model);
+        if (!price && !this.unpricedModels.has(model)) {
+            this.unpricedModels.add(model);
+            this.logger.log(`No price known for model ${model}; its calls are counted as free. Add it to falalo.modelPrices`, { type: 'error' });
+        }
+        const cost = price ? calculateCost(usage, price) : 0;
+
+        addUsage(this.session, model, usage, cost);
+
+        const daily = this.globalState.get<Record<string, UsagePeriod>>(DAILY_STORAGE_KEY, {});
+        const today = dayKey(new Date());
+        daily[today] = addUsage(daily[today] || emptyPeriod(), model, usage, cost);
+        const oldest = dayKey(new Date(Date.now() - DAILY_RETENTION_DAYS * 24 * 60 * 60 * 1000));
+        for (const day of Object.keys(daily).filter(day => day < oldest)) {
+            delete daily[day];
+        }
+
+        await Promise.all([
+            this.globalState.update(DAILY_STORAGE_KEY, daily),
+            this.workspaceState.update(WORKSPACE_STORAGE_KEY, addUsage(this.getWorkspaceUsage(), model, usage, cost)),
+            this.store.append({
+                timestamp: new Date().toISOString(),
+                workspace: getWorkspaceName(),
+                model,
+                feature: tag.feature,
+                planId: tag.planId,
+                inputTokens: usage.promptTokens,
+                cachedInputTokens: usage.cachedTokens,
+                outputTokens: usage.completionTokens,
+                reasoningTokens: usage.reasoningTokens,
+                cost
+            })
+        ]);
+        this.changeEmitter.fire();
+        return cost;
+    }
+
+    /**
+     * Usage since the extension was activated, in the shape the chat view displays.
+     */
+    public getSessionUsage(): TokenUsage {
+        return {
+            prompt_tokens: this.session.inputTokens,
+            completion_tokens: this.session.outputTokens,
+            total_tokens: this.session.inputTokens + this.session.outputTokens,
+            inputTokens: this.session.inputTokens,
+            outputTokens: this.session.outputTokens,
+            cachedInputTokens: this.session.cachedInputTokens,
+            cost: this.session.cost
+        };
+    }
+
+    public getDailyUsage(day = dayKey(new Date())): UsagePeriod {
+        return this.globalState.get<Record<string, UsagePeriod>>(DAILY_STORAGE_KEY, {})[day] || emptyPeriod();
+    }
+
+    public getWorkspaceUsage(): UsagePeriod {
+        return this.workspaceState.get<UsagePeriod>(WORKSPACE_STORAGE_KEY) || emptyPeriod();
+    }
+
+    /**
+     * Resolves when a call may go ahead and throws BudgetExceededError when it may not.
+     * Concurrent calls share one check, so parallel steps don't stack up prompts.
+     */
+    public checkBudget(): Promise<void> {
+        if (!this.budgetCheck) {
+            this.budgetCheck = this.promptIfOverBudget().finally(() => {
+                this.budgetCheck = undefined;
+            });
+        }
+        return this.budgetCheck;
+    }
+
+    public dispose(): void {
+        this.changeEmitter.dispose();
+    }
+
+    private async promptIfOverBudget(): Promise<void> {
+        for (const budget of this.getBudgets()) {
+            const label = budget.scope === 'daily' ? 'today' : 'in this workspace';
+
+            if (budget.hard > 0 && budget.spent >= budget.hard) {
+                const choice = await vscode.window.showErrorMessage(
+                    `Falalo has spent ${formatCost(budget.spent)} ${label}, reaching the hard budget of ${formatCost(budget.hard)}. AI requests are paused until the limit is raised.`,
+                    { modal: true },
+                    'Open Settings'
+                );
+                if (choice) {
+                    vscode.commands.executeCommand('workbench.action.openSettings', `falalo.${budget.scope}BudgetHardLimit`);
+                }
+                throw new BudgetExceededError(budget.scope, budget.hard, budget.spent, true);
+            }
+
+            const key = `${budget.scope}:${budget.period}`;
+            if (budget.soft > 0 && budget.spent >= budget.soft && !this.acknowledged.has(key)) {
+                const choice = await vscode.window.showWarningMessage(
+                    `Falalo has spent ${formatCost(budget.spent)} ${label}, over the soft budget of ${formatCost(budget.soft)}. Continue?`,
+                    { modal: true },
+                    'Continue'
+                );
+                if (choice !== 'Continue') {
+                    throw new BudgetExceededError(budget.scope, budget.soft, budget.spent, false);
+                }
+                this.acknowledged.add(key);
+            }
+        }
+    }
+
+    private getBudgets(): Budget[] {
+        const config = vscode.workspace.getConfiguration('falalo');
+        return [
+            {
+                scope: 'daily',
+                period: dayKey(new Date()),
+                spent: this.getDailyUsage().cost,
+                soft: config.get<number>('dailyBudgetSoftLimit', 0),
+                hard: config.get<number>('dailyBudgetHardLimit', 0)
+            },
+            {
+                scope: 'workspace',
+                period: 'all',
+                spent: this.getWorkspaceUsage().cost,
+                soft: config.get<number>('workspaceBudgetSoftLimit', 0),
+                hard: config.get<number>('workspaceBudgetHardLimit', 0)
+            }
+        ];
+    }
+
+    private getPrice(model: string): ModelPrice | undefined {
+        const prices = { ...MODEL_PRICES, ...vscode.workspace.getConfiguration('falalo').get<Record<string, ModelPrice>>('modelPrices', {}) };
+        const match = Object.keys(prices)
+            .filter(name => model === name || model.startsWith(`${name}-`))
+            .sort((a, b) => b.length - a.length)[0];
+        return match ? prices[match] : undefined;
+    }
+
+    private async recordResponse<T extends ChatResponse | EmbeddingResponse>(request: ChatRequest | EmbeddingRequest, response: T): Promise<T> {
+        if (response.usage) {
+            try {
+                await this.record(response.model || request.model, response.usage, request.usageTag);
+            } catch (error) {
+                this.logger.logError(error, 'Failed to record model usage');
+            }
+        }
+        return response;
+    }
+}
+
+/**
+ * Cached input is billed at its own rate; reasoning tokens are part of the output tokens
+ * and billed with them.
+ */
+export function calculateCost(usage: ChatUsage, price: ModelPrice): number {
+    const cached = Math.min(usage.cachedTokens, usage.promptTokens);
+    return ((usage.promptTokens - cached) * price.input +
+        cached * (price.cachedInput ?? price.input) +
+        usage.completionTokens * price.output) / 1_000_000;
+}
+
+export function formatCost(cost: number): string {
+    return `$${cost.toFixed(cost < 1 ? 4 : 2)}`;
+}
+
+function addUsage(period: UsagePeriod, model: string, usage: ChatUsage, cost: number): UsagePeriod {
+    addTotals(period, usage, cost);
+    period.byModel[model] = addTotals(period.byModel[model] || emptyTotals(), usage, cost);
+    return period;
+}
+
+function addTotals(totals: UsageTotals, usage: ChatUsage, cost: number): UsageTotals {
+    totals.calls++;
+    totals.inputTokens += usage.promptTokens;
+    totals.cachedInputTokens += usage.cachedTokens;
+    totals.outputTokens += usage.completionTokens;
+    totals.reasoningTokens += usage.reasoningTokens;
+    totals.cost += cost;
+    return totals;
+}
+
+function emptyPeriod(): UsagePeriod {
+    return { ...emptyTotals(), byModel: {} };
+}
+
+export function getWorkspaceName(): string {
+    return vscode.workspace.name || 'No workspace';
+}
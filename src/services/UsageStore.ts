@@ -0,0 +1,163 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { UsageRecord, UsageTotals } from '../interfaces/types';
+import { LogManager } from '../logManager';
+
+// Long enough to compare a month with the same month last year
+const RETENTION_DAYS = 400;
+
+export interface UsageQuery {
+    since?: Date;
+    until?: Date;
+    workspace?: string;
+}
+
+export interface UsageSummary {
+    totals: UsageTotals;
+    // Every day in the range, oldest first, with its cost per model
+    byDay: { day: string; cost: number; byModel: Record<string, number> }[];
+    byModel: Record<string, UsageTotals>;
+    byFeature: Record<string, UsageTotals>;
+    // Keyed by plan id; calls outside a task plan are under ''
+    byPlan: Record<string, UsageTotals>;
+}
+
+/**
+ * Keeps one record per model call in a JSON Lines file in global storage, shared by all
+ * workspaces, for the usage dashboard and cost exports. Records older than RETENTION_DAYS
+ * are dropped when the store is loaded.
+ */
+export class UsageStore {
+    private records: UsageRecord[] = [];
+    private writes: Promise<void> = Promise.resolve();
+    private readonly logger = LogManager.getInstance();
+    private readonly filePath: string;
+
+    constructor(storageDir: string) {
+        this.filePath = path.join(storageDir, 'usage.jsonl');
+    }
+
+    /**
+     * Reads the file again, picking up calls recorded by other windows since.
+     */
+    public async load(): Promise<void> {
+        await this.writes;
+        let content = '';
+        try {
+            content = await fs.promises.readFile(this.filePath, 'utf-8');
+        } catch (error: any) {
+            if (error?.code !== 'ENOENT') {
+                this.logger.logError(error, 'Failed to read usage records');
+            }
+        }
+
+        const oldest = new Date(Date.now() - RETENTION_DAYS * 24 * 60 * 60 * 1000).toISOString();
+        const lines = content.split('\n').filter(line => line.trim());
+        this.records = lines.flatMap(line => {
+            try {
+                const record: UsageRecord = JSON.parse(line);
+                return record.timestamp >= oldest ? [record] : [];
+            } catch {
+                return [];
+            }
+        });
+
+        if (this.records.length < lines.length) {
+            this.writes = fs.promises.writeFile(this.filePath, this.records.map(record => `${JSON.stringify(record)}\n`).join(''))
+                .catch(error => this.logger.logError(error, 'Failed to prune usage records'));
+        }
+    }
+
+    public append(record: UsageRecord): Promise<void> {
+        this.records.push(record);
+        // Appends are queued so concurrent calls don't interleave their lines
+        this.writes = this.writes
+            .then(async () => {
+                await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+                await fs.promises.appendFile(this.filePath, `${JSON.stringify(record)}\n`);
+            })
+            .catch(error => this.logger.logError(error, 'Failed to save usage record'));
+        return this.writes;
+    }
+
+    /**
+     * Oldest first.
+     */
+    public query(query: UsageQuery = {}): UsageRecord[] {
+        const since = query.since?.toISOString();
+        const until = query.until?.toISOString();
+        return this.records.filter(record =>
+            (!since || record.timestamp >= since) &&
+            (!until || record.timestamp < until) &&
+            (!query.workspace || record.workspace === query.workspace));
+    }
+}
+
+export function summarizeUsage(records: UsageRecord[], since?: Date, until = new Date()): UsageSummary {
+    const summary: UsageSummary = { totals: emptyTotals(), byDay: [], byModel: {}, byFeature: {}, byPlan: {} };
+    const days = new Map<string, UsageSummary['byDay'][number]>();
+
+    // Days without calls are included so gaps show in the chart
+    const first = since || (records[0] ? new Date(records[0].timestamp) : until);
+    for (const day = new Date(first.getFullYear(), first.getMonth(), first.getDate()); day < until; day.setDate(day.getDate() + 1)) {
+        days.set(dayKey(day), { day: dayKey(day), cost: 0, byModel: {} });
+    }
+
+    for (const record of records) {
+        addRecord(summary.totals, record);
+        addRecord(summary.byModel[record.model] ??= emptyTotals(), record);
+        addRecord(summary.byFeature[record.feature] ??= emptyTotals(), record);
+        addRecord(summary.byPlan[record.planId || ''] ??= emptyTotals(), record);
+
+        const key = dayKey(new Date(record.timestamp));
+        const day = days.get(key) || { day: key, cost: 0, byModel: {} };
+        day.cost += record.cost;
+        day.byModel[record.model] = (day.byModel[record.model] || 0) + record.cost;
+        days.set(key, day);
+    }
+
+    summary.byDay = Array.from(days.values()).sort((a, b) => a.day.localeCompare(b.day));
+    return summary;
+}
+
+const CSV_COLUMNS: (keyof UsageRecord | 'plan')[] = [
+    'timestamp', 'workspace', 'model', 'feature', 'planId', 'plan',
+    'inputTokens', 'cachedInputTokens', 'outputTokens', 'reasoningTokens', 'cost'
+];
+
+/**
+ * planLabels maps plan ids to the request that started them, for readers of the export.
+ */
+export function formatUsageCsv(records: UsageRecord[], planLabels: Record<string, string>): string {
+    const rows = records.map(record => CSV_COLUMNS.map(column => {
+        const value = column === 'plan' ? planLabels[record.planId || ''] : record[column];
+        return csvField(value === undefined ? '' : String(value));
+    }).join(','));
+    return `${CSV_COLUMNS.join(',')}\n${rows.join('\n')}\n`;
+}
+
+export function emptyTotals(): UsageTotals {
+    return { calls: 0, inputTokens: 0, cachedInputTokens: 0, outputTokens: 0, reasoningTokens: 0, cost: 0 };
+}
+
+// Local calendar day, so "today" matches the user's clock
+export function dayKey(date: Date): string {
+    return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+}
+
+function addRecord(totals: UsageTotals, record: UsageRecord): void {
+    totals.calls++;
+    totals.inputTokens += record.inputTokens;
+    totals.cachedInputTokens += record.cachedInputTokens;
+    totals.outputTokens += record.outputTokens;
+    totals.reasoningTokens += record.reasoningTokens;
+    totals.cost += record.cost;
+}
+
+function csvField(value: string): string {
+    // Spreadsheets would run text such as plan requests starting with = as a formula
+    if (/^[=+@]|^-\D/.test(value)) {
+        value = `'${value}`;
+    }
+    return /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
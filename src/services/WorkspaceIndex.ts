@@ -0,0 +1,458 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import * as fs from 'fs';
+import minimatch from 'minimatch';
+import { AutoContextResult, LLMProvider, RelevantFile } from '../interfaces/types';
+import { DEFAULT_EXCLUSIONS } from '../constants/prompts';
+import { DEFAULT_EXCLUSIONS as IGNORED_FOLDERS } from '../constants/config';
+import { LogManager } from '../logManager';
+import { ContextPacker } from './ContextPacker';
+
+const INDEX_VERSION = 1;
+const INDEX_FILE = 'workspace-index.json';
+const MAX_FILE_SIZE = 200000; // 200KB
+const MAX_FILES = 5000;
+const EMBEDDING_BATCH_SIZE = 64;
+const EMBEDDING_INPUT_CHARS = 6000;
+const REBUILD_DELAY = 5000;
+
+// BM25 parameters
+const K1 = 1.2;
+const B = 0.75;
+
+interface IndexedChunk {
+    startLine: number;
+    endLine: number;
+    length: number;
+    terms: Record<string, number>;
+    embedding?: number[];
+}
+
+interface IndexedFile {
+    mtimeMs: number;
+    chunks: IndexedChunk[];
+}
+
+interface IndexData {
+    version: number;
+    embeddingModel: string;
+    files: Record<string, IndexedFile>;
+}
+
+/**
+ * Splits code into lowercase search terms, breaking camelCase and snake_case identifiers
+ * apart so "getUserName" also matches "user name".
+ */
+export function tokenizeForSearch(text: string): string[] {
+    return (text.match(/[A-Za-z][A-Za-z0-9]*/g) || [])
+        .flatMap(word => word.split(/(?<=[a-z0-9])(?=[A-Z])|(?<=[A-Z])(?=[A-Z][a-z])/))
+        .map(term => term.toLowerCase())
+        .filter(term => term.length >= 2);
+}
+
+/**
+ * Incremental on-disk index of the workspace used to suggest context files for a request.
+ * Files are chunked at declaration boundaries and scored with BM25, which works offline;
+ * when an embedding model is configured and the provider supports it, chunk embeddings are
+ * blended in for semantic matches.
+ */
+export class WorkspaceIndex implements vscode.Disposable {
+    private data: IndexData = { version: INDEX_VERSION, embeddingModel: '', files: {} };
+    private documentFrequency: Map<string, number> | null = null;
+    private averageChunkLength = 0;
+    private chunkCount = 0;
+    private building: Promise<void> | null = null;
+    private rebuildTimer?: NodeJS.Timeout;
+    // Files reported by the watcher since the last update, as absolute paths
+    private readonly changedFiles = new Set<string>();
+    // Set until the first update, and when the watcher reports something only a full scan can sort out
+    private rescanNeeded = true;
+    private embeddingsUnavailable = false;
+    private readonly disposables: vscode.Disposable[] = [];
+    private readonly logger = LogManager.getInstance();
+    private readonly chunker = new ContextPacker('');
+
+    constructor(
+        private readonly storageDir: string,
+        private readonly workspaceRoot: string,
+        private readonly model: LLMProvider
+    ) {}
+
+    public async initialize(): Promise<void> {
+        await this.load();
+
+        const watcher = vscode.workspace.createFileSystemWatcher('**/*');
+        const fileChanged = (uri: vscode.Uri) => {
+            // Dependency and build folders change constantly and are never indexed
+            if (path.relative(this.workspaceRoot, uri.fsPath).split(path.sep).some(part => IGNORED_FOLDERS.includes(part))) {
+                return;
+            }
+            this.changedFiles.add(uri.fsPath);
+            this.scheduleUpdate();
+        };
+        this.disposables.push(
+            watcher,
+            watcher.onDidCreate(fileChanged),
+            watcher.onDidChange(fileChanged),
+            watcher.onDidDelete(fileChanged),
+            vscode.workspace.onDidChangeConfiguration(event => {
+                if (event.affectsConfiguration('falalo.embeddingModel')) {
+                    this.embeddingsUnavailable = false;
+                    this.scheduleUpdate();
+                }
+            })
+        );
+
+        // Building can take a while on large workspaces; don't hold up activation
+        this.build().catch(error => this.logger.logError(error, 'Workspace index'));
+    }
+
+    /**
+     * Brings the index up to date. Only files whose modification time changed are
+     * re-chunked; with force every file is indexed again.
+     */
+    public async build(force: boolean = false): Promise<void> {
+        if (force) {
+            this.rescanNeeded = true;
+        }
+        if (this.building) {
+            return this.building;
+        }
+        this.building = this.update(force).finally(() => {
+            this.building = null;
+            // Changes reported while updating are picked up by the next round
+            if (this.changedFiles.size > 0 || this.rescanNeeded) {
+                this.scheduleUpdate();
+            }
+        });
+        return this.building;
+    }
+
+    /**
+     * Ranks workspace files by relevance to the query and returns the best matches
+     * that aren't in the exclude list.
+     */
+    public async suggest(query: string, limit: number, exclude: string[] = []): Promise<AutoContextResult> {
+        const queryTerms = Array.from(new Set(tokenizeForSearch(query)));
+        const excluded = new Set(exclude.map(file => path.relative(this.workspaceRoot, file)));
+        const queryEmbedding = await this.embedQuery(query);
+
+        this.ensureStatistics();
+        const candidates: RelevantFile[] = [];
+
+        for (const [relativePath, file] of Object.entries(this.data.files)) {
+            if (excluded.has(relativePath)) {
+                continue;
+            }
+
+            let best: RelevantFile | null = null;
+            for (const chunk of file.chunks) {
+                const keywordScore = this.bm25(chunk, queryTerms);
+                // Saturate so a handful of strong term matches already reads as confident
+                let confidence = keywordScore / (keywordScore + queryTerms.length * 2 || 1);
+                if (queryEmbedding && chunk.embedding) {
+                    const similarity = this.cosine(queryEmbedding, chunk.embedding);
+                    // Embedding similarities for related text usually fall between 0.2 and 0.6
+                    const semantic = Math.min(1, Math.max(0, (similarity - 0.2) / 0.4));
+                    confidence = semantic * 0.6 + confidence * 0.4;
+                }
+                if (!best || confidence > best.confidence) {
+                    best = { path: relativePath, confidence, startLine: chunk.startLine, endLine: chunk.endLine };
+                }
+            }
+            if (best && best.confidence > 0) {
+                candidates.push(best);
+            }
+        }
+
+        const minConfidence = vscode.workspace.getConfiguration('falalo').get<number>('autoContextMinConfidence', 0.3);
+        const suggestions = candidates
+            .filter(candidate => candidate.confidence >= minConfidence)
+            .sort((a, b) => b.confidence - a.confidence)
+            .slice(0, limit)
+            .map(candidate => ({ ...candidate, confidence: Math.round(candidate.confidence * 100) / 100 }));
+
+        const method = queryEmbedding ? 'semantic and keyword search' : 'keyword search';
+        return {
+            relevantFiles: suggestions.map(suggestion => suggestion.path),
+            suggestions,
+            confidence: suggestions[0]?.confidence || 0,
+            summary: suggestions.length > 0
+                ? `Found ${suggestions.length} related file(s) using ${method}`
+                : `No related files found using ${method}`
+        };
+    }
+
+    public dispose(): void {
+        if (this.rebuildTimer) {
+            clearTimeout(this.rebuildTimer);
+        }
+        this.disposables.forEach(disposable => disposable.dispose());
+    }
+
+    private scheduleUpdate(): void {
+        if (this.rebuildTimer) {
+            clearTimeout(this.rebuildTimer);
+        }
+        this.rebuildTimer = setTimeout(() => this.build().catch(error => this.logger.logError(error, 'Workspace index')), REBUILD_DELAY);
+    }
+
+    private async update(force: boolean): Promise<void> {
+        const embeddingModel = this.getEmbeddingModel();
+        if (force || embeddingModel !== this.data.embeddingModel) {
+            this.data = { version: INDEX_VERSION, embeddingModel, files: force ? {} : this.stripEmbeddings(this.data.files) };
+        }
+
+        const changedFiles = Array.from(this.changedFiles);
+        this.changedFiles.clear();
+        let changed = this.rescanNeeded ? await this.scanWorkspace() : await this.updateFiles(changedFiles);
+
+        if (await this.embedMissingChunks()) {
+            changed = true;
+        }
+
+        if (changed) {
+            this.documentFrequency = null;
+            await this.save();
+            this.logger.log(`Workspace index updated: ${Object.keys(this.data.files).length} files`, { type: 'info' });
+        }
+    }
+
+    private async scanWorkspace(): Promise<boolean> {
+        this.rescanNeeded = false;
+        const exclude = `{${DEFAULT_EXCLUSIONS.join(',')}}`;
+        const uris = await vscode.workspace.findFiles('**/*', exclude, MAX_FILES);
+        const seen = new Set<string>();
+        let changed = false;
+
+        for (const uri of uris) {
+            const relativePath = path.relative(this.workspaceRoot, uri.fsPath);
+            seen.add(relativePath);
+            if (await this.indexFile(relativePath)) {
+                changed = true;
+            }
+        }
+
+        for (const relativePath of Object.keys(this.data.files)) {
+            if (!seen.has(relativePath)) {
+                delete this.data.files[relativePath];
+                changed = true;
+            }
+        }
+        return changed;
+    }
+
+    /**
+     * Updates just the files the watcher reported, so an edit doesn't rescan the workspace.
+     */
+    private async updateFiles(absolutePaths: string[]): Promise<boolean> {
+        let changed = false;
+        for (const absolutePath of absolutePaths) {
+            const relativePath = path.relative(this.workspaceRoot, absolutePath);
+            const stats = await fs.promises.stat(absolutePath).catch(() => undefined);
+
+            if (stats?.isDirectory()) {
+                // A folder created or moved in; its files aren't reported one by one
+                return (await this.scanWorkspace()) || changed;
+            }
+            if (!stats || this.isExcluded(relativePath)) {
+                // Deleting a folder reports only the folder
+                const prefix = `${relativePath}${path.sep}`;
+                for (const indexed of Object.keys(this.data.files).filter(file => file === relativePath || file.startsWith(prefix))) {
+                    delete this.data.files[indexed];
+                    changed = true;
+                }
+                continue;
+            }
+            if ((this.data.files[relativePath] || Object.keys(this.data.files).length < MAX_FILES) && await this.indexFile(relativePath)) {
+                changed = true;
+            }
+        }
+        return changed;
+    }
+
+    /**
+     * Re-chunks the file when it changed since it was indexed, and reports whether it did.
+     */
+    private async indexFile(relativePath: string): Promise<boolean> {
+        const absolutePath = path.join(this.workspaceRoot, relativePath);
+        try {
+            const stats = await fs.promises.stat(absolutePath);
+            if (stats.size > MAX_FILE_SIZE) {
+                if (!this.data.files[relativePath]) {
+                    return false;
+                }
+                delete this.data.files[relativePath];
+                return true;
+            }
+            if (this.data.files[relativePath]?.mtimeMs === stats.mtimeMs) {
+                return false;
+            }
+
+            const content = await fs.promises.readFile(absolutePath, 'utf-8');
+            // Binary files decode with NUL characters and aren't worth indexing
+            if (content.includes('\u0000')) {
+                return false;
+            }
+            this.data.files[relativePath] = { mtimeMs: stats.mtimeMs, chunks: this.indexContent(relativePath, content) };
+            return true;
+        } catch (error) {
+            this.logger.log(`Skipping ${relativePath} in workspace index: ${error instanceof Error ? error.message : String(error)}`, { type: 'info' });
+            return false;
+        }
+    }
+
+    private isExcluded(relativePath: string): boolean {
+        const normalized = relativePath.split(path.sep).join('/');
+        return DEFAULT_EXCLUSIONS.some(pattern => minimatch(normalized, pattern, { dot: true }));
+    }
+
+    private indexContent(relativePath: string, content: string): IndexedChunk[] {
+        return this.chunker.chunk(content).map(chunk => {
+            // The path is part of every chunk so file and directory names are searchable too
+            const terms = tokenizeForSearch(`${relativePath}\n${chunk.text}`);
+            const frequencies: Record<string, number> = {};
+            terms.forEach(term => {
+                frequencies[term] = (frequencies[term] || 0) + 1;
+            });
+            return { startLine: chunk.startLine, endLine: chunk.endLine, length: terms.length, terms: frequencies };
+        });
+    }
+
+    private async embedMissingChunks(): Promise<boolean> {
+        const embeddingModel = this.data.embeddingModel;
+        if (!embeddingModel || !this.model.embed || this.embeddingsUnavailable) {
+            return false;
+        }
+
+        const pending: { chunk: IndexedChunk; input: string }[] = [];
+        for (const [relativePath, file] of Object.entries(this.data.files)) {
+            const missing = file.chunks.filter(chunk => !chunk.embedding);
+            if (missing.length === 0) {
+                continue;
+            }
+            try {
+                const lines = (await fs.promises.readFile(path.join(this.workspaceRoot, relativePath), 'utf-8')).split('\n');
+                missing.forEach(chunk => pending.push({
+                    chunk,
+                    input: `${relativePath}\n${lines.slice(chunk.startLine - 1, chunk.endLine).join('\n')}`.slice(0, EMBEDDING_INPUT_CHARS)
+                }));
+            } catch {
+                // The file changed underneath us; the next rebuild picks it up
+            }
+        }
+
+        let embedded = false;
+        for (let i = 0; i < pending.length; i += EMBEDDING_BATCH_SIZE) {
+            const batch = pending.slice(i, i + EMBEDDING_BATCH_SIZE);
+            try {
+                const { embeddings } = await this.model.embed({
+                    model: embeddingModel,
+                    input: batch.map(item => item.input),
+                    usageTag: { feature: 'index' }
+                });
+                batch.forEach((item, index) => {
+                    item.chunk.embedding = embeddings[index];
+                });
+                embedded = true;
+            } catch (error) {
+                // Offline or unsupported: keyword search keeps working without embeddings
+                this.embeddingsUnavailable = true;
+                this.logger.logError(error, 'Workspace index embeddings unavailable, using keyword search only');
+                break;
+            }
+        }
+        return embedded;
+    }
+
+    private async embedQuery(query: string): Promise<number[] | null> {
+        const hasEmbeddings = Object.values(this.data.files).some(file => file.chunks.some(chunk => chunk.embedding));
+        if (!hasEmbeddings || !this.model.embed || this.embeddingsUnavailable) {
+            return null;
+        }
+
+        try {
+            const { embeddings: [embedding] } = await this.model.embed({
+                model: this.data.embeddingModel,
+                input: [query],
+                usageTag: { feature: 'index' }
+            });
+            return embedding || null;
+        } catch (error) {
+            this.logger.logError(error, 'Query embedding failed, using keyword search only');
+            return null;
+        }
+    }
+
+    private ensureStatistics(): void {
+        if (this.documentFrequency) {
+            return;
+        }
+
+        const frequency = new Map<string, number>();
+        let chunkCount = 0;
+        let totalLength = 0;
+        for (const file of Object.values(this.data.files)) {
+            for (const chunk of file.chunks) {
+                chunkCount++;
+                totalLength += chunk.length;
+                Object.keys(chunk.terms).forEach(term => frequency.set(term, (frequency.get(term) || 0) + 1));
+            }
+        }
+
+        this.documentFrequency = frequency;
+        this.chunkCount = chunkCount;
+        this.averageChunkLength = chunkCount > 0 ? totalLength / chunkCount : 0;
+    }
+
+    private bm25(chunk: IndexedChunk, queryTerms: string[]): number {
+        return queryTerms.reduce((score, term) => {
+            const termFrequency = chunk.terms[term];
+            if (!termFrequency) {
+                return score;
+            }
+            const documentFrequency = this.documentFrequency!.get(term) || 0;
+            const idf = Math.log(1 + (this.chunkCount - documentFrequency + 0.5) / (documentFrequency + 0.5));
+            const normalization = K1 * (1 - B + B * chunk.length / (this.averageChunkLength || 1));
+            return score + idf * (termFrequency * (K1 + 1)) / (termFrequency + normalization);
+        }, 0);
+    }
+
+    private cosine(a: number[], b: number[]): number {
+        let dot = 0;
+        let normA = 0;
+        let normB = 0;
+        for (let i = 0; i < Math.min(a.length, b.length); i++) {
+            dot += a[i] * b[i];
+            normA += a[i] * a[i];
+            normB += b[i] * b[i];
+        }
+        return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+    }
+
+    private stripEmbeddings(files: Record<string, IndexedFile>): Record<string, IndexedFile> {
+        Object.values(files).forEach(file => file.chunks.forEach(chunk => delete chunk.embedding));
+        return files;
+    }
+
+    private getEmbeddingModel(): string {
+        return vscode.workspace.getConfiguration('falalo').get<string>('embeddingModel', '').trim();
+    }
+
+    private async load(): Promise<void> {
+        try {
+            const raw = await fs.promises.readFile(path.join(this.storageDir, INDEX_FILE), 'utf-8');
+            const data = JSON.parse(raw) as IndexData;
+            if (data.version === INDEX_VERSION && data.files) {
+                this.data = data;
+            }
+        } catch {
+            // No index yet; the first build creates it
+        }
+    }
+
+    private async save(): Promise<void> {
+        await fs.promises.mkdir(this.storageDir, { recursive: true });
+        await fs.promises.writeFile(path.join(this.storageDir, INDEX_FILE), JSON.stringify(this.data));
+    }
+}
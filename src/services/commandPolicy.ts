@@ -0,0 +1,180 @@
+import * as vscode from 'vscode';
+import { LogManager } from '../logManager';
+import { CommandRisk } from '../interfaces/types';
+
+export const DEFAULT_COMMAND_DENYLIST = [
+    'rm -rf /',
+    'rm -rf /*',
+    'rm -rf ~*',
+    'sudo *',
+    'mkfs*',
+    'dd * of=/dev/*',
+    'shutdown*',
+    'reboot*',
+    ':(){*'
+];
+
+const RISK_PATTERNS: Record<CommandRisk, RegExp[]> = {
+    destructive: [
+        /^(rm|rmdir|del|rd|erase|shred|unlink)\b/,
+        /^git (reset --hard|clean|checkout -- |push .*(--force|-f\b))/,
+        /^(chmod|chown) -R\b/,
+        /^(sudo|su|doas|runas)\b/,
+        /^(mkfs|dd|format|fdisk|diskpart)\b/,
+        /^(kill|pkill|killall|taskkill)\b/,
+        /\bdrop (database|table|schema)\b/i,
+        // Redirecting output over a file, but not appending or discarding it
+        /\s>\s*(?!\/dev\/null)[^>&\s]/
+    ],
+    network: [
+        /^(curl|wget|ssh|scp|sftp|rsync|ftp|nc|ncat|telnet|Invoke-WebRequest|iwr)\b/,
+        /^git (clone|push|pull|fetch|remote add)\b/,
+        /^(npm|yarn|pnpm) publish\b/,
+        /^docker (pull|push|login)\b/
+    ],
+    install: [
+        /^(npm|pnpm) (install|i|add|ci|update|uninstall|remove)\b/,
+        /^yarn($| (add|install|remove|upgrade)\b)/,
+        /^(pip|pip3|pipx|uv pip|poetry|pipenv) (install|add|uninstall|remove|sync)\b/,
+        /^(cargo (add|install)|go (get|install)|gem install|composer (require|install)|dotnet add .* package)\b/,
+        /^(apt|apt-get|brew|choco|winget|snap|dnf|yum|pacman) /,
+        /^npx\b/
+    ],
+    indirect: [
+        /^(bash|sh|zsh|dash|ksh|fish|pwsh|powershell|cmd)(\.exe)?\b.*\s(-c|-command|\/c)\b/i,
+        /^(eval|exec|source|xargs|parallel)\b/,
+        /^\. /,
+        /\s-(exec|execdir|ok)\b/
+    ]
+};
+
+// Command substitution, backticks and subshells, checked on the whole command since splitting
+// would break them apart
+const INDIRECT_SYNTAX = [/\$\(/, /`/, /(^|[\s;&|<>=])\(/];
+
+// Leading variable assignments and wrappers that run the command that follows
+const COMMAND_PREFIX = /^((\w+=\S*|env|command|nohup|time|nice)\s+)+/;
+
+export class CommandDeniedError extends Error {
+    constructor(public readonly command: string, reason: string) {
+        super(`Command not run (${reason}): ${command}`);
+        this.name = 'CommandDeniedError';
+    }
+}
+
+// Approvals given with "for this session" last until the window is reloaded
+const sessionCommands = new Set<string>();
+const sessionRisks = new Set<CommandRisk>();
+
+/**
+ * Splits a command line at &&, ||, ; and | so that each part is checked on its own.
+ * Quoting is respected only roughly, which errs on the side of more parts, not fewer.
+ */
+export function splitCommand(command: string): string[] {
+    return command
+        .split(/&&|\|\||;|\||\n/)
+        .map(part => part.trim().replace(/\s+/g, ' '))
+        .filter(Boolean);
+}
+
+export function classifyCommand(command: string): CommandRisk[] {
+    const risks = new Set<CommandRisk>();
+    if (INDIRECT_SYNTAX.some(pattern => pattern.test(command))) {
+        risks.add('indirect');
+    }
+    for (const part of splitCommand(command).map(part => part.replace(COMMAND_PREFIX, ''))) {
+        for (const [risk, patterns] of Object.entries(RISK_PATTERNS) as [CommandRisk, RegExp[]][]) {
+            if (patterns.some(pattern => pattern.test(part))) {
+                risks.add(risk);
+            }
+        }
+    }
+    return Array.from(risks);
+}
+
+/**
+ * Patterns use * as a wildcard and must match a whole command part; /.../ is a regular expression.
+ */
+export function matchesCommandPattern(command: string, pattern: string): boolean {
+    const parts = [command.trim().replace(/\s+/g, ' '), ...splitCommand(command)];
+    let regex: RegExp;
+    if (pattern.length > 2 && pattern.startsWith('/') && pattern.endsWith('/')) {
+        regex = new RegExp(pattern.slice(1, -1));
+    } else {
+        const escaped = pattern.trim().replace(/\s+/g, ' ').replace(/[.+?^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*');
+        regex = new RegExp(`^${escaped}$`);
+    }
+    return parts.some(part => regex.test(part));
+}
+
+export interface ApproveCommandOptions {
+    // The caller already asked the user (e.g. to confirm an install), so only the denylist applies
+    confirmed?: boolean;
+}
+
+/**
+ * Decides whether an AI-issued command may run, asking the user when the policy doesn't
+ * settle it. Throws CommandDeniedError when it may not.
+ */
+export async function approveCommand(command: string, cwd: string, options: ApproveCommandOptions = {}): Promise<void> {
+    const logger = LogManager.getInstance();
+    const config = vscode.workspace.getConfiguration('falalo');
+    const denylist = config.get<string[]>('commandDenylist', DEFAULT_COMMAND_DENYLIST);
+    const allowlist = config.get<string[]>('commandAllowlist', []);
+    const approval = config.get<'always' | 'risky' | 'never'>('commandApproval', 'always');
+
+    const denied = denylist.find(pattern => matchesCommandPattern(command, pattern));
+    if (denied) {
+        logger.log(`Blocked command by denylist pattern "${denied}": ${command}`, { type: 'error' });
+        throw new CommandDeniedError(command, `matches falalo.commandDenylist pattern "${denied}"`);
+    }
+    if (options.confirmed) {
+        return;
+    }
+
+    // Every part has to be allowed, so "npm test && curl ..." isn't let through by "npm test*".
+    // What an indirect command runs can't be matched, so the allowlist never covers it
+    const risks = classifyCommand(command);
+    const parts = splitCommand(command);
+    if (!risks.includes('indirect') && parts.length > 0 && parts.every(part => allowlist.some(pattern => matchesCommandPattern(part, pattern)))) {
+        return;
+    }
+
+    // Allowing a kind of risk for the session doesn't extend to commands hidden inside another
+    const riskAllowable = risks.length > 0 && !risks.includes('indirect');
+    if (sessionCommands.has(command) || (riskAllowable && risks.every(risk => sessionRisks.has(risk)))) {
+        return;
+    }
+    if (approval === 'never' || (approval === 'risky' && risks.length === 0)) {
+        return;
+    }
+
+    const riskLabel = risks.length > 0 ? risks.join(', ') : 'none detected';
+    const runOnce = 'Run';
+    const allowCommand = 'Always Allow This Command';
+    const allowRisks = `Always Allow ${risks.map(risk => risk[0].toUpperCase() + risk.slice(1)).join('/')} Commands`;
+    const choice = await vscode.window.showWarningMessage(
+        'The AI wants to run a command',
+        {
+            modal: true,
+            detail: `Command: ${command}\nDirectory: ${cwd}\nRisk: ${riskLabel}\n\n"Always allow" lasts until the window is reloaded.`
+        },
+        runOnce,
+        allowCommand,
+        ...(riskAllowable ? [allowRisks] : [])
+    );
+
+    if (choice === allowCommand) {
+        sessionCommands.add(command);
+    } else if (choice === allowRisks) {
+        risks.forEach(risk => sessionRisks.add(risk));
+    } else if (choice !== runOnce) {
+        logger.log(`Command declined by the user: ${command}`, { type: 'info' });
+        throw new CommandDeniedError(command, 'declined');
+    }
+}
+
+export function resetCommandApprovals(): void {
+    sessionCommands.clear();
+    sessionRisks.clear();
+}
@@ -0,0 +1,247 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { Ecosystem, FileOperation, PackageManager } from '../interfaces/types';
+import {
+    detectPackageManager,
+    detectProjectEcosystem,
+    findNodeWorkspaceRoot,
+    findProjectDir,
+    findVirtualenvPython,
+    isValidPackageName
+} from '../utils/packageManager';
+
+const MAVEN_CENTRAL = 'https://repo1.maven.org/maven2';
+const METADATA_TIMEOUT_MS = 10000;
+// Java artifacts that belong on the test classpath only
+const JAVA_TEST_ARTIFACTS = ['org.junit.jupiter:junit-jupiter', 'junit:junit', 'org.mockito:mockito-core', 'org.assertj:assertj-core'];
+
+export interface InstallRequest {
+    packages: string[];
+    // Detected from the project's dependency files when not given
+    ecosystem?: Ecosystem;
+    // A file that needs the packages; they're added to the project it belongs to
+    sourceFile?: string;
+}
+
+/**
+ * What installing packages takes: a command, edits to build files, or both. Nothing has
+ * been done yet, so the plan can be shown to the user first.
+ */
+export interface InstallPlan {
+    ecosystem: Ecosystem;
+    manager: PackageManager;
+    packages: string[];
+    projectDir: string;
+    command?: { command: string; cwd: string };
+    // Workspace-relative, e.g. the dependency added to pom.xml or recorded in requirements.txt
+    edits: FileOperation[];
+    notes: string[];
+}
+
+interface ResolverContext {
+    packages: string[];
+    manager: PackageManager;
+    projectDir: string;
+    workspaceRoot: string;
+}
+
+const RESOLVERS: Record<Ecosystem, (context: ResolverContext) => Promise<Omit<InstallPlan, 'ecosystem' | 'manager' | 'packages' | 'projectDir'>>> = {
+    node: resolveNode,
+    python: resolvePython,
+    rust: async ({ packages, projectDir }) => ({
+        command: { command: `cargo add ${quote(packages)}`, cwd: projectDir },
+        edits: [],
+        notes: []
+    }),
+    go: async ({ packages, projectDir }) => ({
+        command: { command: `go get ${quote(packages)}`, cwd: projectDir },
+        edits: [],
+        notes: []
+    }),
+    java: resolveJava
+};
+
+/**
+ * Works out how to install packages into the right project: the workspace package or
+ * module the source file belongs to, with the package manager and virtualenv it uses.
+ */
+export async function planInstall(request: InstallRequest, workspaceRoot: string): Promise<InstallPlan> {
+    const start = request.sourceFile || workspaceRoot;
+    const ecosystem = request.ecosystem || await detectProjectEcosystem(start, workspaceRoot) || 'node';
+
+    const invalid = request.packages.filter(name => !isValidPackageName(name, ecosystem));
+    if (request.packages.length === 0 || invalid.length > 0) {
+        throw new Error(`Invalid ${ecosystem} package names: ${invalid.join(', ') || '(none given)'}`);
+    }
+
+    const projectDir = findProjectDir(start, ecosystem, workspaceRoot);
+    const manager = await detectPackageManager(projectDir, workspaceRoot, ecosystem);
+    const plan = await RESOLVERS[ecosystem]({ packages: request.packages, manager, projectDir, workspaceRoot });
+    return { ecosystem, manager, packages: request.packages, projectDir, ...plan };
+}
+
+/**
+ * In an npm, yarn or pnpm workspace the package is added to the member that needs it,
+ * from the workspace root, so the root lock file stays in charge.
+ */
+async function resolveNode({ packages, manager, projectDir, workspaceRoot }: ResolverContext) {
+    const add = { npm: 'npm install', yarn: 'yarn add', pnpm: 'pnpm add' }[manager as 'npm' | 'yarn' | 'pnpm'] || 'npm install';
+    const workspace = await findNodeWorkspaceRoot(projectDir, workspaceRoot);
+    if (!workspace) {
+        return { command: { command: `${add} ${quote(packages)}`, cwd: projectDir }, edits: [], notes: [] };
+    }
+
+    const member = path.relative(workspace, projectDir).split(path.sep).join('/');
+    let name: string | undefined;
+    try {
+        name = JSON.parse(await fs.promises.readFile(path.join(projectDir, 'package.json'), 'utf-8')).name;
+    } catch {
+        // Without a name, yarn and pnpm can't address the member; npm uses its path
+    }
+    const validName = typeof name === 'string' && isValidPackageName(name, 'node') ? name : undefined;
+
+    let command: string;
+    if (manager === 'yarn' && validName) {
+        command = `yarn workspace ${validName} add ${quote(packages)}`;
+    } else if (manager === 'pnpm' && validName) {
+        command = `pnpm add ${quote(packages)} --filter "${validName}"`;
+    } else if (manager === 'npm') {
+        command = `npm install ${quote(packages)} --workspace "${member}"`;
+    } else {
+        return { command: { command: `${add} ${quote(packages)}`, cwd: projectDir }, edits: [], notes: [] };
+    }
+    return { command: { command, cwd: workspace }, edits: [], notes: [`Adds to the workspace package ${validName || member}`] };
+}
+
+/**
+ * uv, Poetry and Pipenv manage their own environments. pip installs with the project's
+ * virtualenv interpreter and records the package in requirements.txt if there is one.
+ */
+async function resolvePython({ packages, manager, projectDir, workspaceRoot }: ResolverContext) {
+    if (manager === 'uv' || manager === 'poetry' || manager === 'pipenv') {
+        const add = { uv: 'uv add', poetry: 'poetry add', pipenv: 'pipenv install' }[manager];
+        return { command: { command: `${add} ${quote(packages)}`, cwd: projectDir }, edits: [], notes: [] };
+    }
+
+    const notes: string[] = [];
+    const python = findVirtualenvPython(projectDir, workspaceRoot);
+    if (!python) {
+        notes.push('No virtualenv (.venv, venv or env) was found, so this installs for the python on PATH');
+    }
+    const command = `${python ? `"${python}"` : 'python'} -m pip install ${quote(packages)}`;
+
+    const edits: FileOperation[] = [];
+    const requirementsPath = path.join(projectDir, 'requirements.txt');
+    if (fs.existsSync(requirementsPath)) {
+        const requirements = await fs.promises.readFile(requirementsPath, 'utf-8');
+        const listed = new Set(requirements.split('\n').map(line => normalizePythonName(line.split(/[<>=!~;\[#\s]/)[0])));
+        const missing = packages.filter(name => !listed.has(normalizePythonName(name.split(/[<>=!~\[]/)[0])));
+        if (missing.length > 0) {
+            edits.push({
+                type: 'update',
+                path: path.relative(workspaceRoot, requirementsPath),
+                content: `${requirements}${requirements === '' || requirements.endsWith('\n') ? '' : '\n'}${missing.join('\n')}\n`
+            });
+        }
+    }
+
+    return { command: { command, cwd: projectDir }, edits, notes };
+}
+
+/**
+ * Maven and Gradle have no command to add a dependency, so the build file is edited.
+ * Versions not given are looked up on Maven Central.
+ */
+async function resolveJava({ packages, manager, projectDir, workspaceRoot }: ResolverContext) {
+    const dependencies = await Promise.all(packages.map(async spec => {
+        const [group, artifact, version] = spec.split(':');
+        return { group, artifact, version: version || await fetchLatestVersion(group, artifact), test: JAVA_TEST_ARTIFACTS.includes(`${group}:${artifact}`) };
+    }));
+
+    let buildFile: string;
+    let content: string;
+    if (manager === 'maven') {
+        buildFile = path.join(projectDir, 'pom.xml');
+        content = addMavenDependencies(await fs.promises.readFile(buildFile, 'utf-8'), dependencies);
+    } else {
+        const kotlin = fs.existsSync(path.join(projectDir, 'build.gradle.kts'));
+        buildFile = path.join(projectDir, kotlin ? 'build.gradle.kts' : 'build.gradle');
+        content = addGradleDependencies(await fs.promises.readFile(buildFile, 'utf-8'), kotlin, dependencies);
+    }
+
+    return {
+        edits: [{ type: 'update' as const, path: path.relative(workspaceRoot, buildFile), content }],
+        notes: dependencies.map(dependency => `${dependency.group}:${dependency.artifact}:${dependency.version}${dependency.test ? ' (test)' : ''}`)
+    };
+}
+
+interface JavaDependency {
+    group: string;
+    artifact: string;
+    version: string;
+    test: boolean;
+}
+
+function addMavenDependencies(pom: string, dependencies: JavaDependency[]): string {
+    const xml = dependencies.map(dependency =>
+        '        <dependency>\n' +
+        `            <groupId>${dependency.group}</groupId>\n` +
+        `            <artifactId>${dependency.artifact}</artifactId>\n` +
+        `            <version>${dependency.version}</version>\n` +
+        (dependency.test ? '            <scope>test</scope>\n' : '') +
+        '        </dependency>\n').join('');
+
+    // Sections with <dependencies> of their own are blanked out so the project's list is found
+    const masked = pom.replace(/<(dependencyManagement|build|profiles|reporting)>[\s\S]*?<\/\1>/g, section => ' '.repeat(section.length));
+    const close = masked.lastIndexOf('</dependencies>');
+    if (close !== -1) {
+        const lineStart = pom.lastIndexOf('\n', close) + 1;
+        return pom.slice(0, lineStart) + xml + pom.slice(lineStart);
+    }
+
+    const end = masked.lastIndexOf('</project>');
+    if (end === -1) {
+        throw new Error('pom.xml has no <project> element');
+    }
+    return `${pom.slice(0, end)}    <dependencies>\n${xml}    </dependencies>\n${pom.slice(end)}`;
+}
+
+function addGradleDependencies(build: string, kotlin: boolean, dependencies: JavaDependency[]): string {
+    const lines = dependencies.map(dependency => {
+        const configuration = dependency.test ? 'testImplementation' : 'implementation';
+        const coordinates = `${dependency.group}:${dependency.artifact}:${dependency.version}`;
+        return kotlin ? `    ${configuration}("${coordinates}")` : `    ${configuration} '${coordinates}'`;
+    }).join('\n');
+
+    // The project's block starts at the beginning of a line; the one in buildscript is indented
+    const block = /^dependencies\s*\{[^\n]*\n/m.exec(build);
+    if (block) {
+        const insertAt = block.index + block[0].length;
+        return `${build.slice(0, insertAt)}${lines}\n${build.slice(insertAt)}`;
+    }
+    return `${build.replace(/\n*$/, '\n')}\ndependencies {\n${lines}\n}\n`;
+}
+
+async function fetchLatestVersion(group: string, artifact: string): Promise<string> {
+    const url = `${MAVEN_CENTRAL}/${group.replace(/\./g, '/')}/${artifact}/maven-metadata.xml`;
+    const response = await fetch(url, { signal: AbortSignal.timeout(METADATA_TIMEOUT_MS) });
+    if (!response.ok) {
+        throw new Error(`${group}:${artifact} was not found on Maven Central`);
+    }
+
+    const metadata = await response.text();
+    const version = metadata.match(/<release>([^<]+)<\/release>/)?.[1] || metadata.match(/<latest>([^<]+)<\/latest>/)?.[1];
+    if (!version) {
+        throw new Error(`No released version of ${group}:${artifact} on Maven Central`);
+    }
+    return version;
+}
+
+function normalizePythonName(name: string): string {
+    return name.trim().toLowerCase().replace(/[-_.]+/g, '-');
+}
+
+// Quoted because version ranges like >=2 would otherwise be read as redirects
+function quote(packages: string[]): string {
+    return packages.map(name => `"${name}"`).join(' ');
+}
@@ -0,0 +1,212 @@
+import {
+    ChatMessage,
+    ChatRequest,
+    ChatResponse,
+    ChatUsage,
+    LLMProvider,
+    LLMProviderType,
+    ProviderCapabilities,
+    ProviderConfig,
+    StreamCallback
+} from '../../interfaces/types';
+
+const ANTHROPIC_BASE_URL = 'https://api.anthropic.com';
+const ANTHROPIC_VERSION = '2023-06-01';
+const DEFAULT_MAX_TOKENS = 4096;
+const MAX_OUTPUT_TOKENS = 8192;
+
+interface AnthropicContentBlock {
+    type: 'text' | 'image';
+    text?: string;
+    source?: {
+        type: 'base64';
+        media_type: string;
+        data: string;
+    };
+}
+
+interface AnthropicMessage {
+    role: 'user' | 'assistant';
+    content: string | AnthropicContentBlock[];
+}
+
+/**
+ * Provider for the Anthropic Messages API. Talks to the REST endpoint directly so
+ * no additional SDK has to be bundled with the extension.
+ */
+export class AnthropicProvider implements LLMProvider {
+    public readonly type: LLMProviderType = 'anthropic';
+    public readonly capabilities: ProviderCapabilities;
+
+    constructor(private readonly config: ProviderConfig) {
+        if (!config.apiKey) {
+            throw new Error('Anthropic API key not configured. Please set falalo.anthropicApiKey in settings.');
+        }
+        this.capabilities = config.capabilities;
+    }
+
+    public async complete(request: ChatRequest): Promise<ChatResponse> {
+        const response = await this.post('/v1/messages', this.buildBody(request), request.signal);
+        const data = await response.json() as any;
+        const content = (data.content || [])
+            .filter((block: AnthropicContentBlock) => block.type === 'text')
+            .map((block: AnthropicContentBlock) => block.text || '')
+            .join('');
+
+        return {
+            content,
+            model: data.model || request.model,
+            usage: this.toUsage(data.usage)
+        };
+    }
+
+    public async stream(request: ChatRequest, onDelta: StreamCallback): Promise<ChatResponse> {
+        if (!this.capabilities.streaming) {
+            const response = await this.complete(request);
+            onDelta(response.content);
+            return response;
+        }
+
+        const response = await this.post('/v1/messages', { ...this.buildBody(request), stream: true }, request.signal);
+        if (!response.body) {
+            throw new Error('Anthropic API returned an empty stream');
+        }
+
+        const reader = response.body.getReader();
+        const decoder = new TextDecoder();
+        let buffer = '';
+        let content = '';
+        let model = request.model;
+        const usage: Record<string, number> = {};
+
+        while (true) {
+            const { done, value } = await reader.read();
+            if (done) {
+                break;
+            }
+            buffer += decoder.decode(value, { stream: true });
+
+            // Server-sent events are separated by a blank line
+            const events = buffer.split('\n\n');
+            buffer = events.pop() || '';
+
+            for (const event of events) {
+                const dataLine = event.split('\n').find(line => line.startsWith('data: '));
+                if (!dataLine) {
+                    continue;
+                }
+                const data = JSON.parse(dataLine.slice('data: '.length));
+
+                if (data.type === 'message_start') {
+                    model = data.message?.model || model;
+                    Object.assign(usage, data.message?.usage);
+                } else if (data.type === 'content_block_delta' && data.delta?.type === 'text_delta') {
+                    content += data.delta.text;
+                    onDelta(data.delta.text);
+                } else if (data.type === 'message_delta') {
+                    Object.assign(usage, data.usage);
+                } else if (data.type === 'error') {
+                    throw new Error(`Anthropic stream error: ${data.error?.message || 'Unknown error'}`);
+                }
+            }
+        }
+
+        return { content, model, usage: this.toUsage(usage) };
+    }
+
+    private buildBody(request: ChatRequest): Record<string, unknown> {
+        const system = request.messages
+            .filter(message => message.role === 'system')
+            .map(message => message.content)
+            .join('\n\n');
+
+        const body: Record<string, unknown> = {
+            model: request.model,
+            // The Messages API requires an explicit limit and rejects values above the model maximum
+            max_tokens: Math.min(request.maxTokens || DEFAULT_MAX_TOKENS, MAX_OUTPUT_TOKENS),
+            messages: request.messages
+                .filter(message => message.role !== 'system')
+                .map(message => this.toAnthropicMessage(message))
+        };
+        if (system) {
+            body.system = system;
+        }
+        if (request.temperature !== undefined) {
+            body.temperature = request.temperature;
+        }
+        return body;
+    }
+
+    private toUsage(usage: Record<string, number> | undefined): ChatUsage | undefined {
+        if (!usage) {
+            return undefined;
+        }
+        const promptTokens = (usage.input_tokens || 0) + (usage.cache_read_input_tokens || 0);
+        const completionTokens = usage.output_tokens || 0;
+        return {
+            promptTokens,
+            completionTokens,
+            cachedTokens: usage.cache_read_input_tokens || 0,
+            reasoningTokens: 0,
+            totalTokens: promptTokens + completionTokens
+        };
+    }
+
+    private async post(endpoint: string, body: Record<string, unknown>, signal?: AbortSignal): Promise<Response> {
+        const url = `${(this.config.baseUrl || ANTHROPIC_BASE_URL).replace(/\/$/, '')}${endpoint}`;
+        let lastError: Error | null = null;
+
+        for (let attempt = 0; attempt <= this.config.maxRetries; attempt++) {
+            // The timeout covers waiting for the response headers, not reading a long stream
+            const timeout = new AbortController();
+            const timer = setTimeout(() => timeout.abort(), this.config.timeout);
+            let response: Response;
+            try {
+                response = await fetch(url, {
+                    method: 'POST',
+                    headers: {
+                        'content-type': 'application/json',
+                        'x-api-key': this.config.apiKey!,
+                        'anthropic-version': ANTHROPIC_VERSION
+                    },
+                    body: JSON.stringify(body),
+                    signal: signal ? AbortSignal.any([signal, timeout.signal]) : timeout.signal
+                });
+            } finally {
+                clearTimeout(timer);
+            }
+
+            if (response.ok) {
+                return response;
+            }
+
+            const errorText = await response.text();
+            lastError = new Error(`Anthropic API error (${response.status}): ${errorText}`);
+
+            // Only rate limits and server errors are worth retrying
+            if (signal?.aborted || (response.status !== 429 && response.status < 500)) {
+                break;
+            }
+            await new Promise(resolve => setTimeout(resolve, 1000 * (attempt + 1)));
+        }
+
+        throw lastError;
+    }
+
+    private toAnthropicMessage(message: ChatMessage): AnthropicMessage {
+        const role = message.role === 'assistant' ? 'assistant' : 'user';
+        if (!message.images?.length || !this.capabilities.vision) {
+            return { role, content: message.content };
+        }
+
+        const images: AnthropicContentBlock[] = message.images
+            .map(url => url.match(/^data:([^;]+);base64,(.*)$/))
+            .filter((match): match is RegExpMatchArray => match !== null)
+            .map(match => ({
+                type: 'image',
+                source: { type: 'base64', media_type: match[1], data: match[2] }
+            }));
+
+        return { role, content: [...images, { type: 'text', text: message.content }] };
+    }
+}
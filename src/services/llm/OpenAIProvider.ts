@@ -0,0 +1,199 @@
+import { OpenAI, AzureOpenAI } from 'openai';
+import type { Fetch } from 'openai/core';
+import type { CompletionUsage } from 'openai/resources/completions';
+import type {
+    ChatCompletionContentPart,
+    ChatCompletionCreateParamsNonStreaming,
+    ChatCompletionMessageParam
+} from 'openai/resources/chat/completions';
+import {
+    ChatMessage,
+    ChatRequest,
+    ChatResponse,
+    ChatUsage,
+    EmbeddingRequest,
+    EmbeddingResponse,
+    LLMProvider,
+    LLMProviderType,
+    ProviderCapabilities,
+    ProviderConfig,
+    StreamCallback
+} from '../../interfaces/types';
+
+const OPENAI_BASE_URL = 'https://api.openai.com/v1';
+
+/**
+ * Provider for every backend that speaks the OpenAI chat completions protocol:
+ * OpenAI itself, Azure OpenAI deployments and local servers such as Ollama or llama.cpp.
+ */
+export class OpenAIProvider implements LLMProvider {
+    public readonly type: LLMProviderType;
+    public readonly capabilities: ProviderCapabilities;
+    private readonly client: OpenAI;
+
+    constructor(private readonly config: ProviderConfig) {
+        this.type = config.type;
+        this.capabilities = config.capabilities;
+        this.client = this.createClient();
+    }
+
+    private createClient(): OpenAI {
+        const common = {
+            maxRetries: this.config.maxRetries,
+            timeout: this.config.timeout,
+            fetch: globalThis.fetch as unknown as Fetch
+        };
+
+        switch (this.config.type) {
+            case 'azure':
+                if (!this.config.baseUrl) {
+                    throw new Error('Azure OpenAI requires falalo.baseUrl to be set to your resource endpoint');
+                }
+                return new AzureOpenAI({
+                    ...common,
+                    apiKey: this.config.apiKey,
+                    endpoint: this.config.baseUrl,
+                    apiVersion: this.config.apiVersion
+                });
+
+            case 'openai-compatible':
+                if (!this.config.baseUrl) {
+                    throw new Error('OpenAI-compatible providers require falalo.baseUrl (e.g. http://localhost:11434/v1)');
+                }
+                return new OpenAI({
+                    ...common,
+                    // Local servers usually ignore the key, but the SDK refuses to start without one
+                    apiKey: this.config.apiKey || 'not-needed',
+                    baseURL: this.config.baseUrl
+                });
+
+            default:
+                return new OpenAI({
+                    ...common,
+                    apiKey: this.config.apiKey,
+                    baseURL: this.config.baseUrl || OPENAI_BASE_URL
+                });
+        }
+    }
+
+    public async complete(request: ChatRequest): Promise<ChatResponse> {
+        const completion = await this.client.chat.completions.create(this.buildParams(request), { signal: request.signal });
+
+        if (!completion.choices || completion.choices.length === 0) {
+            throw new Error('Empty response from AI');
+        }
+
+        return {
+            content: completion.choices[0]?.message?.content || '',
+            model: completion.model,
+            usage: this.toUsage(completion.usage)
+        };
+    }
+
+    public async stream(request: ChatRequest, onDelta: StreamCallback): Promise<ChatResponse> {
+        if (!this.capabilities.streaming) {
+            const response = await this.complete(request);
+            onDelta(response.content);
+            return response;
+        }
+
+        const stream = await this.client.chat.completions.create({
+            ...this.buildParams(request),
+            stream: true,
+            // Local servers commonly reject stream_options, so usage is only requested from OpenAI and Azure
+            ...(this.type !== 'openai-compatible' ? { stream_options: { include_usage: true } } : {})
+        }, { signal: request.signal });
+
+        let content = '';
+        let model = request.model;
+        let usage: CompletionUsage | undefined;
+        for await (const chunk of stream) {
+            model = chunk.model || model;
+            usage = chunk.usage || usage;
+            const delta = chunk.choices[0]?.delta?.content;
+            if (delta) {
+                content += delta;
+                onDelta(delta);
+            }
+        }
+
+        return { content, model, usage: this.toUsage(usage) };
+    }
+
+    public async embed(request: EmbeddingRequest): Promise<EmbeddingResponse> {
+        const response = await this.client.embeddings.create({
+            model: request.model,
+            input: request.input
+        }, { signal: request.signal });
+
+        return {
+            // Results carry their input index; don't rely on the server preserving order
+            embeddings: [...response.data]
+                .sort((a, b) => a.index - b.index)
+                .map(item => item.embedding),
+            model: response.model || request.model,
+            usage: response.usage && {
+                promptTokens: response.usage.prompt_tokens || 0,
+                completionTokens: 0,
+                cachedTokens: 0,
+                reasoningTokens: 0,
+                totalTokens: response.usage.total_tokens || 0
+            }
+        };
+    }
+
+    private toUsage(usage: CompletionUsage | undefined): ChatUsage | undefined {
+        if (!usage) {
+            return undefined;
+        }
+        return {
+            promptTokens: usage.prompt_tokens || 0,
+            completionTokens: usage.completion_tokens || 0,
+            cachedTokens: usage.prompt_tokens_details?.cached_tokens || 0,
+            reasoningTokens: usage.completion_tokens_details?.reasoning_tokens || 0,
+            totalTokens: usage.total_tokens || 0
+        };
+    }
+
+    private buildParams(request: ChatRequest): ChatCompletionCreateParamsNonStreaming {
+        const params: ChatCompletionCreateParamsNonStreaming = {
+            model: request.model,
+            messages: request.messages.map(message => this.toOpenAIMessage(message))
+        };
+
+        if (request.reasoningEffort && this.capabilities.reasoningEffort) {
+            params.reasoning_effort = request.reasoningEffort;
+        }
+        if (request.temperature !== undefined) {
+            params.temperature = request.temperature;
+        }
+        if (request.maxTokens) {
+            // Most local servers only understand the legacy parameter name
+            if (this.type === 'openai-compatible') {
+                params.max_tokens = request.maxTokens;
+            } else {
+                params.max_completion_tokens = request.maxTokens;
+            }
+        }
+        if (request.jsonMode && this.capabilities.jsonMode) {
+            params.response_format = { type: 'json_object' };
+        }
+        if (request.store && this.type === 'openai') {
+            params.store = true;
+        }
+
+        return params;
+    }
+
+    private toOpenAIMessage(message: ChatMessage): ChatCompletionMessageParam {
+        if (message.role !== 'user' || !message.images?.length || !this.capabilities.vision) {
+            return { role: message.role, content: message.content };
+        }
+
+        const parts: ChatCompletionContentPart[] = [
+            { type: 'text', text: message.content },
+            ...message.images.map(url => ({ type: 'image_url' as const, image_url: { url } }))
+        ];
+        return { role: 'user', content: parts };
+    }
+}
@@ -0,0 +1,97 @@
+import * as vscode from 'vscode';
+import { LogManager } from '../../logManager';
+import { getModelRoute } from '../modelRouter';
+import { LLMProvider, LLMProviderType, ProviderCapabilities, ProviderConfig } from '../../interfaces/types';
+import { OpenAIProvider } from './OpenAIProvider';
+import { AnthropicProvider } from './AnthropicProvider';
+
+export const DEFAULT_CAPABILITIES: Record<LLMProviderType, ProviderCapabilities> = {
+    'openai': { reasoningEffort: true, jsonMode: true, vision: true, streaming: true },
+    'azure': { reasoningEffort: true, jsonMode: true, vision: true, streaming: true },
+    'anthropic': { reasoningEffort: false, jsonMode: false, vision: true, streaming: true },
+    'openai-compatible': { reasoningEffort: false, jsonMode: false, vision: false, streaming: true }
+};
+
+export let llm: LLMProvider;
+
+export function getProviderConfig(): ProviderConfig {
+    const config = vscode.workspace.getConfiguration('falalo');
+    const type = config.get<LLMProviderType>('provider', 'openai');
+
+    if (!DEFAULT_CAPABILITIES[type]) {
+        throw new Error(`Unknown provider "${type}". Expected one of: ${Object.keys(DEFAULT_CAPABILITIES).join(', ')}`);
+    }
+
+    const apiKey = type === 'anthropic'
+        ? config.get<string>('anthropicApiKey')
+        : config.get<string>('openAIApiKey');
+
+    return {
+        type,
+        apiKey: apiKey || undefined,
+        baseUrl: config.get<string>('baseUrl') || undefined,
+        apiVersion: config.get<string>('azureApiVersion') || undefined,
+        timeout: config.get<number>('requestTimeout', 30000),
+        maxRetries: 3,
+        capabilities: {
+            ...DEFAULT_CAPABILITIES[type],
+            ...config.get<Partial<ProviderCapabilities>>('providerCapabilities', {})
+        }
+    };
+}
+
+export function createProvider(config: ProviderConfig): LLMProvider {
+    if (!config.apiKey && (config.type === 'openai' || config.type === 'azure')) {
+        throw new Error('OpenAI API key not configured. Please set falalo.openAIApiKey in settings.');
+    }
+
+    switch (config.type) {
+        case 'anthropic':
+            return new AnthropicProvider(config);
+        case 'openai':
+        case 'azure':
+        case 'openai-compatible':
+            return new OpenAIProvider(config);
+        default:
+            throw new Error(`Unsupported provider: ${config.type}`);
+    }
+}
+
+/**
+ * Replaces the active provider, e.g. with a fake implementation in tests.
+ */
+export function setLLMProvider(provider: LLMProvider): void {
+    llm = provider;
+}
+
+export async function initializeLLM(context: vscode.ExtensionContext): Promise<LLMProvider> {
+    const logger = LogManager.getInstance();
+
+    try {
+        const config = getProviderConfig();
+        logger.log(`Initializing ${config.type} provider...`, { type: 'info' });
+
+        const provider = createProvider(config);
+
+        // Test the connection with a very simple request
+        logger.log('Testing provider connection...', { type: 'info' });
+        const testResponse = await provider.complete({
+            ...getModelRoute('stepExecutor'),
+            messages: [{ role: 'user', content: 'test' }],
+            store: true
+        });
+
+        if (!testResponse.content) {
+            throw new Error(`Failed to connect to ${config.type} provider - No response received`);
+        }
+
+        setLLMProvider(provider);
+        logger.log('LLM provider initialized successfully', { type: 'info' });
+        return provider;
+    } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        logger.logError(error, 'LLM provider initialization');
+        vscode.window.showErrorMessage(`Failed to initialize AI provider: ${errorMessage}`);
+        throw error;
+    }
+}
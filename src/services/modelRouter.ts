@@ -0,0 +1,125 @@
+import * as vscode from 'vscode';
+import { LogManager } from '../logManager';
+import { ModelProfile, ModelRole, ModelRoute } from '../interfaces/types';
+import { DEFAULT_MODEL_ROUTES, DEFAULT_PROFILE_NAME, MODEL_ROLES } from '../constants/modelConfig';
+
+const REASONING_EFFORTS = ['low', 'medium', 'high'];
+
+function getProfiles(): Record<string, ModelProfile> {
+    return vscode.workspace.getConfiguration('falalo').get<Record<string, ModelProfile>>('modelProfiles', {});
+}
+
+export function getActiveProfileName(): string {
+    return vscode.workspace.getConfiguration('falalo').get<string>('activeModelProfile', DEFAULT_PROFILE_NAME);
+}
+
+/**
+ * Resolves the model and parameters for a role. Values from the active profile win,
+ * then falalo.model as a blanket model override, then the built-in defaults.
+ */
+export function getModelRoute(role: ModelRole): ModelRoute {
+    return resolveRoute(role, getActiveProfileName());
+}
+
+function resolveRoute(role: ModelRole, profileName: string): ModelRoute {
+    const defaultModel = vscode.workspace.getConfiguration('falalo').get<string>('model');
+    const profile = getProfiles()[profileName] || {};
+    const override = profile[role] || {};
+
+    return {
+        ...DEFAULT_MODEL_ROUTES[role],
+        ...(defaultModel ? { model: defaultModel } : {}),
+        ...override
+    };
+}
+
+export function validateModelProfiles(): string[] {
+    const errors: string[] = [];
+    const profiles = getProfiles();
+    const activeProfile = getActiveProfileName();
+
+    if (activeProfile !== DEFAULT_PROFILE_NAME && !profiles[activeProfile]) {
+        errors.push(`Active model profile "${activeProfile}" is not defined in falalo.modelProfiles`);
+    }
+
+    for (const [name, profile] of Object.entries(profiles)) {
+        if (!profile || typeof profile !== 'object') {
+            errors.push(`Profile "${name}" must be an object`);
+            continue;
+        }
+
+        for (const [role, route] of Object.entries(profile)) {
+            const prefix = `Profile "${name}", role "${role}"`;
+            if (!MODEL_ROLES.includes(role as ModelRole)) {
+                errors.push(`${prefix}: unknown role (expected one of ${MODEL_ROLES.join(', ')})`);
+                continue;
+            }
+            if (!route || typeof route !== 'object') {
+                errors.push(`${prefix}: route must be an object`);
+                continue;
+            }
+            if (route.model !== undefined && (typeof route.model !== 'string' || !route.model.trim())) {
+                errors.push(`${prefix}: model must be a non-empty string`);
+            }
+            if (route.reasoningEffort !== undefined && !REASONING_EFFORTS.includes(route.reasoningEffort)) {
+                errors.push(`${prefix}: reasoningEffort must be one of ${REASONING_EFFORTS.join(', ')}`);
+            }
+            if (route.temperature !== undefined && (typeof route.temperature !== 'number' || route.temperature < 0 || route.temperature > 2)) {
+                errors.push(`${prefix}: temperature must be a number between 0 and 2`);
+            }
+            if (route.maxTokens !== undefined && (!Number.isInteger(route.maxTokens) || route.maxTokens <= 0)) {
+                errors.push(`${prefix}: maxTokens must be a positive integer`);
+            }
+        }
+    }
+
+    return errors;
+}
+
+export function reportModelProfileErrors(): boolean {
+    const errors = validateModelProfiles();
+    if (errors.length === 0) {
+        return true;
+    }
+
+    const logger = LogManager.getInstance();
+    errors.forEach(error => logger.log(error, { type: 'info', context: 'Model routing' }));
+    vscode.window.showWarningMessage(
+        `Falalo model routing has ${errors.length} configuration problem(s): ${errors[0]}`,
+        'Open Settings'
+    ).then(selection => {
+        if (selection === 'Open Settings') {
+            vscode.commands.executeCommand('workbench.action.openSettings', 'falalo.modelProfiles');
+        }
+    });
+    return false;
+}
+
+export async function selectModelProfile(): Promise<void> {
+    const profiles = getProfiles();
+    const activeProfile = getActiveProfileName();
+    const names = [DEFAULT_PROFILE_NAME, ...Object.keys(profiles).filter(name => name !== DEFAULT_PROFILE_NAME)];
+
+    const items = names.map(name => {
+        const routes = MODEL_ROLES.map(role => `${role}: ${resolveRoute(role, name).model}`);
+        return {
+            label: name,
+            description: name === activeProfile ? 'Active' : undefined,
+            detail: routes.join(' · ')
+        };
+    });
+
+    const selected = await vscode.window.showQuickPick(items, {
+        placeHolder: 'Select the model profile for this workspace'
+    });
+    if (!selected) {
+        return;
+    }
+
+    await vscode.workspace.getConfiguration('falalo').update(
+        'activeModelProfile',
+        selected.label,
+        vscode.ConfigurationTarget.Workspace
+    );
+    vscode.window.showInformationMessage(`Falalo model profile set to "${selected.label}"`);
+}
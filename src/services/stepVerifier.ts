@@ -0,0 +1,118 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { CommandRunResult, DiagnosticProblem, VerificationResult } from '../interfaces/types';
+import { formatCommandResult } from './TerminalRunner';
+
+// Language servers report asynchronously; wait this long at most for them to catch up
+const DIAGNOSTICS_TIMEOUT_MS = 3000;
+// Once diagnostics for the files start changing, they're taken as settled after this quiet period
+const DIAGNOSTICS_SETTLE_MS = 500;
+const MAX_REPORTED_DIAGNOSTICS = 50;
+
+export interface VerifyOptions {
+    // Workspace-relative paths the step changed; their diagnostics are checked
+    files: string[];
+    runCommand: (command: string) => Promise<CommandRunResult>;
+    signal?: AbortSignal;
+    repairs?: number;
+}
+
+export function isVerificationEnabled(): boolean {
+    const config = vscode.workspace.getConfiguration('falalo');
+    return config.get<string[]>('verifyCommands', []).length > 0 || config.get<boolean>('verifyDiagnostics', true);
+}
+
+/**
+ * Checks the workspace after a step: runs falalo.verifyCommands in order, stopping at the
+ * first failure, and collects error diagnostics for the files the step changed.
+ */
+export async function verifyStep(options: VerifyOptions): Promise<VerificationResult> {
+    const config = vscode.workspace.getConfiguration('falalo');
+    const commandResults: CommandRunResult[] = [];
+
+    for (const command of config.get<string[]>('verifyCommands', [])) {
+        if (options.signal?.aborted) {
+            break;
+        }
+        const result = await options.runCommand(command);
+        commandResults.push(result);
+        if (result.exitCode !== 0) {
+            break;
+        }
+    }
+
+    const diagnostics = config.get<boolean>('verifyDiagnostics', true) && !options.signal?.aborted
+        ? await collectDiagnostics(options.files)
+        : [];
+
+    return {
+        passed: commandResults.every(result => result.exitCode === 0) && diagnostics.length === 0,
+        commandResults,
+        diagnostics,
+        repairs: options.repairs || 0
+    };
+}
+
+/**
+ * The failures of a verification run as the model should see them.
+ */
+export function formatVerificationResult(result: VerificationResult): string {
+    const sections = result.commandResults
+        .filter(command => command.exitCode !== 0)
+        .map(command => formatCommandResult(command));
+
+    if (result.diagnostics.length > 0) {
+        const shown = result.diagnostics.slice(0, MAX_REPORTED_DIAGNOSTICS).map(problem =>
+            `${problem.path}:${problem.line}:${problem.column} ${problem.message}${problem.source ? ` (${problem.source})` : ''}`);
+        if (result.diagnostics.length > shown.length) {
+            shown.push(`[... ${result.diagnostics.length - shown.length} more]`);
+        }
+        sections.push(`Errors reported by the editor:\n${shown.join('\n')}`);
+    }
+
+    return sections.join('\n\n');
+}
+
+async function collectDiagnostics(files: string[]): Promise<DiagnosticProblem[]> {
+    const workspaceRoot = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+    if (!workspaceRoot || files.length === 0) {
+        return [];
+    }
+
+    const uris = files.map(file => vscode.Uri.file(path.join(workspaceRoot, file)));
+    const settled = waitForDiagnostics(uris);
+    // Language servers only analyze files they know about, so the changed files are opened
+    await Promise.all(uris.map(uri => vscode.workspace.openTextDocument(uri).then(undefined, () => undefined)));
+    await settled;
+
+    return uris.flatMap(uri => vscode.languages.getDiagnostics(uri)
+        .filter(diagnostic => diagnostic.severity === vscode.DiagnosticSeverity.Error)
+        .map(diagnostic => ({
+            path: path.relative(workspaceRoot, uri.fsPath),
+            line: diagnostic.range.start.line + 1,
+            column: diagnostic.range.start.character + 1,
+            message: diagnostic.message,
+            source: diagnostic.source
+        })));
+}
+
+function waitForDiagnostics(uris: vscode.Uri[]): Promise<void> {
+    const watched = new Set(uris.map(uri => uri.toString()));
+
+    return new Promise(resolve => {
+        let settleTimer: NodeJS.Timeout | undefined;
+        const done = () => {
+            clearTimeout(timeout);
+            clearTimeout(settleTimer);
+            subscription.dispose();
+            resolve();
+        };
+        const timeout = setTimeout(done, DIAGNOSTICS_TIMEOUT_MS);
+        const subscription = vscode.languages.onDidChangeDiagnostics(event => {
+            if (event.uris.some(uri => watched.has(uri.toString()))) {
+                clearTimeout(settleTimer);
+                settleTimer = setTimeout(done, DIAGNOSTICS_SETTLE_MS);
+            }
+        });
+    });
+}
@@ -1,21 +1,27 @@
-import { OpenAI } from 'openai';
-import { TaskPlan, TaskStep } from '../interfaces/types';
+import { randomUUID } from 'crypto';
+import { ContextAttachment, LLMProvider, TaskPlan, TaskStep, TaskStepStatus } from '../interfaces/types';
 import { TASK_PLANNING_PROMPT } from '../constants/prompts';
+import { getModelRoute } from './modelRouter';
+import { findDependencyCycle, getReadySteps, normalizeStepIds } from './taskScheduler';
+import { formatAttachments } from './StepContextBuilder';
 
-let model: OpenAI | null = null;
+let model: LLMProvider | null = null;
 
-export function initializeTaskPlanner(openai: OpenAI) {
-    model = openai;
+export function initializeTaskPlanner(provider: LLMProvider) {
+    model = provider;
 }
 
-export async function evaluateRequest(request: string): Promise<TaskPlan> {
+/**
+ * attachments are the contents @-mentioned in the request.
+ */
+export async function evaluateRequest(request: string, signal?: AbortSignal, attachments: ContextAttachment[] = []): Promise<TaskPlan> {
     if (!model) {
         throw new Error('Task planner not initialized');
     }
 
     try {
-        const completion = await model.chat.completions.create({
-            model: 'gpt-4o-mini',
+        const completion = await model.complete({
+            ...getModelRoute('planner'),
             messages: [
                 {
                     role: 'system',
@@ -23,15 +29,16 @@ export async function evaluateRequest(request: string): Promise<TaskPlan> {
                 },
                 {
                     role: 'user',
-                    content: `Please analyze this request and provide a JSON response with the task plan: ${request}`
+                    content: `Please analyze this request and provide a JSON response with the task plan: ${request}` +
+                        (attachments.length > 0 ? `\n\nContent mentioned in the request:\n\n${formatAttachments(attachments)}` : '')
                 }
             ],
-            temperature: 0.3,
-            max_tokens: 1000,
-            response_format: { type: "json_object" }
+            jsonMode: true,
+            signal,
+            usageTag: { feature: 'plan' }
         });
 
-        const response = completion.choices[0]?.message?.content;
+        const response = completion.content;
         if (!response) {
             throw new Error('Empty response from AI');
         }
@@ -69,16 +76,8 @@ export async function evaluateRequest(request: string): Promise<TaskPlan> {
     }
 }
 
-function validateAndNormalizeTaskPlan(plan: any, originalRequest: string): TaskPlan {
-    if (!plan || typeof plan !== 'object') {
-        throw new Error('Invalid task plan: not an object');
-    }
-
-    if (!Array.isArray(plan.steps) || plan.steps.length === 0) {
-        throw new Error('Invalid task plan: missing or empty steps array');
-    }
-
-    const normalizedSteps: TaskStep[] = plan.steps.map((step: any, index: number) => {
+function normalizeSteps(steps: any[]): TaskStep[] {
+    const parsedSteps: TaskStep[] = steps.map((step: any, index: number) => {
         if (!step || typeof step !== 'object') {
             throw new Error(`Invalid step at index ${index}: not an object`);
         }
@@ -88,6 +87,7 @@ function validateAndNormalizeTaskPlan(plan: any, originalRequest: string): TaskP
         }
 
         return {
+            id: index,
             description: step.description,
             status: 'pending',
             files: [],
@@ -95,6 +95,43 @@ function validateAndNormalizeTaskPlan(plan: any, originalRequest: string): TaskP
         };
     });
 
+    const normalizedSteps = normalizeStepIds(parsedSteps);
+    const cycle = findDependencyCycle(normalizedSteps);
+    if (cycle) {
+        throw new Error(`Invalid task plan: dependency cycle between steps ${cycle.map(id => id + 1).join(' -> ')}`);
+    }
+    return normalizedSteps;
+}
+
+/**
+ * Replaces the steps of a plan that hasn't started yet with the user's edited version.
+ * Dependencies in the edited steps refer to positions in the edited list.
+ */
+export function applyPlanEdits(plan: TaskPlan, steps: any[]): TaskPlan {
+    if (!Array.isArray(steps) || steps.length === 0) {
+        throw new Error('The plan needs at least one step');
+    }
+
+    plan.steps = normalizeSteps(steps.map(step => ({
+        ...step,
+        description: typeof step?.description === 'string' ? step.description.trim() : step?.description
+    })));
+    plan.totalSteps = plan.steps.length;
+    plan.currentStep = 0;
+    return plan;
+}
+
+function validateAndNormalizeTaskPlan(plan: any, originalRequest: string): TaskPlan {
+    if (!plan || typeof plan !== 'object') {
+        throw new Error('Invalid task plan: not an object');
+    }
+
+    if (!Array.isArray(plan.steps) || plan.steps.length === 0) {
+        throw new Error('Invalid task plan: missing or empty steps array');
+    }
+
+    const normalizedSteps = normalizeSteps(plan.steps);
+
     // Extract or generate description and estimatedTime
     const description = typeof plan.description === 'string' && plan.description
         ? plan.description
@@ -104,7 +141,11 @@ function validateAndNormalizeTaskPlan(plan: any, originalRequest: string): TaskP
         ? plan.estimatedTime
         : `${Math.ceil(normalizedSteps.length * 5)} minutes`;
 
+    const now = new Date().toISOString();
     return {
+        id: randomUUID(),
+        createdAt: now,
+        updatedAt: now,
         steps: normalizedSteps,
         currentStep: 0,
         totalSteps: normalizedSteps.length,
@@ -115,7 +156,7 @@ function validateAndNormalizeTaskPlan(plan: any, originalRequest: string): TaskP
     };
 }
 
-export async function updateTaskProgress(plan: TaskPlan, stepIndex: number, status: 'pending' | 'in-progress' | 'completed' | 'failed'): Promise<void> {
+export async function updateTaskProgress(plan: TaskPlan, stepIndex: number, status: TaskStepStatus): Promise<void> {
     if (stepIndex < 0 || stepIndex >= plan.steps.length) {
         throw new Error('Invalid step index');
     }
@@ -123,7 +164,9 @@ export async function updateTaskProgress(plan: TaskPlan, stepIndex: number, stat
     plan.steps[stepIndex].status = status;
 
     if (status === 'completed') {
-        plan.currentStep = Math.min(plan.currentStep + 1, plan.totalSteps);
+        // Steps can be retried out of order, so move to the first step that still needs work
+        const nextIndex = plan.steps.findIndex(step => step.status !== 'completed');
+        plan.currentStep = nextIndex === -1 ? plan.totalSteps : nextIndex;
     } else if (status === 'failed') {
         // Optionally handle failed steps differently
         console.error(`Step ${stepIndex + 1} failed: ${plan.steps[stepIndex].description}`);
@@ -131,24 +174,7 @@ export async function updateTaskProgress(plan: TaskPlan, stepIndex: number, stat
 }
 
 export function getNextStep(plan: TaskPlan): TaskStep | null {
-    if (plan.currentStep >= plan.totalSteps) {
-        return null;
-    }
-
-    const nextStep = plan.steps[plan.currentStep];
-    
-    // Check if all dependencies are completed
-    const unmetDependencies = nextStep.dependencies.filter(depIndex => {
-        return depIndex < plan.steps.length && plan.steps[depIndex].status !== 'completed';
-    });
-
-    if (unmetDependencies.length > 0) {
-        console.warn('Dependencies not met for step:', nextStep.description);
-        console.warn('Waiting for steps:', unmetDependencies.map(i => i + 1).join(', '));
-        return null;
-    }
-
-    return nextStep;
+    return getReadySteps(plan)[0] || null;
 }
 
 export function isTaskComplete(plan: TaskPlan): boolean {
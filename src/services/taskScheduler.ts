@@ -0,0 +1,114 @@
+import { TaskPlan, TaskStep, TaskStepStatus } from '../interfaces/types';
+
+// A dependency in one of these states can never be satisfied without a retry
+const BLOCKING_STATUSES: TaskStepStatus[] = ['failed', 'skipped', 'cancelled'];
+
+/**
+ * Assigns each step its index as id and reduces its dependencies to known step ids,
+ * dropping duplicates, self references and anything that doesn't point at a step.
+ */
+export function normalizeStepIds(steps: TaskStep[]): TaskStep[] {
+    return steps.map((step, index) => ({
+        ...step,
+        id: index,
+        dependencies: Array.from(new Set(
+            (step.dependencies || [])
+                .map(dependency => Number(dependency))
+                .filter(dependency => Number.isInteger(dependency) && dependency >= 0 && dependency < steps.length && dependency !== index)
+        ))
+    }));
+}
+
+/**
+ * Returns the step ids forming a dependency cycle, or null when the steps form a DAG.
+ */
+export function findDependencyCycle(steps: TaskStep[]): number[] | null {
+    const visiting = new Set<number>();
+    const visited = new Set<number>();
+    const path: number[] = [];
+
+    const visit = (id: number): number[] | null => {
+        if (visiting.has(id)) {
+            return [...path.slice(path.indexOf(id)), id];
+        }
+        if (visited.has(id)) {
+            return null;
+        }
+
+        visiting.add(id);
+        path.push(id);
+        for (const dependency of steps[id].dependencies) {
+            const cycle = visit(dependency);
+            if (cycle) {
+                return cycle;
+            }
+        }
+        path.pop();
+        visiting.delete(id);
+        visited.add(id);
+        return null;
+    };
+
+    for (const step of steps) {
+        const cycle = visit(step.id);
+        if (cycle) {
+            return cycle;
+        }
+    }
+    return null;
+}
+
+/**
+ * Orders step ids so every step comes after its dependencies. Ties keep the order the
+ * planner produced, so a plan without dependencies runs exactly as listed.
+ */
+export function topologicalOrder(steps: TaskStep[]): number[] {
+    const cycle = findDependencyCycle(steps);
+    if (cycle) {
+        throw new Error(`Task plan has a dependency cycle: ${cycle.map(id => `step ${id + 1}`).join(' -> ')}`);
+    }
+
+    const remaining = new Map(steps.map(step => [step.id, step.dependencies.length]));
+    const order: number[] = [];
+
+    while (remaining.size > 0) {
+        const next = steps.find(step => remaining.get(step.id) === 0)!;
+        remaining.delete(next.id);
+        order.push(next.id);
+
+        steps
+            .filter(step => remaining.has(step.id) && step.dependencies.includes(next.id))
+            .forEach(step => remaining.set(step.id, remaining.get(step.id)! - 1));
+    }
+
+    return order;
+}
+
+/**
+ * Pending steps whose dependencies have all completed, in topological order.
+ */
+export function getReadySteps(plan: TaskPlan): TaskStep[] {
+    return topologicalOrder(plan.steps)
+        .map(id => plan.steps[id])
+        .filter(step => step.status === 'pending' &&
+            step.dependencies.every(dependency => plan.steps[dependency].status === 'completed'));
+}
+
+/**
+ * Marks pending steps that depend, directly or transitively, on a failed, skipped or
+ * cancelled step as skipped. Returns the steps that were newly skipped.
+ */
+export function skipBlockedSteps(plan: TaskPlan): TaskStep[] {
+    const skipped: TaskStep[] = [];
+
+    for (const id of topologicalOrder(plan.steps)) {
+        const step = plan.steps[id];
+        if (step.status === 'pending' &&
+            step.dependencies.some(dependency => BLOCKING_STATUSES.includes(plan.steps[dependency].status))) {
+            step.status = 'skipped';
+            skipped.push(step);
+        }
+    }
+
+    return skipped;
+}
@@ -22,10 +22,16 @@ export async function executeCommand(command: string, options: Partial<CommandEx
             finalOptions.command,
             {
                 cwd: finalOptions.cwd,
-                env: process.env
+                env: process.env,
+                // Aborting kills the child process
+                signal: finalOptions.signal
             },
             (error, stdout, stderr) => {
                 if (error) {
+                    if (finalOptions.signal?.aborted) {
+                        reject(new Error(`Command aborted: ${finalOptions.command}`));
+                        return;
+                    }
                     logger.logError(error, `Command execution failed: ${finalOptions.command}`);
                     reject(new Error(`Command failed: ${error.message}\n${stderr}`));
                     return;
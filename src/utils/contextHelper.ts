@@ -2,14 +2,6 @@ import * as vscode from 'vscode';
 import * as path from 'path';
 import { ContextManager } from '../services/ContextManager';
 
-export async function getWorkspaceContext(contextManager: ContextManager): Promise<string> {
-    const files = await contextManager.getContextFiles();
-    if (files.length === 0) {
-        return 'No files in context.';
-    }
-    return files.join('\n');
-}
-
 export async function addFileToContext(filePath: string, contextManager: ContextManager): Promise<void> {
     const workspaceRoot = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
     if (!workspaceRoot) {
@@ -1,11 +1,16 @@
 import * as vscode from 'vscode';
 import * as fs from 'fs';
 import * as path from 'path';
-import { validatePath } from './helpers';
+import { assertWritable, resolveWorkspacePath } from './pathPolicy';
 import { LogManager } from '../logManager';
-import { FileOperation } from '../interfaces/types';
-
-export async function handleFileOperations(operations: FileOperation[]): Promise<void> {
+import { FileOperation, FileSnapshot } from '../interfaces/types';
+
+/**
+ * Applies a batch of file operations as one unit: every touched file is snapshotted first,
+ * and if any operation fails the files already written are restored before rethrowing.
+ * Returns the snapshots so callers can record them as a checkpoint.
+ */
+export async function handleFileOperations(operations: FileOperation[]): Promise<FileSnapshot[]> {
     const logger = LogManager.getInstance();
     const workspaceRoot = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
     
@@ -13,8 +18,30 @@ export async function handleFileOperations(operations: FileOperation[]): Promise
         throw new Error('No workspace folder found');
     }
 
+    // Reject invalid batches before anything is written
+    for (const operation of operations) {
+        assertWritable(operation.path, workspaceRoot);
+        if ((operation.type === 'update' || (operation.type === 'create' && !operation.directory)) && operation.content === undefined) {
+            throw new Error(`Content is required for ${operation.type} operation: ${operation.path}`);
+        }
+        if (operation.type === 'delete' && !fs.existsSync(assertWritable(operation.path, workspaceRoot))) {
+            throw new Error(`File not found: ${operation.path}`);
+        }
+        if (operation.type === 'patch') {
+            throw new Error(`Patch for ${operation.path} must be resolved to the file's new content first`);
+        }
+        if (!['create', 'update', 'delete'].includes(operation.type)) {
+            throw new Error(`Unknown operation type: ${operation.type}`);
+        }
+    }
+
+    const snapshots = await captureFiles(
+        operations.filter(operation => !isFolderCreation(operation)).map(operation => operation.path),
+        workspaceRoot
+    );
+
     for (const operation of operations) {
-        const fullPath = path.join(workspaceRoot, operation.path);
+        const fullPath = assertWritable(operation.path, workspaceRoot);
         
         try {
             // Always ensure the directory exists
@@ -22,22 +49,17 @@ export async function handleFileOperations(operations: FileOperation[]): Promise
 
             switch (operation.type) {
                 case 'create':
-                    if (operation.content === undefined || operation.content === '') {
-                        // This is a folder creation operation
+                    if (isFolderCreation(operation)) {
                         await fs.promises.mkdir(fullPath, { recursive: true });
                         logger.log(`Created directory: ${operation.path}`, { type: 'info' });
                     } else {
-                        // This is a file creation operation
-                        await fs.promises.writeFile(fullPath, operation.content);
+                        await fs.promises.writeFile(fullPath, operation.content!);
                         logger.log(`Created file: ${operation.path}`, { type: 'info' });
                     }
                     break;
 
                 case 'update':
-                    if (!operation.content) {
-                        throw new Error('Content is required for update operation');
-                    }
-                    await fs.promises.writeFile(fullPath, operation.content);
+                    await fs.promises.writeFile(fullPath, operation.content!);
                     logger.log(`Updated file: ${operation.path}`, { type: 'info' });
                     break;
 
@@ -45,15 +67,50 @@ export async function handleFileOperations(operations: FileOperation[]): Promise
                     await fs.promises.unlink(fullPath);
                     logger.log(`Deleted file: ${operation.path}`, { type: 'info' });
                     break;
-
-                default:
-                    throw new Error(`Unknown operation type: ${operation.type}`);
             }
         } catch (error) {
             logger.logError(error, `Failed to ${operation.type} file ${operation.path}`);
+            await restoreFiles(snapshots, workspaceRoot);
+            logger.log(`Rolled back ${snapshots.length} file(s) after the failed operation`, { type: 'info' });
             throw error;
         }
     }
+
+    return snapshots;
+}
+
+export async function captureFiles(paths: string[], workspaceRoot: string): Promise<FileSnapshot[]> {
+    const snapshots: FileSnapshot[] = [];
+    for (const filePath of Array.from(new Set(paths))) {
+        const fullPath = resolveWorkspacePath(filePath, workspaceRoot);
+        const existed = fs.existsSync(fullPath);
+        snapshots.push({
+            path: filePath,
+            existed,
+            content: existed ? await fs.promises.readFile(fullPath, 'utf-8') : ''
+        });
+    }
+    return snapshots;
+}
+
+/**
+ * Puts files back the way a snapshot found them: rewrites files that existed and removes
+ * files that didn't.
+ */
+export async function restoreFiles(snapshots: FileSnapshot[], workspaceRoot: string): Promise<void> {
+    for (const snapshot of snapshots) {
+        const fullPath = assertWritable(snapshot.path, workspaceRoot);
+        if (snapshot.existed) {
+            await fs.promises.mkdir(path.dirname(fullPath), { recursive: true });
+            await fs.promises.writeFile(fullPath, snapshot.content);
+        } else if (fs.existsSync(fullPath)) {
+            await fs.promises.unlink(fullPath);
+        }
+    }
+}
+
+function isFolderCreation(operation: FileOperation): boolean {
+    return operation.type === 'create' && operation.directory === true;
 }
 
 export function processResponseWithCodeBlocks(response: string): FileOperation[] {
@@ -87,7 +144,7 @@ export function processResponseWithCodeBlocks(response: string): FileOperation[]
                 operations.push({
                     type: 'create',
                     path: trimmedPath,
-                    content: '' // Empty content for folders
+                    directory: true
                 });
             }
         }
@@ -108,11 +165,7 @@ function escapeHtml(text: string): string {
 }
 
 export async function createFile(filePath: string, content: string, workspaceRoot: string): Promise<void> {
-    const fullPath = path.join(workspaceRoot, filePath);
-    
-    if (!validatePath(fullPath)) {
-        throw new Error(`Invalid file path: ${filePath}`);
-    }
+    const fullPath = assertWritable(filePath, workspaceRoot);
 
     const directory = path.dirname(fullPath);
     await fs.promises.mkdir(directory, { recursive: true });
@@ -120,11 +173,7 @@ export async function createFile(filePath: string, content: string, workspaceRoo
 }
 
 export async function modifyFile(filePath: string, content: string, workspaceRoot: string): Promise<void> {
-    const fullPath = path.join(workspaceRoot, filePath);
-    
-    if (!validatePath(fullPath)) {
-        throw new Error(`Invalid file path: ${filePath}`);
-    }
+    const fullPath = assertWritable(filePath, workspaceRoot);
 
     if (!fs.existsSync(fullPath)) {
         throw new Error(`File not found: ${filePath}`);
@@ -134,21 +183,13 @@ export async function modifyFile(filePath: string, content: string, workspaceRoo
 }
 
 export async function createDirectory(dirPath: string, workspaceRoot: string): Promise<void> {
-    const fullPath = path.join(workspaceRoot, dirPath);
-    
-    if (!validatePath(fullPath)) {
-        throw new Error(`Invalid directory path: ${dirPath}`);
-    }
+    const fullPath = assertWritable(dirPath, workspaceRoot);
 
     await fs.promises.mkdir(fullPath, { recursive: true });
 }
 
 export async function deleteFile(filePath: string, workspaceRoot: string): Promise<void> {
-    const fullPath = path.join(workspaceRoot, filePath);
-    
-    if (!validatePath(fullPath)) {
-        throw new Error(`Invalid file path: ${filePath}`);
-    }
+    const fullPath = assertWritable(filePath, workspaceRoot);
 
     if (!fs.existsSync(fullPath)) {
         throw new Error(`File not found: ${filePath}`);
@@ -158,11 +199,7 @@ export async function deleteFile(filePath: string, workspaceRoot: string): Promi
 }
 
 export async function readFile(filePath: string, workspaceRoot: string): Promise<string> {
-    const fullPath = path.join(workspaceRoot, filePath);
-    
-    if (!validatePath(fullPath)) {
-        throw new Error(`Invalid file path: ${filePath}`);
-    }
+    const fullPath = resolveWorkspacePath(filePath, workspaceRoot);
 
     if (!fs.existsSync(fullPath)) {
         throw new Error(`File not found: ${filePath}`);
@@ -172,11 +209,7 @@ export async function readFile(filePath: string, workspaceRoot: string): Promise
 }
 
 export async function listFiles(dirPath: string, workspaceRoot: string): Promise<string[]> {
-    const fullPath = path.join(workspaceRoot, dirPath);
-    
-    if (!validatePath(fullPath)) {
-        throw new Error(`Invalid directory path: ${dirPath}`);
-    }
+    const fullPath = resolveWorkspacePath(dirPath, workspaceRoot);
 
     if (!fs.existsSync(fullPath)) {
         throw new Error(`Directory not found: ${dirPath}`);
@@ -189,11 +222,7 @@ export async function listFiles(dirPath: string, workspaceRoot: string): Promise
 }
 
 export async function listDirectories(dirPath: string, workspaceRoot: string): Promise<string[]> {
-    const fullPath = path.join(workspaceRoot, dirPath);
-    
-    if (!validatePath(fullPath)) {
-        throw new Error(`Invalid directory path: ${dirPath}`);
-    }
+    const fullPath = resolveWorkspacePath(dirPath, workspaceRoot);
 
     if (!fs.existsSync(fullPath)) {
         throw new Error(`Directory not found: ${dirPath}`);
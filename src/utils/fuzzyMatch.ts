@@ -0,0 +1,58 @@
+/**
+ * Scores query as a case-insensitive subsequence of candidate, or returns undefined when it
+ * isn't one. Consecutive characters, matches at the start of a word or path segment and
+ * matches in the last path segment score higher; shorter candidates win ties.
+ */
+export function fuzzyScore(query: string, candidate: string): number | undefined {
+    const nameStart = candidate.lastIndexOf('/') + 1;
+    // Matching leftmost can land in the folders when the name would match better, so both are tried
+    const fromStart = scoreFrom(query, candidate, 0, nameStart);
+    const inName = nameStart > 0 ? scoreFrom(query, candidate, nameStart, nameStart) : undefined;
+    if (fromStart === undefined && inName === undefined) {
+        return undefined;
+    }
+    return Math.max(fromStart ?? -Infinity, inName ?? -Infinity) - candidate.length / 100;
+}
+
+/**
+ * The best matches first, at most limit of them. An empty query keeps the original order.
+ */
+export function fuzzyFilter<T>(query: string, items: T[], text: (item: T) => string, limit: number): T[] {
+    if (!query) {
+        return items.slice(0, limit);
+    }
+
+    return items
+        .map(item => ({ item, score: fuzzyScore(query, text(item)) }))
+        .filter((scored): scored is { item: T; score: number } => scored.score !== undefined)
+        .sort((a, b) => b.score - a.score)
+        .slice(0, limit)
+        .map(scored => scored.item);
+}
+
+function scoreFrom(query: string, candidate: string, position: number, nameStart: number): number | undefined {
+    const lowerCandidate = candidate.toLowerCase();
+    let score = 0;
+    let previous = -2;
+
+    for (const char of query.toLowerCase()) {
+        const index = lowerCandidate.indexOf(char, position);
+        if (index === -1) {
+            return undefined;
+        }
+
+        score += 1;
+        if (index === previous + 1) {
+            score += 5;
+        }
+        if (index === 0 || /[/\\._\-\s]/.test(candidate[index - 1]) || (/[A-Z]/.test(candidate[index]) && /[a-z]/.test(candidate[index - 1]))) {
+            score += 3;
+        }
+        if (index >= nameStart) {
+            score += 2;
+        }
+        previous = index;
+        position = index + 1;
+    }
+    return score;
+}
@@ -1,25 +1,4 @@
 import * as path from 'path';
-import * as fs from 'fs';
-
-export function validatePath(filePath: string): boolean {
-    try {
-        // Check if path exists
-        if (!fs.existsSync(filePath)) {
-            return false;
-        }
-        
-        // Get absolute path
-        const absolutePath = path.resolve(filePath);
-        
-        // Check if path is within workspace
-        const workspaceRoot = process.cwd();
-        const relativePath = path.relative(workspaceRoot, absolutePath);
-        return !relativePath.startsWith('..') && !path.isAbsolute(relativePath);
-    } catch (error) {
-        console.error('Error validating path:', error);
-        return false;
-    }
-}
 
 export function sanitizeCommand(command: string): string | null {
     try {
@@ -155,17 +134,23 @@ export function isDependencyFile(filePath: string): boolean {
         'package.json',
         'package-lock.json',
         'yarn.lock',
+        'pnpm-lock.yaml',
         'requirements.txt',
         'Pipfile',
         'Pipfile.lock',
         'poetry.lock',
+        'pyproject.toml',
+        'uv.lock',
         'Gemfile',
         'Gemfile.lock',
         'pom.xml',
         'build.gradle',
+        'build.gradle.kts',
         'build.sbt',
-        'cargo.toml',
-        'cargo.lock'
+        'Cargo.toml',
+        'Cargo.lock',
+        'go.mod',
+        'go.sum'
     ];
 
     return dependencyFiles.includes(path.basename(filePath));
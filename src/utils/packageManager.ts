@@ -0,0 +1,359 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { builtinModules } from 'module';
+import { Ecosystem, PackageManager } from '../interfaces/types';
+import { isDependencyFile } from './helpers';
+
+export interface MissingDependency {
+    // The name as it appeared in the error, e.g. lodash/fp, cv2 or github.com/pkg/errors/sub
+    module: string;
+    // The package that provides it, e.g. lodash, opencv-python or github.com/pkg/errors/sub
+    packageName: string;
+    ecosystem: Ecosystem;
+}
+
+const MISSING_DEPENDENCY_PATTERNS: { pattern: RegExp; ecosystem: Ecosystem }[] = [
+    { pattern: /Cannot find module '([^']+)'/, ecosystem: 'node' },
+    { pattern: /Cannot find package '([^']+)'/, ecosystem: 'node' },
+    { pattern: /Error: require\(\) of '([^']+)'/, ecosystem: 'node' },
+    { pattern: /npm ERR! missing: ([^@\s]+)/, ecosystem: 'node' },
+    { pattern: /ModuleNotFoundError: No module named '([^']+)'/, ecosystem: 'python' },
+    { pattern: /ImportError: No module named '?([\w.]+)'?/, ecosystem: 'python' },
+    { pattern: /error\[E0432\]: unresolved import `(\w+)/, ecosystem: 'rust' },
+    { pattern: /error\[E0433\]: failed to resolve: use of (?:undeclared crate or module|unresolved module or unlinked crate) `(\w+)`/, ecosystem: 'rust' },
+    { pattern: /can't find crate for `(\w+)`/, ecosystem: 'rust' },
+    { pattern: /no required module provides package ([^\s;]+)/, ecosystem: 'go' },
+    { pattern: /missing go\.sum entry for module providing package ([^\s;(]+)/, ecosystem: 'go' },
+    { pattern: /cannot find package "([^"]+)"/, ecosystem: 'go' },
+    { pattern: /package ([\w.]+) does not exist/, ecosystem: 'java' }
+];
+
+// Import names that differ from the name the package is published under
+const PYTHON_PACKAGES: Record<string, string> = {
+    cv2: 'opencv-python',
+    PIL: 'Pillow',
+    yaml: 'PyYAML',
+    sklearn: 'scikit-learn',
+    skimage: 'scikit-image',
+    bs4: 'beautifulsoup4',
+    dateutil: 'python-dateutil',
+    dotenv: 'python-dotenv',
+    jwt: 'PyJWT',
+    jose: 'python-jose',
+    Crypto: 'pycryptodome',
+    OpenSSL: 'pyOpenSSL',
+    serial: 'pyserial',
+    usb: 'pyusb',
+    attr: 'attrs',
+    magic: 'python-magic',
+    docx: 'python-docx',
+    pptx: 'python-pptx',
+    fitz: 'PyMuPDF',
+    MySQLdb: 'mysqlclient',
+    psycopg2: 'psycopg2-binary',
+    win32api: 'pywin32',
+    win32con: 'pywin32',
+    gi: 'PyGObject',
+    git: 'GitPython',
+    github: 'PyGithub',
+    zmq: 'pyzmq',
+    websocket: 'websocket-client',
+    slugify: 'python-slugify',
+    multipart: 'python-multipart',
+    telegram: 'python-telegram-bot',
+    Levenshtein: 'python-Levenshtein',
+    google: 'protobuf'
+};
+
+// Java packages of common libraries and the Maven artifact providing them, longest prefix wins
+const JAVA_ARTIFACTS: Record<string, string> = {
+    'org.apache.commons.lang3': 'org.apache.commons:commons-lang3',
+    'org.apache.commons.io': 'commons-io:commons-io',
+    'org.apache.commons.collections4': 'org.apache.commons:commons-collections4',
+    'org.apache.commons.codec': 'commons-codec:commons-codec',
+    'org.apache.commons.csv': 'org.apache.commons:commons-csv',
+    'org.apache.http': 'org.apache.httpcomponents:httpclient',
+    'com.google.gson': 'com.google.code.gson:gson',
+    'com.google.common': 'com.google.guava:guava',
+    'com.fasterxml.jackson.databind': 'com.fasterxml.jackson.core:jackson-databind',
+    'com.fasterxml.jackson.core': 'com.fasterxml.jackson.core:jackson-core',
+    'com.fasterxml.jackson.annotation': 'com.fasterxml.jackson.core:jackson-annotations',
+    'org.junit.jupiter': 'org.junit.jupiter:junit-jupiter',
+    'org.junit': 'junit:junit',
+    'org.mockito': 'org.mockito:mockito-core',
+    'org.assertj': 'org.assertj:assertj-core',
+    'org.slf4j': 'org.slf4j:slf4j-api',
+    'lombok': 'org.projectlombok:lombok',
+    'okhttp3': 'com.squareup.okhttp3:okhttp',
+    'org.json': 'org.json:json',
+    'org.jsoup': 'org.jsoup:jsoup',
+    'org.yaml.snakeyaml': 'org.yaml:snakeyaml'
+};
+
+const PACKAGE_NAME_PATTERNS: Record<Ecosystem, RegExp> = {
+    // Optionally scoped, with an optional version or range
+    node: /^(@[\w.-]+\/)?[\w.-]+(@[\w.^~<>=*|-]+)?$/,
+    // With optional extras and a version specifier
+    python: /^[A-Za-z0-9][\w.-]*(\[[\w,.-]+\])?([<>=!~]=?[\w.*+-]+)?$/,
+    rust: /^[A-Za-z][\w-]*(@[\w.^~<>=*-]+)?$/,
+    go: /^[\w.-]+(\/[\w.~-]+)*(@[\w.+-]+)?$/,
+    // group:artifact with an optional version
+    java: /^[\w.-]+:[\w.-]+(:[\w.+-]+)?$/
+};
+
+export const ECOSYSTEMS = Object.keys(PACKAGE_NAME_PATTERNS) as Ecosystem[];
+
+const DEPENDENCY_FILE_ECOSYSTEMS: Record<string, Ecosystem> = {
+    'package.json': 'node',
+    'package-lock.json': 'node',
+    'yarn.lock': 'node',
+    'pnpm-lock.yaml': 'node',
+    'requirements.txt': 'python',
+    'Pipfile': 'python',
+    'Pipfile.lock': 'python',
+    'poetry.lock': 'python',
+    'pyproject.toml': 'python',
+    'uv.lock': 'python',
+    'Cargo.toml': 'rust',
+    'Cargo.lock': 'rust',
+    'go.mod': 'go',
+    'go.sum': 'go',
+    'pom.xml': 'java',
+    'build.gradle': 'java',
+    'build.gradle.kts': 'java'
+};
+
+// The file that makes a directory a project of its own; lock files alone don't
+const PROJECT_MANIFESTS: Record<Ecosystem, string[]> = {
+    node: ['package.json'],
+    python: ['pyproject.toml', 'requirements.txt', 'Pipfile'],
+    rust: ['Cargo.toml'],
+    go: ['go.mod'],
+    java: ['pom.xml', 'build.gradle', 'build.gradle.kts']
+};
+
+const SOURCE_FILE_REGEX = /(?:[A-Za-z]:)?[\w./\\-]+\.(?:[cm]?js|jsx|tsx?|py|rs|go|java|kt)\b/g;
+const RUST_BUILTIN_CRATES = ['std', 'core', 'alloc', 'crate', 'self', 'super', 'proc_macro', 'test'];
+
+/**
+ * Recognizes "module not found" errors of the supported ecosystems and maps the import to
+ * the package to install. Relative imports, standard libraries and Java packages of unknown
+ * libraries are not reported.
+ */
+export function detectMissingDependency(errorText: string): MissingDependency | null {
+    for (const { pattern, ecosystem } of MISSING_DEPENDENCY_PATTERNS) {
+        const module = errorText.match(pattern)?.[1]?.trim();
+        if (!module || module.startsWith('.') || path.isAbsolute(module)) {
+            continue;
+        }
+
+        const packageName = toPackageName(module, ecosystem);
+        if (packageName && isValidPackageName(packageName, ecosystem)) {
+            return { module, packageName, ecosystem };
+        }
+    }
+    return null;
+}
+
+/**
+ * Names end up on a command line or in a build file, so anything beyond a plain package
+ * spec is refused.
+ */
+export function isValidPackageName(name: string, ecosystem: Ecosystem): boolean {
+    return PACKAGE_NAME_PATTERNS[ecosystem].test(name);
+}
+
+export function ecosystemOfDependencyFile(filePath: string): Ecosystem | undefined {
+    return isDependencyFile(filePath) ? DEPENDENCY_FILE_ECOSYSTEMS[path.basename(filePath)] : undefined;
+}
+
+/**
+ * The ecosystems a directory is a project of, judged by its dependency files.
+ */
+export async function detectEcosystems(dir: string): Promise<Ecosystem[]> {
+    const entries = await fs.promises.readdir(dir).catch(() => [] as string[]);
+    const ecosystems = entries
+        .map(entry => ecosystemOfDependencyFile(path.join(dir, entry)))
+        .filter((ecosystem): ecosystem is Ecosystem => ecosystem !== undefined);
+    return Array.from(new Set(ecosystems));
+}
+
+/**
+ * The ecosystem of the nearest project at or above `start` within the workspace.
+ */
+export async function detectProjectEcosystem(start: string, workspaceRoot: string): Promise<Ecosystem | undefined> {
+    for (const dir of ancestors(start, workspaceRoot)) {
+        const [ecosystem] = await detectEcosystems(dir);
+        if (ecosystem) {
+            return ecosystem;
+        }
+    }
+    return undefined;
+}
+
+/**
+ * The nearest directory at or above `start`, within the workspace, that is a project of the
+ * ecosystem; in a monorepo that is the package the file belongs to. Falls back to the
+ * workspace root.
+ */
+export function findProjectDir(start: string, ecosystem: Ecosystem, workspaceRoot: string): string {
+    return ancestors(start, workspaceRoot).find(dir =>
+        PROJECT_MANIFESTS[ecosystem].some(file => fs.existsSync(path.join(dir, file)))) || workspaceRoot;
+}
+
+/**
+ * The first source file mentioned in an error that exists in the workspace, e.g. from a
+ * stack trace, so the dependency can be installed into the project that needs it.
+ */
+export function findErrorSourceFile(errorText: string, workspaceRoot: string): string | undefined {
+    for (const candidate of errorText.match(SOURCE_FILE_REGEX) || []) {
+        const resolved = path.resolve(workspaceRoot, candidate);
+        const relative = path.relative(workspaceRoot, resolved);
+        if (!relative.startsWith('..') && !path.isAbsolute(relative) && !relative.split(path.sep).includes('node_modules') && fs.existsSync(resolved)) {
+            return resolved;
+        }
+    }
+    return undefined;
+}
+
+/**
+ * The package manager a project already uses, judged by the packageManager field, lock
+ * files and build files of the project and the directories above it in the workspace.
+ */
+export async function detectPackageManager(projectDir: string, workspaceRoot: string, ecosystem: Ecosystem): Promise<PackageManager> {
+    switch (ecosystem) {
+        case 'rust':
+            return 'cargo';
+        case 'go':
+            return 'go';
+        case 'java':
+            return fs.existsSync(path.join(projectDir, 'pom.xml')) ? 'maven' : 'gradle';
+        case 'python': {
+            let manager: PackageManager | undefined;
+            for (const dir of ancestors(projectDir, workspaceRoot)) {
+                const pyproject = await readFile(path.join(dir, 'pyproject.toml'));
+                if (fs.existsSync(path.join(dir, 'uv.lock')) || (pyproject && /^\[tool\.uv\]/m.test(pyproject))) {
+                    manager = 'uv';
+                } else if (fs.existsSync(path.join(dir, 'poetry.lock')) || (pyproject && /^\[tool\.poetry\]/m.test(pyproject))) {
+                    manager = 'poetry';
+                } else if (fs.existsSync(path.join(dir, 'Pipfile'))) {
+                    manager = 'pipenv';
+                }
+                if (manager) {
+                    return manager;
+                }
+            }
+            return 'pip';
+        }
+        default:
+            for (const dir of ancestors(projectDir, workspaceRoot)) {
+                try {
+                    const packageJson = JSON.parse(await readFile(path.join(dir, 'package.json')) || '{}');
+                    const declared = String(packageJson.packageManager || '').match(/^(npm|yarn|pnpm)@/);
+                    if (declared) {
+                        return declared[1] as PackageManager;
+                    }
+                } catch {
+                    // An unreadable package.json says nothing about the package manager
+                }
+                if (fs.existsSync(path.join(dir, 'pnpm-lock.yaml'))) {
+                    return 'pnpm';
+                }
+                if (fs.existsSync(path.join(dir, 'yarn.lock'))) {
+                    return 'yarn';
+                }
+                if (fs.existsSync(path.join(dir, 'package-lock.json'))) {
+                    return 'npm';
+                }
+            }
+            return 'npm';
+    }
+}
+
+/**
+ * The root of the npm, yarn or pnpm workspace a package belongs to, if it is part of one.
+ */
+export async function findNodeWorkspaceRoot(projectDir: string, workspaceRoot: string): Promise<string | undefined> {
+    for (const dir of ancestors(path.dirname(projectDir), workspaceRoot)) {
+        if (fs.existsSync(path.join(dir, 'pnpm-workspace.yaml'))) {
+            return dir;
+        }
+        try {
+            if (JSON.parse(await readFile(path.join(dir, 'package.json')) || '{}').workspaces) {
+                return dir;
+            }
+        } catch {
+            // Not a workspace root
+        }
+    }
+    return undefined;
+}
+
+/**
+ * The Python interpreter of the project's virtualenv (.venv, venv or env in the project or
+ * the workspace root), if there is one.
+ */
+export function findVirtualenvPython(projectDir: string, workspaceRoot: string): string | undefined {
+    const interpreter = process.platform === 'win32' ? path.join('Scripts', 'python.exe') : path.join('bin', 'python');
+    for (const dir of Array.from(new Set([projectDir, workspaceRoot]))) {
+        for (const name of ['.venv', 'venv', 'env']) {
+            const candidate = path.join(dir, name, interpreter);
+            if (fs.existsSync(candidate)) {
+                return candidate;
+            }
+        }
+    }
+    return undefined;
+}
+
+function toPackageName(module: string, ecosystem: Ecosystem): string | undefined {
+    switch (ecosystem) {
+        case 'node': {
+            const name = module.split('/').slice(0, module.startsWith('@') ? 2 : 1).join('/');
+            return builtinModules.includes(name) || name.startsWith('node:') ? undefined : name;
+        }
+        case 'python': {
+            const name = module.split('.')[0];
+            return PYTHON_PACKAGES[name] || name;
+        }
+        case 'rust':
+            return RUST_BUILTIN_CRATES.includes(module) ? undefined : module;
+        case 'go':
+            // Standard library import paths have no domain in their first element
+            return module.split('/')[0].includes('.') ? module : undefined;
+        case 'java': {
+            const prefix = Object.keys(JAVA_ARTIFACTS)
+                .filter(candidate => module === candidate || module.startsWith(`${candidate}.`))
+                .sort((a, b) => b.length - a.length)[0];
+            return prefix ? JAVA_ARTIFACTS[prefix] : undefined;
+        }
+    }
+}
+
+/**
+ * The directory itself (or a file's directory) and its parents up to the workspace root.
+ */
+function ancestors(start: string, workspaceRoot: string): string[] {
+    const dirs: string[] = [];
+    let current = fs.existsSync(start) && fs.statSync(start).isFile() ? path.dirname(start) : start;
+    while (true) {
+        const relative = path.relative(workspaceRoot, current);
+        if (relative.startsWith('..') || path.isAbsolute(relative)) {
+            break;
+        }
+        dirs.push(current);
+        if (!relative) {
+            break;
+        }
+        current = path.dirname(current);
+    }
+    return dirs;
+}
+
+async function readFile(filePath: string): Promise<string | undefined> {
+    try {
+        return await fs.promises.readFile(filePath, 'utf-8');
+    } catch {
+        return undefined;
+    }
+}
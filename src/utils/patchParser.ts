@@ -0,0 +1,352 @@
+import { FileOperation, PatchConflict, PatchEdit } from '../interfaces/types';
+
+const FENCED_BLOCK_REGEX = /```[\w.-]*\n([\s\S]*?)```/g;
+const SEARCH_REPLACE_REGEX = /<{5,9} SEARCH\n([\s\S]*?)^={5,9}\n([\s\S]*?)^>{5,9} REPLACE$/gm;
+const HUNK_HEADER_REGEX = /^@@ -\d+(?:,\d+)? \+\d+(?:,\d+)? @@/;
+
+// Below this average line similarity a fuzzy match is reported as a conflict instead
+const FUZZY_THRESHOLD = 0.85;
+// The best fuzzy match must beat the runner-up by this much to be trusted
+const FUZZY_MARGIN = 0.05;
+
+export interface PatchResult {
+    content: string;
+    applied: number;
+    conflicts: PatchConflict[];
+}
+
+/**
+ * Extracts patch operations from a response. Two formats are understood, both inside
+ * fenced blocks: SEARCH/REPLACE blocks under a `Patch: path` header, and unified diffs
+ * with `---`/`+++` file headers. Whole-file `File: path` blocks are left to
+ * processResponseWithCodeBlocks.
+ */
+export function parsePatchOperations(response: string): FileOperation[] {
+    const operations: FileOperation[] = [];
+    let match;
+
+    FENCED_BLOCK_REGEX.lastIndex = 0;
+    while ((match = FENCED_BLOCK_REGEX.exec(response)) !== null) {
+        const block = match[1];
+        const header = block.match(/^Patch: ([^\n]+)\n/);
+
+        if (header) {
+            const edits = parseSearchReplaceBlocks(block.slice(header[0].length));
+            if (edits.length > 0) {
+                operations.push({ type: 'patch', path: header[1].trim(), edits });
+            }
+        } else if (/^--- .+\n\+\+\+ .+$/m.test(block)) {
+            operations.push(...parseUnifiedDiff(block));
+        }
+    }
+
+    return mergeByPath(operations);
+}
+
+export function parseSearchReplaceBlocks(text: string): PatchEdit[] {
+    const edits: PatchEdit[] = [];
+    let match;
+
+    SEARCH_REPLACE_REGEX.lastIndex = 0;
+    while ((match = SEARCH_REPLACE_REGEX.exec(text)) !== null) {
+        edits.push({ search: match[1], replace: match[2] });
+    }
+
+    return edits;
+}
+
+/**
+ * Turns each hunk into a search/replace edit made of its context and changed lines. Line
+ * numbers in the hunk headers are ignored; the context is what anchors the edit, since
+ * models rarely get the numbers right.
+ */
+export function parseUnifiedDiff(diff: string): FileOperation[] {
+    const operations: FileOperation[] = [];
+    const lines = diff.split('\n');
+    let index = 0;
+
+    while (index < lines.length) {
+        if (!lines[index].startsWith('--- ') || !lines[index + 1]?.startsWith('+++ ')) {
+            index++;
+            continue;
+        }
+
+        const oldPath = parseDiffPath(lines[index]);
+        const newPath = parseDiffPath(lines[index + 1]);
+        index += 2;
+
+        const edits: PatchEdit[] = [];
+        while (index < lines.length && !lines[index].startsWith('--- ')) {
+            if (!HUNK_HEADER_REGEX.test(lines[index])) {
+                index++;
+                continue;
+            }
+            index++;
+
+            const search: string[] = [];
+            const replace: string[] = [];
+            while (index < lines.length && !HUNK_HEADER_REGEX.test(lines[index]) && !lines[index].startsWith('--- ')) {
+                const line = lines[index];
+                if (line.startsWith('-')) {
+                    search.push(line.slice(1));
+                } else if (line.startsWith('+')) {
+                    replace.push(line.slice(1));
+                } else if (line.startsWith(' ') || line === '') {
+                    search.push(line.slice(1));
+                    replace.push(line.slice(1));
+                }
+                // "\ No newline at end of file" and other markers carry no content
+                index++;
+            }
+
+            // Trailing blank context lines are usually an artifact of the fence, not the file
+            while (search.length > 0 && search[search.length - 1] === '' && replace[replace.length - 1] === '') {
+                search.pop();
+                replace.pop();
+            }
+            edits.push({ search: joinLines(search), replace: joinLines(replace) });
+        }
+
+        if (newPath === null && oldPath) {
+            operations.push({ type: 'delete', path: oldPath });
+        } else if (oldPath === null && newPath) {
+            operations.push({ type: 'create', path: newPath, content: edits.map(edit => edit.replace).join('') });
+        } else if (newPath && edits.length > 0) {
+            operations.push({ type: 'patch', path: newPath, edits });
+        }
+    }
+
+    return operations;
+}
+
+/**
+ * Applies edits in order. Each SEARCH text is located exactly first, then ignoring
+ * indentation and trailing whitespace, and finally by line similarity. Edits that can't be
+ * placed unambiguously are returned as conflicts and leave the content untouched.
+ */
+export function applyPatch(path: string, content: string, edits: PatchEdit[]): PatchResult {
+    const conflicts: PatchConflict[] = [];
+    let applied = 0;
+
+    for (const edit of edits) {
+        if (edit.search.trim() === '') {
+            // An empty SEARCH only makes sense for a new or empty file
+            if (content.trim() === '') {
+                content = edit.replace;
+                applied++;
+            } else {
+                conflicts.push({ path, search: edit.search, reason: 'ambiguous' });
+            }
+            continue;
+        }
+
+        const exact = findAll(content, edit.search);
+        if (exact.length === 1) {
+            content = content.slice(0, exact[0]) + edit.replace + content.slice(exact[0] + edit.search.length);
+            applied++;
+            continue;
+        }
+        if (exact.length > 1) {
+            conflicts.push({ path, search: edit.search, reason: 'ambiguous' });
+            continue;
+        }
+
+        const result = replaceLines(content, edit);
+        if (typeof result === 'string') {
+            content = result;
+            applied++;
+        } else {
+            conflicts.push({ path, search: edit.search, ...result });
+        }
+    }
+
+    return { content, applied, conflicts };
+}
+
+/**
+ * Describes conflicts in a form the model can act on: what it searched for and what the
+ * file actually contains in the closest place.
+ */
+export function formatPatchConflicts(conflicts: PatchConflict[]): string {
+    return conflicts.map((conflict, index) => {
+        const reason = conflict.reason === 'ambiguous'
+            ? 'the SEARCH text matches more than one place; include more surrounding lines'
+            : conflict.reason === 'missing-file'
+                ? 'the file does not exist; create it with a File: block instead'
+                : 'the SEARCH text was not found';
+        let text = `${index + 1}. ${conflict.path}: ${reason}.\nSEARCH:\n${conflict.search}`;
+        if (conflict.closest) {
+            text += `\nClosest match (line ${conflict.closest.startLine}, ${Math.round(conflict.closest.similarity * 100)}% similar):\n${conflict.closest.text}`;
+        }
+        return text;
+    }).join('\n\n');
+}
+
+function replaceLines(content: string, edit: PatchEdit): string | Pick<PatchConflict, 'reason' | 'closest'> {
+    const lines = content.split('\n');
+    const searchLines = trimBlankEdges(edit.search.split('\n'));
+    const normalizedSearch = searchLines.map(line => line.trim());
+    const normalizedLines = lines.map(line => line.trim());
+
+    const loose: number[] = [];
+    for (let start = 0; start + searchLines.length <= lines.length; start++) {
+        if (normalizedSearch.every((line, offset) => normalizedLines[start + offset] === line)) {
+            loose.push(start);
+        }
+    }
+    if (loose.length > 1) {
+        return { reason: 'ambiguous' };
+    }
+
+    let start = loose[0];
+    if (start === undefined) {
+        const ranked = rankWindows(normalizedLines, normalizedSearch);
+        const [best, second] = ranked;
+        const closest = best && {
+            startLine: best.start + 1,
+            text: lines.slice(best.start, best.start + searchLines.length).join('\n'),
+            similarity: best.score
+        };
+        if (!best || best.score < FUZZY_THRESHOLD) {
+            return { reason: 'not-found', closest };
+        }
+        if (second && best.score - second.score < FUZZY_MARGIN) {
+            return { reason: 'ambiguous', closest };
+        }
+        start = best.start;
+    }
+
+    const replacement = reindent(trimBlankEdges(edit.replace.split('\n')), searchLines, lines[start]);
+    lines.splice(start, searchLines.length, ...replacement);
+    return lines.join('\n');
+}
+
+/**
+ * Scores every window of the file against the search lines, best first. Windows that
+ * overlap the best one are dropped so the runner-up is a genuinely different place.
+ */
+function rankWindows(lines: string[], search: string[]): { start: number; score: number }[] {
+    const searchGrams = search.map(bigrams);
+    const lineGrams = lines.map(bigrams);
+    const windows: { start: number; score: number }[] = [];
+
+    for (let start = 0; start + search.length <= lines.length; start++) {
+        let total = 0;
+        for (let offset = 0; offset < search.length; offset++) {
+            total += similarity(searchGrams[offset], lineGrams[start + offset], search[offset], lines[start + offset]);
+        }
+        windows.push({ start, score: total / search.length });
+    }
+
+    windows.sort((a, b) => b.score - a.score);
+    const best = windows[0];
+    return best
+        ? [best, ...windows.filter(window => Math.abs(window.start - best.start) >= search.length)]
+        : [];
+}
+
+function bigrams(text: string): Map<string, number> {
+    const grams = new Map<string, number>();
+    for (let index = 0; index < text.length - 1; index++) {
+        const gram = text.slice(index, index + 2);
+        grams.set(gram, (grams.get(gram) || 0) + 1);
+    }
+    return grams;
+}
+
+// Dice coefficient over character bigrams
+function similarity(a: Map<string, number>, b: Map<string, number>, textA: string, textB: string): number {
+    if (textA === textB) {
+        return 1;
+    }
+    if (a.size === 0 || b.size === 0) {
+        return 0;
+    }
+    let shared = 0;
+    let total = 0;
+    a.forEach((count, gram) => {
+        shared += Math.min(count, b.get(gram) || 0);
+        total += count;
+    });
+    b.forEach(count => total += count);
+    return (2 * shared) / total;
+}
+
+/**
+ * Shifts the replacement by the indentation difference between the SEARCH text and the
+ * line it matched, for models that drop or add a level of indentation.
+ */
+function reindent(replace: string[], search: string[], matchedFirstLine: string): string[] {
+    const searchIndent = leadingWhitespace(search.find(line => line.trim() !== '') || '');
+    const matchedIndent = leadingWhitespace(matchedFirstLine);
+    if (searchIndent === matchedIndent) {
+        return replace;
+    }
+
+    return replace.map(line => {
+        if (line.trim() === '') {
+            return line;
+        }
+        if (matchedIndent.startsWith(searchIndent)) {
+            return matchedIndent.slice(searchIndent.length) + line;
+        }
+        const extra = searchIndent.slice(matchedIndent.length);
+        return searchIndent.startsWith(matchedIndent) && line.startsWith(extra) ? line.slice(extra.length) : line;
+    });
+}
+
+function leadingWhitespace(line: string): string {
+    return line.match(/^\s*/)![0];
+}
+
+function trimBlankEdges(lines: string[]): string[] {
+    let start = 0;
+    let end = lines.length;
+    while (start < end && lines[start].trim() === '') {
+        start++;
+    }
+    while (end > start && lines[end - 1].trim() === '') {
+        end--;
+    }
+    return lines.slice(start, end);
+}
+
+function findAll(content: string, search: string): number[] {
+    const positions: number[] = [];
+    let index = content.indexOf(search);
+    while (index !== -1) {
+        positions.push(index);
+        index = content.indexOf(search, index + 1);
+    }
+    return positions;
+}
+
+function parseDiffPath(line: string): string | null {
+    const target = line.slice(4).split('\t')[0].trim();
+    if (target === '/dev/null') {
+        return null;
+    }
+    return target.replace(/^[ab]\//, '');
+}
+
+function joinLines(lines: string[]): string {
+    return lines.length > 0 ? `${lines.join('\n')}\n` : '';
+}
+
+/**
+ * Several patches to the same file in one response become one operation, applied in order.
+ */
+function mergeByPath(operations: FileOperation[]): FileOperation[] {
+    const merged: FileOperation[] = [];
+    for (const operation of operations) {
+        const previous = operation.type === 'patch'
+            ? merged.find(candidate => candidate.type === 'patch' && candidate.path === operation.path)
+            : undefined;
+        if (previous) {
+            previous.edits!.push(...operation.edits!);
+        } else {
+            merged.push(operation);
+        }
+    }
+    return merged;
+}
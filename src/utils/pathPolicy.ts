@@ -0,0 +1,94 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import minimatch from 'minimatch';
+
+export const DEFAULT_PROTECTED_PATHS = ['.git/**', '**/.env', '**/.env.*', '**/*.pem', '**/*.key'];
+// Beyond this a chain of links is taken for a loop, as the OS does
+const MAX_SYMLINKS = 40;
+
+export class PathPolicyError extends Error {
+    constructor(message: string, public readonly requestedPath: string) {
+        super(message);
+        this.name = 'PathPolicyError';
+    }
+}
+
+/**
+ * Resolves a path the AI asked for to an absolute path inside the workspace. Symlinks are
+ * followed, also for files that don't exist yet (through their nearest existing parent),
+ * so a link can't be used to reach outside the workspace.
+ */
+export function resolveWorkspacePath(requestedPath: string, workspaceRoot: string): string {
+    if (!requestedPath.trim() || requestedPath.includes('\0')) {
+        throw new PathPolicyError(`Invalid path: ${JSON.stringify(requestedPath)}`, requestedPath);
+    }
+
+    const root = realpath(path.resolve(workspaceRoot));
+    const resolved = realpath(path.resolve(root, requestedPath));
+    const relative = path.relative(root, resolved);
+
+    if (relative.startsWith('..') || path.isAbsolute(relative)) {
+        throw new PathPolicyError(`${requestedPath} is outside the workspace`, requestedPath);
+    }
+    return resolved;
+}
+
+/**
+ * Like resolveWorkspacePath, and also refuses paths matching falalo.protectedPaths and the
+ * workspace root itself.
+ */
+export function assertWritable(requestedPath: string, workspaceRoot: string): string {
+    const resolved = resolveWorkspacePath(requestedPath, workspaceRoot);
+    const relative = path.relative(realpath(path.resolve(workspaceRoot)), resolved);
+
+    if (!relative) {
+        throw new PathPolicyError('The workspace root itself cannot be modified', requestedPath);
+    }
+    if (isProtectedPath(relative)) {
+        throw new PathPolicyError(`${requestedPath} is protected (falalo.protectedPaths)`, requestedPath);
+    }
+    return resolved;
+}
+
+export function isProtectedPath(relativePath: string): boolean {
+    const patterns = vscode.workspace.getConfiguration('falalo').get<string[]>('protectedPaths', DEFAULT_PROTECTED_PATHS);
+    const normalized = relativePath.split(path.sep).join('/');
+    return patterns.some(pattern =>
+        minimatch(normalized, pattern, { dot: true, nocase: process.platform === 'win32' }) ||
+        // A protected folder protects what's inside it even without a trailing /**
+        minimatch(normalized, `${pattern.replace(/\/$/, '')}/**`, { dot: true, nocase: process.platform === 'win32' }));
+}
+
+/**
+ * Canonical form of a path that may not exist yet: the nearest existing ancestor is
+ * resolved with realpath and the missing segments are appended. A dangling symlink counts
+ * as existing and is resolved through its target, since writing to it would create that.
+ */
+function realpath(target: string, links = 0): string {
+    const missing: string[] = [];
+    let current = target;
+
+    while (!fs.lstatSync(current, { throwIfNoEntry: false })) {
+        const parent = path.dirname(current);
+        if (parent === current) {
+            break;
+        }
+        missing.unshift(path.basename(current));
+        current = parent;
+    }
+
+    if (!fs.existsSync(current) && fs.lstatSync(current, { throwIfNoEntry: false })?.isSymbolicLink()) {
+        if (links >= MAX_SYMLINKS) {
+            throw new PathPolicyError(`Too many levels of symbolic links in ${target}`, target);
+        }
+        const linkTarget = path.resolve(path.dirname(current), fs.readlinkSync(current));
+        return realpath(path.join(linkTarget, ...missing), links + 1);
+    }
+
+    try {
+        return path.join(fs.realpathSync.native(current), ...missing);
+    } catch {
+        return target;
+    }
+}
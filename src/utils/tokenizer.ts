@@ -0,0 +1,13 @@
+import { countTokens as countO200k } from 'gpt-tokenizer';
+import { countTokens as countCl100k } from 'gpt-tokenizer/cjs/encoding/cl100k_base';
+
+// Models that predate o200k_base. Everything else, including non-OpenAI models, is counted
+// with o200k_base, which is the closest local approximation available.
+const CL100K_MODELS = /^(gpt-4(?!o|\.)|gpt-3\.5|text-embedding-)/;
+
+export function countTokens(text: string, model: string = ''): number {
+    if (!text) {
+        return 0;
+    }
+    return CL100K_MODELS.test(model) ? countCl100k(text) : countO200k(text);
+}